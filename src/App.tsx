@@ -12,6 +12,15 @@ import { Standards } from "@/pages/Standards";
 import { TeamMembers } from "@/pages/TeamMembers";
 import { Analytics } from "@/pages/Analytics";
 import { Messages } from "@/pages/Messages";
+import { AuditLog } from "@/pages/AuditLog";
+import { RecycleBin } from "@/pages/RecycleBin";
+import { Crosswalk } from "@/pages/Crosswalk";
+import { Coverage } from "@/pages/Coverage";
+import { EvidencePacks } from "@/pages/EvidencePacks";
+import { Improvements } from "@/pages/Improvements";
+import { Complaints } from "@/pages/Complaints";
+import { TrainerCredentials } from "@/pages/TrainerCredentials";
+import { Scope } from "@/pages/Scope";
 import { AcceptInvitation } from "@/pages/AcceptInvitation";
 import { ProfileSettings } from "@/pages/ProfileSettings";
 
@@ -38,6 +47,30 @@ const App = () => (
                       path="/standards" 
                       element={<Standards />} 
                     />
+                    <Route 
+                      path="/scope" 
+                      element={<Scope />} 
+                    />
+                    <Route 
+                      path="/coverage" 
+                      element={<Coverage />} 
+                    />
+                    <Route 
+                      path="/evidence-packs" 
+                      element={<EvidencePacks />} 
+                    />
+                    <Route 
+                      path="/improvements" 
+                      element={<Improvements />} 
+                    />
+                    <Route 
+                      path="/complaints" 
+                      element={<Complaints />} 
+                    />
+                    <Route 
+                      path="/trainers" 
+                      element={<TrainerCredentials />} 
+                    />
                     <Route 
                       path="/team" 
                       element={<TeamMembers />} 
@@ -50,6 +83,18 @@ const App = () => (
                       path="/messages" 
                       element={<Messages />} 
                     />
+                    <Route 
+                      path="/audit" 
+                      element={<AuditLog />} 
+                    />
+                    <Route 
+                      path="/standards/crosswalk" 
+                      element={<Crosswalk />} 
+                    />
+                    <Route 
+                      path="/recycle-bin" 
+                      element={<RecycleBin />} 
+                    />
                     <Route 
                       path="/settings" 
                       element={<ProfileSettings />} 
@@ -0,0 +1,114 @@
+import React from 'react';
+import { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { CalendarIcon, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+// Clauses are filtered by standard id; the label is what's shown
+export interface ClauseOption {
+  id: string;
+  label: string;
+}
+
+interface AnalyticsFiltersProps {
+  dateRange: DateRange | undefined;
+  onDateRangeChange: (range: DateRange | undefined) => void;
+  clauses: ClauseOption[];
+  clauseFilter: string;
+  onClauseFilterChange: (clause: string) => void;
+  people: string[];
+  personFilter: string;
+  onPersonFilterChange: (person: string) => void;
+}
+
+export const AnalyticsFilters = ({
+  dateRange,
+  onDateRangeChange,
+  clauses,
+  clauseFilter,
+  onClauseFilterChange,
+  people,
+  personFilter,
+  onPersonFilterChange,
+}: AnalyticsFiltersProps) => {
+  const formatRange = (range: DateRange | undefined) => {
+    if (!range?.from) return <span>All dates</span>;
+    if (!range.to) return format(range.from, "PPP");
+    return `${format(range.from, "PPP")} - ${format(range.to, "PPP")}`;
+  };
+
+  const hasFilters = !!dateRange?.from || clauseFilter !== 'all' || personFilter !== 'all';
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4">
+      <div className="flex-1">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant={"outline"}
+              className={cn(
+                "w-full justify-start text-left font-normal",
+                !dateRange?.from && "text-muted-foreground"
+              )}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {formatRange(dateRange)}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={dateRange}
+              onSelect={onDateRangeChange}
+              numberOfMonths={2}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+      <div className="w-full md:w-56">
+        <Select value={clauseFilter} onValueChange={onClauseFilterChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by Clause" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Clauses</SelectItem>
+            {clauses.map((clause) => (
+              <SelectItem key={clause.id} value={clause.id}>{clause.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="w-full md:w-56">
+        <Select value={personFilter} onValueChange={onPersonFilterChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="Filter by Person" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All People</SelectItem>
+            {people.map((person) => (
+              <SelectItem key={person} value={person}>{person}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          onClick={() => {
+            onDateRangeChange(undefined);
+            onClauseFilterChange('all');
+            onPersonFilterChange('all');
+          }}
+        >
+          <X className="h-4 w-4 mr-2" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import {
+  COMPLAINANT_TYPES,
+  Complaint,
+  ComplainantType,
+  getDaysToResolve,
+  isComplaintClosed,
+  wasMetOnTime,
+} from '@/lib/complaints';
+
+export type ComplaintDatum = Pick<
+  Complaint,
+  'id' | 'kind' | 'complainant_type' | 'received_on' | 'acknowledge_by' | 'acknowledged_on' | 'resolve_by' | 'resolved_on' | 'status' | 'referred_externally'
+>;
+
+interface ComplaintsSummaryProps {
+  data: ComplaintDatum[];
+}
+
+const percent = (count: number, total: number) =>
+  total === 0 ? '—' : `${Math.round((count / total) * 100)}%`;
+
+export const ComplaintsSummary = ({ data }: ComplaintsSummaryProps) => {
+  const acknowledged = data.filter(c => c.acknowledged_on);
+  const resolved = data.filter(c => c.resolved_on);
+  const resolveDays = resolved.map(getDaysToResolve);
+  const averageDays = resolveDays.length > 0
+    ? Math.round(resolveDays.reduce((sum, days) => sum + days, 0) / resolveDays.length)
+    : null;
+
+  const figures = [
+    { label: 'Received', value: data.length },
+    { label: 'Still Open', value: data.filter(c => !isComplaintClosed(c)).length },
+    {
+      label: 'Acknowledged On Time',
+      value: percent(acknowledged.filter(c => wasMetOnTime(c.acknowledged_on, c.acknowledge_by)).length, acknowledged.length),
+    },
+    {
+      label: 'Resolved On Time',
+      value: percent(resolved.filter(c => wasMetOnTime(c.resolved_on, c.resolve_by)).length, resolved.length),
+    },
+    { label: 'Average Days to Resolve', value: averageDays ?? '—' },
+    { label: 'Referred Externally', value: data.filter(c => c.referred_externally).length },
+  ];
+
+  const byType = (Object.keys(COMPLAINANT_TYPES) as ComplainantType[])
+    .map(type => ({
+      type: COMPLAINANT_TYPES[type],
+      Complaints: data.filter(c => c.complainant_type === type && c.kind === 'complaint').length,
+      Appeals: data.filter(c => c.complainant_type === type && c.kind === 'appeal').length,
+    }))
+    .filter(datum => datum.Complaints + datum.Appeals > 0);
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Complaints & Appeals</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Received in the selected period; on-time rates only count those already acknowledged or resolved
+        </p>
+
+        {data.length === 0 ? (
+          <div className="h-32 flex items-center justify-center text-gray-500">
+            No complaints or appeals received.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {figures.map((figure) => (
+                <div key={figure.label} className="rounded-lg bg-gray-50 p-4">
+                  <div className="text-xs font-medium text-gray-600">{figure.label}</div>
+                  <div className="text-2xl font-bold text-gray-900 mt-1">{figure.value}</div>
+                </div>
+              ))}
+            </div>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={byType}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="type" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="Complaints" stackId="kind" fill="#7030a0" />
+                  <Bar dataKey="Appeals" stackId="kind" fill="#6366f1" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import { COMPLIANCE_STATUSES, STATUS_COLORS } from '@/lib/compliance';
+
+export interface ComplianceTrendDatum {
+  date: string;
+  overall: number;
+  'Compliant': number;
+  'At Risk': number;
+  'Non-Compliant': number;
+}
+
+interface ComplianceTrendChartProps {
+  data: ComplianceTrendDatum[];
+}
+
+export const ComplianceTrendChart = ({ data }: ComplianceTrendChartProps) => {
+  const formatDate = (date: string) => format(parseISO(date), 'd MMM');
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Compliance Trend</h3>
+        <p className="text-sm text-gray-500 mb-4">Daily snapshots of overall compliance and status counts</p>
+
+        {data.length === 0 ? (
+          <div className="h-72 flex items-center justify-center text-gray-500">
+            No snapshots yet. Snapshots are taken automatically once a day.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 12 }} />
+                  <YAxis domain={[0, 100]} unit="%" />
+                  <Tooltip labelFormatter={formatDate} formatter={(value: number) => `${value}%`} />
+                  <Legend />
+                  <Line type="monotone" dataKey="overall" name="Overall Compliance" stroke="#7030a0" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip labelFormatter={formatDate} />
+                  <Legend />
+                  {COMPLIANCE_STATUSES.map((status) => (
+                    <Line key={status} type="monotone" dataKey={status} stroke={STATUS_COLORS[status]} strokeWidth={2} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
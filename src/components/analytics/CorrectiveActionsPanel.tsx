@@ -0,0 +1,88 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  CORRECTIVE_ACTION_STATUSES,
+  CorrectiveActionStatus,
+  getMemberName,
+  isCorrectiveActionOpen,
+  isCorrectiveActionOverdue,
+} from '@/lib/correctiveActions';
+
+export interface CorrectiveActionDatum {
+  id: string;
+  record_id: string;
+  planned_action: string;
+  status: CorrectiveActionStatus;
+  due_date: string;
+  owner: { full_name: string | null; email: string } | null;
+  compliance_records: { compliance_item: string };
+}
+
+interface CorrectiveActionsPanelProps {
+  data: CorrectiveActionDatum[];
+}
+
+export const CorrectiveActionsPanel = ({ data }: CorrectiveActionsPanelProps) => {
+  const open = data
+    .filter(isCorrectiveActionOpen)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+  const overdueCount = open.filter(action => isCorrectiveActionOverdue(action)).length;
+  const closedCount = data.length - open.length;
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Open Corrective Actions</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {open.length} open · {overdueCount} overdue · {closedCount} closed
+        </p>
+
+        {open.length === 0 ? (
+          <div className="h-32 flex items-center justify-center text-gray-500">
+            No open corrective actions.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Planned Action</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Compliance Record</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Owner</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Due Date</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {open.map((action) => {
+                  const overdue = isCorrectiveActionOverdue(action);
+                  return (
+                    <tr key={action.id} className="border-b hover:bg-gray-50">
+                      <td className="py-3 px-4 table-entry">{action.planned_action}</td>
+                      <td className="py-3 px-4 table-entry">
+                        <Link to={`/?record=${action.record_id}`} className="text-gray-700 hover:text-[#7030a0] hover:underline">
+                          {action.compliance_records.compliance_item}
+                        </Link>
+                      </td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{getMemberName(action.owner)}</td>
+                      <td className={`py-3 px-4 table-entry ${overdue ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                        {format(parseISO(action.due_date), 'dd/MM/yyyy')}
+                      </td>
+                      <td className="py-3 px-4 table-entry">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${overdue ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                          {overdue ? 'Overdue' : CORRECTIVE_ACTION_STATUSES[action.status]}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { PieChart as RechartsPieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+
+interface EvidenceCoverageChartProps {
+  withEvidence: number;
+  withoutEvidence: number;
+}
+
+export const EvidenceCoverageChart = ({ withEvidence, withoutEvidence }: EvidenceCoverageChartProps) => {
+  const evidenceData = [
+    { name: 'With Evidence', value: withEvidence, color: '#7030a0' },
+    { name: 'No Evidence', value: withoutEvidence, color: '#94a3b8' }
+  ];
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Evidence Coverage</h3>
+        <p className="text-sm text-gray-500 mb-4">Records with and without uploaded evidence</p>
+
+        {withEvidence + withoutEvidence === 0 ? (
+          <div className="h-64 flex items-center justify-center text-gray-500">
+            No compliance records match the current filters.
+          </div>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <RechartsPieChart>
+                <Pie
+                  data={evidenceData}
+                  cx="50%"
+                  cy="50%"
+                  innerRadius={40}
+                  outerRadius={80}
+                  paddingAngle={5}
+                  dataKey="value"
+                >
+                  {evidenceData.map((entry, index) => (
+                    <Cell key={`cell-${index}`} fill={entry.color} />
+                  ))}
+                </Pie>
+                <Tooltip />
+                <Legend />
+              </RechartsPieChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from 'recharts';
+
+export interface PersonOverdueDatum {
+  person: string;
+  overdue: number;
+}
+
+interface OverdueByPersonChartProps {
+  data: PersonOverdueDatum[];
+}
+
+export const OverdueByPersonChart = ({ data }: OverdueByPersonChartProps) => {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Overdue Reviews by Person</h3>
+        <p className="text-sm text-gray-500 mb-4">Records past their next review date</p>
+
+        {data.length === 0 ? (
+          <div className="h-64 flex items-center justify-center text-gray-500">
+            No overdue reviews.
+          </div>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data} layout="vertical" margin={{ left: 24 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                <XAxis type="number" allowDecimals={false} />
+                <YAxis type="category" dataKey="person" width={120} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Bar dataKey="overdue" name="Overdue" fill="#ef4444" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
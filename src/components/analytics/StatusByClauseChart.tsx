@@ -0,0 +1,47 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import { COMPLIANCE_STATUSES, STATUS_COLORS } from '@/lib/compliance';
+
+export interface ClauseStatusDatum {
+  clause: string;
+  'Compliant': number;
+  'At Risk': number;
+  'Non-Compliant': number;
+}
+
+interface StatusByClauseChartProps {
+  data: ClauseStatusDatum[];
+}
+
+export const StatusByClauseChart = ({ data }: StatusByClauseChartProps) => {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">Status by Standard Clause</h3>
+        <p className="text-sm text-gray-500 mb-4">Compliance status breakdown for each clause</p>
+
+        {data.length === 0 ? (
+          <div className="h-72 flex items-center justify-center text-gray-500">
+            No compliance records match the current filters.
+          </div>
+        ) : (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="clause" tick={{ fontSize: 12 }} />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                {COMPLIANCE_STATUSES.map((status) => (
+                  <Bar key={status} dataKey={status} stackId="status" fill={STATUS_COLORS[status]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
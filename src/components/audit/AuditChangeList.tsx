@@ -0,0 +1,33 @@
+import React from 'react';
+import { AuditEntry, getAuditChanges } from '@/lib/audit';
+
+interface AuditChangeListProps {
+  entry: AuditEntry;
+}
+
+export const AuditChangeList = ({ entry }: AuditChangeListProps) => {
+  const changes = getAuditChanges(entry);
+
+  if (changes.length === 0) {
+    return <div className="text-xs text-gray-500">No field changes recorded.</div>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {changes.map((change) => (
+        <div key={change.field} className="text-xs text-gray-600">
+          <span className="font-medium text-gray-700">{change.label}:</span>{' '}
+          {entry.action === 'updated' ? (
+            <>
+              <span className="line-through text-red-600">{change.before}</span>
+              {' → '}
+              <span className="text-green-700">{change.after}</span>
+            </>
+          ) : (
+            <span>{entry.action === 'deleted' || entry.action === 'purged' ? change.before : change.after}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState, useEffect } from 'react';
+import { History } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { AuditEntry, getAuditActorName } from '@/lib/audit';
+import { AuditChangeList } from './AuditChangeList';
+
+interface RecordHistoryProps {
+  tableName: string;
+  recordId: string;
+}
+
+export const RecordHistory = ({ tableName, recordId }: RecordHistoryProps) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('audit_log')
+          .select('*')
+          .eq('table_name', tableName)
+          .eq('record_id', recordId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setEntries(data || []);
+      } catch (error) {
+        console.error('Error fetching record history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [tableName, recordId]);
+
+  if (loading) {
+    return <div className="py-6 text-center text-sm text-gray-500">Loading history...</div>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="py-6 flex flex-col items-center text-sm text-gray-500">
+        <History className="h-8 w-8 text-gray-300 mb-2" />
+        No changes have been recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="space-y-4">
+      {entries.map((entry) => (
+        <li key={entry.id} className="border-l-2 border-[#7030a0] pl-3">
+          <div className="text-sm">
+            <span className="font-medium text-gray-900">{getAuditActorName(entry)}</span>{' '}
+            <span className="text-gray-600">{entry.action} this record</span>
+          </div>
+          <div className="text-xs text-gray-500 mb-1">{new Date(entry.created_at).toLocaleString()}</div>
+          <AuditChangeList entry={entry} />
+        </li>
+      ))}
+    </ol>
+  );
+};
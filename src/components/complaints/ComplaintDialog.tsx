@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import {
+  COMPLAINANT_TYPES,
+  COMPLAINT_KINDS,
+  COMPLAINT_STATUSES,
+  ComplainantType,
+  Complaint,
+  ComplaintKind,
+  ComplaintStatus,
+  getDefaultDeadlines,
+} from '@/lib/complaints';
+
+interface ComplaintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  // The entry being edited, or null to record a new one
+  complaint: Complaint | null;
+}
+
+interface DateFieldProps {
+  label: string;
+  value: Date | undefined;
+  onChange: (date: Date | undefined) => void;
+  clearable?: boolean;
+}
+
+const DateField = ({ label, value, onChange, clearable }: DateFieldProps) => (
+  <div>
+    <Label>{label}</Label>
+    <div className="flex items-center gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant={"outline"}
+            className={cn(
+              "w-full justify-start text-left font-normal",
+              !value && "text-muted-foreground"
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : <span>{clearable ? 'Not yet' : 'Pick a date'}</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {clearable && value && (
+        <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" title="Clear" onClick={() => onChange(undefined)}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+const toDate = (value: string | null | undefined) => (value ? parseISO(value) : undefined);
+const toDateValue = (date: Date | undefined) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+export const ComplaintDialog = ({ open, onOpenChange, onSuccess, complaint }: ComplaintDialogProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const { teamMembers } = useTeamMembers();
+  const [kind, setKind] = useState<ComplaintKind>('complaint');
+  const [complainantType, setComplainantType] = useState<ComplainantType | ''>('');
+  const [complainantName, setComplainantName] = useState('');
+  const [summary, setSummary] = useState('');
+  const [receivedOn, setReceivedOn] = useState<Date>();
+  const [acknowledgeBy, setAcknowledgeBy] = useState<Date>();
+  const [acknowledgedOn, setAcknowledgedOn] = useState<Date>();
+  const [resolveBy, setResolveBy] = useState<Date>();
+  const [resolvedOn, setResolvedOn] = useState<Date>();
+  const [handlerId, setHandlerId] = useState('');
+  const [status, setStatus] = useState<ComplaintStatus>('open');
+  const [investigationNotes, setInvestigationNotes] = useState('');
+  const [outcome, setOutcome] = useState('');
+  const [referredExternally, setReferredExternally] = useState(false);
+  const [referralBody, setReferralBody] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const received = complaint ? parseISO(complaint.received_on) : new Date();
+    const defaults = getDefaultDeadlines(received);
+    setKind(complaint?.kind || 'complaint');
+    setComplainantType(complaint?.complainant_type || '');
+    setComplainantName(complaint?.complainant_name || '');
+    setSummary(complaint?.summary || '');
+    setReceivedOn(received);
+    setAcknowledgeBy(toDate(complaint?.acknowledge_by) || defaults.acknowledgeBy);
+    setAcknowledgedOn(toDate(complaint?.acknowledged_on));
+    setResolveBy(toDate(complaint?.resolve_by) || defaults.resolveBy);
+    setResolvedOn(toDate(complaint?.resolved_on));
+    setHandlerId(complaint?.handler_id || organisationMember?.id || '');
+    setStatus(complaint?.status || 'open');
+    setInvestigationNotes(complaint?.investigation_notes || '');
+    setOutcome(complaint?.outcome || '');
+    setReferredExternally(complaint?.referred_externally || false);
+    setReferralBody(complaint?.referral_body || '');
+  }, [open, complaint]);
+
+  // Moving the received date on a new entry moves its default deadlines with it
+  const handleReceivedOnChange = (date: Date | undefined) => {
+    setReceivedOn(date);
+    if (date && !complaint) {
+      const defaults = getDefaultDeadlines(date);
+      setAcknowledgeBy(defaults.acknowledgeBy);
+      setResolveBy(defaults.resolveBy);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organisationMember?.organisation_id || !complainantType || !receivedOn || !acknowledgeBy || !resolveBy) return;
+
+    setLoading(true);
+    try {
+      if (acknowledgeBy < receivedOn || resolveBy < receivedOn) {
+        throw new Error('Deadlines cannot be before the date the complaint was received');
+      }
+
+      // Marking it resolved without a date means it was resolved today
+      const finalResolvedOn = status === 'resolved' && !resolvedOn ? new Date() : resolvedOn;
+
+      const values = {
+        kind,
+        complainant_type: complainantType,
+        complainant_name: complainantName.trim() || null,
+        summary: summary.trim(),
+        received_on: toDateValue(receivedOn),
+        acknowledge_by: toDateValue(acknowledgeBy),
+        acknowledged_on: toDateValue(acknowledgedOn),
+        resolve_by: toDateValue(resolveBy),
+        resolved_on: toDateValue(finalResolvedOn),
+        handler_id: handlerId || null,
+        status: finalResolvedOn && status !== 'withdrawn' ? 'resolved' : status,
+        investigation_notes: investigationNotes.trim() || null,
+        outcome: outcome.trim() || null,
+        referred_externally: referredExternally,
+        referral_body: referredExternally ? referralBody.trim() || null : null,
+      };
+
+      const { error } = complaint
+        ? await supabase
+          .from('complaints')
+          .update(values)
+          .eq('id', complaint.id)
+        : await supabase
+          .from('complaints')
+          .insert({
+            ...values,
+            organisation_id: organisationMember.organisation_id,
+            created_by: organisationMember.id,
+          });
+
+      if (error) throw new Error(`Database error: ${error.message}`);
+
+      toast({
+        title: "Success",
+        description: complaint ? `${COMPLAINT_KINDS[kind]} updated` : `${COMPLAINT_KINDS[kind]} recorded`,
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving complaint:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save complaint",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{complaint ? `Edit ${COMPLAINT_KINDS[complaint.kind]}` : 'Record Complaint or Appeal'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as ComplaintKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COMPLAINT_KINDS) as ComplaintKind[]).map((key) => (
+                    <SelectItem key={key} value={key}>{COMPLAINT_KINDS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Complainant Type</Label>
+              <Select value={complainantType} onValueChange={(value) => setComplainantType(value as ComplainantType)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select complainant type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COMPLAINANT_TYPES) as ComplainantType[]).map((key) => (
+                    <SelectItem key={key} value={key}>{COMPLAINANT_TYPES[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="complainantName">Complainant Name</Label>
+            <Input
+              id="complainantName"
+              placeholder="Optional"
+              value={complainantName}
+              onChange={(e) => setComplainantName(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="complaintSummary">Summary</Label>
+            <Textarea
+              id="complaintSummary"
+              placeholder="What is the complaint or appeal about?"
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={2}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <DateField label="Date Received" value={receivedOn} onChange={handleReceivedOnChange} />
+            <div>
+              <Label>Handled By</Label>
+              <Select value={handlerId} onValueChange={setHandlerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select handler" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teamMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <DateField label="Acknowledge By" value={acknowledgeBy} onChange={setAcknowledgeBy} />
+            <DateField label="Acknowledged On" value={acknowledgedOn} onChange={setAcknowledgedOn} clearable />
+            <DateField label="Resolve By" value={resolveBy} onChange={setResolveBy} />
+            <DateField label="Resolved On" value={resolvedOn} onChange={setResolvedOn} clearable />
+          </div>
+
+          <div>
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as ComplaintStatus)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(COMPLAINT_STATUSES) as ComplaintStatus[]).map((key) => (
+                  <SelectItem key={key} value={key}>{COMPLAINT_STATUSES[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="investigationNotes">Investigation Notes</Label>
+            <Textarea
+              id="investigationNotes"
+              placeholder="Who was spoken to, what was reviewed and what was found"
+              value={investigationNotes}
+              onChange={(e) => setInvestigationNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="complaintOutcome">Outcome</Label>
+            <Textarea
+              id="complaintOutcome"
+              placeholder="The decision and what was communicated to the complainant"
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="referredExternally"
+                checked={referredExternally}
+                onCheckedChange={(checked) => setReferredExternally(checked === true)}
+              />
+              <Label htmlFor="referredExternally" className="font-normal">
+                Referred to an external body
+              </Label>
+            </div>
+            {referredExternally && (
+              <Input
+                placeholder="e.g. ASQA, National Training Complaints Hotline, Ombudsman"
+                value={referralBody}
+                onChange={(e) => setReferralBody(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !complainantType || !summary.trim() || !receivedOn || !acknowledgeBy || !resolveBy}
+            >
+              {loading ? 'Saving...' : complaint ? 'Save Changes' : 'Record'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -14,27 +14,27 @@ import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { Standard, formatRecordClauses } from '@/lib/standards';
 import { FileUpload } from './FileUpload';
+import { StandardMultiSelect } from './StandardMultiSelect';
 import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { notifyComplianceRecordChange } from '@/lib/notifications';
+import { getReviewStatus } from '@/lib/compliance';
+import { uploadEvidenceFile } from '@/lib/evidence';
 
 interface AddComplianceDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
+  defaultStandardIds?: string[];
 }
 
-interface Standard {
-  id: string;
-  standard_clause: string;
-  standard_description: string;
-}
-
-export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddComplianceDialogProps) => {
+export const AddComplianceDialog = ({ open, onOpenChange, onSuccess, defaultStandardIds }: AddComplianceDialogProps) => {
   const { organisationMember } = useAuth();
   const { toast } = useToast();
   const { teamMembers } = useTeamMembers();
   const [complianceItem, setComplianceItem] = useState('');
-  const [standardClause, setStandardClause] = useState('');
+  const [standardIds, setStandardIds] = useState<string[]>([]);
   const [complianceStatus, setComplianceStatus] = useState('');
   const [responsiblePerson, setResponsiblePerson] = useState('');
   const [nextReviewDate, setNextReviewDate] = useState<Date>();
@@ -54,6 +54,13 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
     }
   }, [open, organisationMember?.organisation_id]);
 
+  // Opened from a gap in the coverage matrix, the record starts on that clause
+  useEffect(() => {
+    if (open && defaultStandardIds) {
+      setStandardIds(defaultStandardIds);
+    }
+  }, [open, defaultStandardIds]);
+
   const fetchStandards = async () => {
     if (!organisationMember?.organisation_id) return;
 
@@ -62,8 +69,7 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
       const { data, error } = await supabase
         .from('standards')
         .select('*')
-        .eq('organisation_id', organisationMember.organisation_id)
-        .order('standard_clause', { ascending: true });
+        .eq('organisation_id', organisationMember.organisation_id);
 
       if (error) throw error;
       setStandards(data || []);
@@ -79,31 +85,6 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
     }
   };
 
-  const createStorageBucket = async () => {
-    try {
-      // Check if bucket exists
-      const { data: buckets } = await supabase.storage.listBuckets();
-      const bucketExists = buckets?.some(bucket => bucket.name === 'compliance-evidence');
-      
-      if (!bucketExists) {
-        console.log('Creating compliance-evidence bucket...');
-        const { error } = await supabase.storage.createBucket('compliance-evidence', {
-          public: true,
-          allowedMimeTypes: ['image/*', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
-        });
-        
-        if (error) {
-          console.error('Error creating bucket:', error);
-          throw error;
-        }
-        console.log('Bucket created successfully');
-      }
-    } catch (error) {
-      console.error('Error with storage bucket:', error);
-      // Don't throw here, continue with upload attempt
-    }
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!organisationMember?.organisation_id) {
@@ -117,41 +98,6 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
 
     setLoading(true);
     try {
-      // Ensure storage bucket exists
-      await createStorageBucket();
-
-      let fileNames: string[] = [];
-      let filePaths: string[] = [];
-
-      // Upload files if any
-      if (files.length > 0) {
-        console.log('Uploading files:', files.length);
-        
-        for (const file of files) {
-          const fileExt = file.name.split('.').pop();
-          const fileName = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-          const filePath = `${organisationMember.organisation_id}/${fileName}`;
-
-          console.log('Uploading file to path:', filePath);
-
-          const { data, error: uploadError } = await supabase.storage
-            .from('compliance-evidence')
-            .upload(filePath, file, {
-              cacheControl: '3600',
-              upsert: false
-            });
-
-          if (uploadError) {
-            console.error('Upload error:', uploadError);
-            throw new Error(`Failed to upload file ${file.name}: ${uploadError.message}`);
-          }
-
-          console.log('Upload successful:', data);
-          fileNames.push(file.name);
-          filePaths.push(filePath);
-        }
-      }
-
       // For members, use their name; for admins, use selected person
       const finalResponsiblePerson = isAdmin ? responsiblePerson : memberName;
 
@@ -159,37 +105,70 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
         throw new Error('Responsible person is required');
       }
 
-      console.log('Inserting compliance record with files:', {
-        file_names: fileNames,
-        file_paths: filePaths
-      });
-
-      const { data, error } = await supabase
-        .from('compliance_records')
-        .insert({
+      // The record and its standards are saved together, so neither is left half-created
+      const { data: recordId, error } = await supabase.rpc('save_compliance_record', {
+        p_record_id: null,
+        p_record: {
           compliance_item: complianceItem,
-          standard_clause: standardClause,
           compliance_status: complianceStatus,
           responsible_person: finalResponsiblePerson,
           next_review_date: nextReviewDate?.toISOString().split('T')[0] || null,
+          review_status: getReviewStatus(nextReviewDate ? format(nextReviewDate, 'yyyy-MM-dd') : null),
           notes: notes || null,
-          organisation_id: organisationMember.organisation_id,
-          file_name: fileNames.length > 0 ? fileNames.join(', ') : null,
-          file_path: filePaths.length > 0 ? filePaths.join(', ') : null,
-        })
-        .select();
+        },
+        p_standard_ids: standardIds,
+      });
 
       if (error) {
         console.error('Database error:', error);
         throw new Error(`Database error: ${error.message}`);
       }
 
-      console.log('Record inserted successfully:', data);
+      console.log('Record inserted successfully:', recordId);
 
-      toast({
-        title: "Success",
-        description: `Compliance record added successfully${files.length > 0 ? ` with ${files.length} file(s)` : ''}`,
-      });
+      // Evidence rows reference the record, so files are uploaded once it exists.
+      // A failed upload keeps the record; the file can be added again from the edit dialog.
+      const failedUploads: string[] = [];
+      if (files.length > 0) {
+        console.log('Uploading files:', files.length);
+        for (const file of files) {
+          try {
+            await uploadEvidenceFile(file, recordId, organisationMember.organisation_id, organisationMember.id);
+          } catch (uploadError) {
+            console.error('Upload error:', uploadError);
+            failedUploads.push(file.name);
+          }
+        }
+      }
+
+      await notifyComplianceRecordChange(
+        organisationMember.organisation_id,
+        'created',
+        {
+          id: recordId,
+          compliance_item: complianceItem,
+          clauses: formatRecordClauses({
+            compliance_record_standards: standards
+              .filter(standard => standardIds.includes(standard.id))
+              .map(standard => ({ standards: standard })),
+          }),
+        },
+        organisationMember.id,
+        memberName
+      );
+
+      if (failedUploads.length > 0) {
+        toast({
+          title: "Some files were not uploaded",
+          description: `The record was added, but ${failedUploads.join(', ')} could not be uploaded. Add them again from the edit dialog.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: `Compliance record added successfully${files.length > 0 ? ` with ${files.length} file(s)` : ''}`,
+        });
+      }
 
       onSuccess();
       onOpenChange(false);
@@ -208,7 +187,7 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
 
   const resetForm = () => {
     setComplianceItem('');
-    setStandardClause('');
+    setStandardIds([]);
     setComplianceStatus('');
     setResponsiblePerson('');
     setNextReviewDate(undefined);
@@ -246,22 +225,14 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
           </div>
           
           <div>
-            <Label htmlFor="standardClause">Standard Clause</Label>
-            <Select value={standardClause} onValueChange={setStandardClause}>
-              <SelectTrigger>
-                <SelectValue placeholder={standardsLoading ? "Loading standards..." : "Select standard clause"} />
-              </SelectTrigger>
-              <SelectContent>
-                {standards.map((standard) => (
-                  <SelectItem key={standard.id} value={standard.standard_clause}>
-                    {standard.standard_clause} - {standard.standard_description}
-                  </SelectItem>
-                ))}
-                {standards.length === 0 && !standardsLoading && (
-                  <SelectItem value="" disabled>No standards available</SelectItem>
-                )}
-              </SelectContent>
-            </Select>
+            <Label htmlFor="standardClauses">Standard Clauses</Label>
+            <StandardMultiSelect
+              id="standardClauses"
+              standards={standards}
+              value={standardIds}
+              onChange={setStandardIds}
+              loading={standardsLoading}
+            />
           </div>
           
           <div>
@@ -353,7 +324,7 @@ export const AddComplianceDialog = ({ open, onOpenChange, onSuccess }: AddCompli
             </Button>
             <Button
               type="submit"
-              disabled={loading || !complianceItem || !standardClause || !complianceStatus || (isAdmin && !responsiblePerson)}
+              disabled={loading || !complianceItem || standardIds.length === 0 || !complianceStatus || (isAdmin && !responsiblePerson)}
             >
               {loading ? 'Adding...' : 'Add Record'}
             </Button>
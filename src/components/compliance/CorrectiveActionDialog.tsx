@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { CorrectiveAction } from '@/lib/correctiveActions';
+
+interface CorrectiveActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  recordId: string;
+  // The action being edited, or null to raise a new one
+  action: CorrectiveAction | null;
+}
+
+export const CorrectiveActionDialog = ({ open, onOpenChange, onSuccess, recordId, action }: CorrectiveActionDialogProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const { teamMembers } = useTeamMembers();
+  const [rootCause, setRootCause] = useState('');
+  const [plannedAction, setPlannedAction] = useState('');
+  const [ownerId, setOwnerId] = useState('');
+  const [dueDate, setDueDate] = useState<Date>();
+  const [verification, setVerification] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRootCause(action?.root_cause || '');
+    setPlannedAction(action?.planned_action || '');
+    setOwnerId(action?.owner_id || organisationMember?.id || '');
+    setDueDate(action ? parseISO(action.due_date) : undefined);
+    setVerification(action?.verification || '');
+  }, [open, action]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organisationMember?.organisation_id || !dueDate) return;
+
+    setLoading(true);
+    try {
+      const values = {
+        root_cause: rootCause.trim(),
+        planned_action: plannedAction.trim(),
+        owner_id: ownerId || null,
+        due_date: format(dueDate, 'yyyy-MM-dd'),
+        verification: verification.trim() || null,
+      };
+
+      const { error } = action
+        ? await supabase
+          .from('corrective_actions')
+          .update(values)
+          .eq('id', action.id)
+        : await supabase
+          .from('corrective_actions')
+          .insert({
+            ...values,
+            organisation_id: organisationMember.organisation_id,
+            record_id: recordId,
+            created_by: organisationMember.id,
+          });
+
+      if (error) throw new Error(`Database error: ${error.message}`);
+
+      toast({
+        title: "Success",
+        description: action ? "Corrective action updated" : "Corrective action raised",
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving corrective action:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save corrective action",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{action ? 'Edit Corrective Action' : 'Raise Corrective Action'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="rootCause">Root Cause</Label>
+            <Textarea
+              id="rootCause"
+              placeholder="Why did the non-compliance happen?"
+              value={rootCause}
+              onChange={(e) => setRootCause(e.target.value)}
+              rows={3}
+              required
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="plannedAction">Planned Action</Label>
+            <Textarea
+              id="plannedAction"
+              placeholder="What will be done to fix it and stop it recurring?"
+              value={plannedAction}
+              onChange={(e) => setPlannedAction(e.target.value)}
+              rows={3}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Owner</Label>
+              <Select value={ownerId} onValueChange={setOwnerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select owner" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teamMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Due Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant={"outline"}
+                    className={cn(
+                      "w-full justify-start text-left font-normal",
+                      !dueDate && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {dueDate ? format(dueDate, "PPP") : <span>Pick a date</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={dueDate}
+                    onSelect={setDueDate}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="verification">Verification Step</Label>
+            <Textarea
+              id="verification"
+              placeholder="How will you confirm the action worked? Required before it can be closed."
+              value={verification}
+              onChange={(e) => setVerification(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !rootCause.trim() || !plannedAction.trim() || !ownerId || !dueDate}
+            >
+              {loading ? 'Saving...' : action ? 'Save Changes' : 'Raise Action'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
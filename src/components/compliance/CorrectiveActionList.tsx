@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Edit, Plus, RotateCcw, Trash2, CheckCircle2, PlayCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CorrectiveActionDialog } from './CorrectiveActionDialog';
+import {
+  CORRECTIVE_ACTION_SELECT,
+  CORRECTIVE_ACTION_STATUSES,
+  CorrectiveAction,
+  CorrectiveActionStatus,
+  getMemberName,
+  isCorrectiveActionOpen,
+  isCorrectiveActionOverdue,
+} from '@/lib/correctiveActions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface CorrectiveActionListProps {
+  recordId: string;
+  onChange?: () => void;
+  // Called when closing an action leaves none open on the record
+  onAllClosed?: () => void;
+}
+
+// Corrective actions raised against an existing record. Like evidence, each change
+// is saved as soon as the user makes it, independently of the record's own form.
+export const CorrectiveActionList = ({ recordId, onChange, onAllClosed }: CorrectiveActionListProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [actions, setActions] = useState<CorrectiveAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAction, setEditingAction] = useState<CorrectiveAction | null>(null);
+  const [closingId, setClosingId] = useState<string | null>(null);
+  const [closureNotes, setClosureNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchActions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('corrective_actions')
+        .select(CORRECTIVE_ACTION_SELECT)
+        .eq('record_id', recordId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setActions((data || []) as CorrectiveAction[]);
+      return (data || []) as CorrectiveAction[];
+    } catch (error) {
+      console.error('Error fetching corrective actions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch corrective actions",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchActions();
+  }, [recordId]);
+
+  const handleSaved = () => {
+    fetchActions();
+    onChange?.();
+  };
+
+  const updateStatus = async (action: CorrectiveAction, status: CorrectiveActionStatus, notes?: string) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('corrective_actions')
+        .update({ status, closure_notes: notes?.trim() || null })
+        .eq('id', action.id);
+
+      if (error) throw new Error(error.message);
+
+      setClosingId(null);
+      setClosureNotes('');
+      const refreshed = await fetchActions();
+      onChange?.();
+
+      if (status === 'closed' && refreshed && !refreshed.some(isCorrectiveActionOpen)) {
+        onAllClosed?.();
+      }
+    } catch (error) {
+      console.error('Error updating corrective action:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update corrective action",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (action: CorrectiveAction) => {
+    try {
+      const { error } = await supabase
+        .from('corrective_actions')
+        .delete()
+        .eq('id', action.id);
+
+      if (error) throw error;
+      setActions(prev => prev.filter(a => a.id !== action.id));
+      onChange?.();
+    } catch (error) {
+      console.error('Error deleting corrective action:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete corrective action",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (action: CorrectiveAction) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    if (isCorrectiveActionOverdue(action)) return `${baseClasses} bg-red-100 text-red-800`;
+    switch (action.status) {
+      case 'closed':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      case 'in_progress':
+        return `${baseClasses} bg-blue-100 text-blue-800`;
+      default:
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+    }
+  };
+
+  const openDialog = (action: CorrectiveAction | null) => {
+    setEditingAction(action);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Track how this record will be brought back into compliance. Closing an action needs a sign-off.
+        </p>
+        <Button type="button" size="sm" onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Raise Action
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading corrective actions...</div>
+      ) : actions.length === 0 ? (
+        <div className="text-sm text-gray-500 border rounded-md p-4 text-center">
+          No corrective actions have been raised for this record.
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {actions.map((action) => (
+            <li key={action.id} className="border rounded-md p-4 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="font-medium text-gray-900">{action.planned_action}</div>
+                <span className={`${getStatusBadge(action)} shrink-0`}>
+                  {isCorrectiveActionOverdue(action) ? 'Overdue' : CORRECTIVE_ACTION_STATUSES[action.status]}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500">
+                Owner: {getMemberName(action.owner)} · Due {format(parseISO(action.due_date), 'dd/MM/yyyy')}
+              </div>
+              <div className="text-sm">
+                <span className="font-medium text-gray-700">Root cause: </span>
+                <span className="text-gray-600">{action.root_cause}</span>
+              </div>
+              <div className="text-sm">
+                <span className="font-medium text-gray-700">Verification: </span>
+                <span className="text-gray-600">{action.verification || 'Not yet recorded'}</span>
+              </div>
+
+              {action.status === 'closed' && (
+                <div className="text-sm bg-green-50 rounded-md p-2">
+                  <div className="text-xs text-green-800">
+                    Signed off by {getMemberName(action.closer)}
+                    {action.closed_at && ` on ${format(parseISO(action.closed_at), 'dd/MM/yyyy')}`}
+                  </div>
+                  {action.closure_notes && <div className="text-gray-700 mt-1">{action.closure_notes}</div>}
+                </div>
+              )}
+
+              {closingId === action.id && (
+                <div className="space-y-2 bg-gray-50 rounded-md p-3">
+                  <Label htmlFor={`closure-${action.id}`}>Verification Outcome</Label>
+                  <Textarea
+                    id={`closure-${action.id}`}
+                    placeholder="What did the verification find?"
+                    value={closureNotes}
+                    onChange={(e) => setClosureNotes(e.target.value)}
+                    rows={2}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="outline" size="sm" onClick={() => setClosingId(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      disabled={saving || !closureNotes.trim()}
+                      onClick={() => updateStatus(action, 'closed', closureNotes)}
+                    >
+                      Sign Off & Close
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-end space-x-1">
+                {action.status === 'open' && (
+                  <Button type="button" variant="ghost" size="sm" disabled={saving} onClick={() => updateStatus(action, 'in_progress')}>
+                    <PlayCircle className="h-4 w-4 mr-1" />
+                    Start
+                  </Button>
+                )}
+                {isCorrectiveActionOpen(action) && closingId !== action.id && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={!action.verification}
+                    title={action.verification ? 'Sign off and close' : 'Record the verification step before closing'}
+                    onClick={() => {
+                      setClosingId(action.id);
+                      setClosureNotes('');
+                    }}
+                  >
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Close
+                  </Button>
+                )}
+                {action.status === 'closed' && (
+                  <Button type="button" variant="ghost" size="sm" disabled={saving} onClick={() => updateStatus(action, 'open')}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Reopen
+                  </Button>
+                )}
+                {isCorrectiveActionOpen(action) && (
+                  <Button type="button" variant="ghost" size="sm" title="Edit" onClick={() => openDialog(action)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
+                {isAdmin && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button type="button" variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this corrective action?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The action and its sign-off will be permanently removed. The record's history keeps a note that it existed.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(action)}>
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CorrectiveActionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSuccess={handleSaved}
+        recordId={recordId}
+        action={editingAction}
+      />
+    </div>
+  );
+};
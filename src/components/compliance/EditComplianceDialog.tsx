@@ -7,6 +7,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RecordHistory } from '@/components/audit/RecordHistory';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { CalendarIcon, X } from 'lucide-react';
@@ -14,13 +16,28 @@ import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { FileUpload } from './FileUpload';
+import { EvidenceFileList } from './EvidenceFileList';
 import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { notifyComplianceRecordChange } from '@/lib/notifications';
+import { getReviewStatus } from '@/lib/compliance';
+import { RecordStandardLinks, Standard, formatRecordClauses, getRecordStandards } from '@/lib/standards';
+import { StandardMultiSelect } from './StandardMultiSelect';
+import { CorrectiveActionList } from './CorrectiveActionList';
+import { needsCorrectiveAction } from '@/lib/correctiveActions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
-interface ComplianceRecord {
+interface ComplianceRecord extends RecordStandardLinks {
   id: string;
   compliance_item: string;
-  standard_clause: string;
   compliance_status: string;
   responsible_person: string;
   next_review_date: string;
@@ -32,20 +49,24 @@ interface EditComplianceDialogProps {
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
   record: ComplianceRecord | null;
+  initialTab?: 'details' | 'actions' | 'history';
 }
 
-export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record }: EditComplianceDialogProps) => {
+export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record, initialTab = 'details' }: EditComplianceDialogProps) => {
   const { organisationMember } = useAuth();
   const { toast } = useToast();
   const { teamMembers } = useTeamMembers();
   const [complianceItem, setComplianceItem] = useState('');
-  const [standardClause, setStandardClause] = useState('');
+  const [standardIds, setStandardIds] = useState<string[]>([]);
   const [complianceStatus, setComplianceStatus] = useState('');
   const [responsiblePerson, setResponsiblePerson] = useState('');
   const [nextReviewDate, setNextReviewDate] = useState<Date>();
   const [notes, setNotes] = useState('');
-  const [files, setFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
+  const [standards, setStandards] = useState<Standard[]>([]);
+  const [standardsLoading, setStandardsLoading] = useState(true);
+  const [tab, setTab] = useState<string>(initialTab);
+  const [isCompliantPromptOpen, setIsCompliantPromptOpen] = useState(false);
 
   const isAdmin = organisationMember?.role === 'admin';
   const memberName = organisationMember?.full_name || organisationMember?.email || '';
@@ -53,7 +74,7 @@ export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record }:
   useEffect(() => {
     if (record) {
       setComplianceItem(record.compliance_item);
-      setStandardClause(record.standard_clause);
+      setStandardIds(getRecordStandards(record).map(standard => standard.id));
       setComplianceStatus(record.compliance_status);
       setResponsiblePerson(record.responsible_person);
       setNextReviewDate(record.next_review_date ? new Date(record.next_review_date) : undefined);
@@ -61,6 +82,90 @@ export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record }:
     }
   }, [record]);
 
+  useEffect(() => {
+    if (open) setTab(initialTab);
+  }, [open, initialTab]);
+
+  // Fetch standards when dialog opens
+  useEffect(() => {
+    if (open && organisationMember?.organisation_id) {
+      fetchStandards();
+    }
+  }, [open, organisationMember?.organisation_id]);
+
+  const fetchStandards = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      setStandardsLoading(true);
+      const { data, error } = await supabase
+        .from('standards')
+        .select('*')
+        .eq('organisation_id', organisationMember.organisation_id);
+
+      if (error) throw error;
+      setStandards(data || []);
+    } catch (error) {
+      console.error('Error fetching standards:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch standards",
+        variant: "destructive",
+      });
+    } finally {
+      setStandardsLoading(false);
+    }
+  };
+
+  const getClauses = () => formatRecordClauses({
+    compliance_record_standards: standards
+      .filter(standard => standardIds.includes(standard.id))
+      .map(standard => ({ standards: standard })),
+  });
+
+  const handleAllActionsClosed = () => {
+    if (complianceStatus !== 'Compliant') {
+      setIsCompliantPromptOpen(true);
+    }
+  };
+
+  // Offered once every corrective action on the record has been signed off
+  const handleMarkCompliant = async () => {
+    if (!organisationMember?.organisation_id || !record) return;
+
+    try {
+      const { error } = await supabase
+        .from('compliance_records')
+        .update({ compliance_status: 'Compliant' })
+        .eq('id', record.id);
+
+      if (error) throw new Error(`Database error: ${error.message}`);
+
+      setComplianceStatus('Compliant');
+      await notifyComplianceRecordChange(
+        organisationMember.organisation_id,
+        'updated',
+        { id: record.id, compliance_item: complianceItem, clauses: getClauses() },
+        organisationMember.id,
+        memberName
+      );
+
+      toast({
+        title: "Success",
+        description: "Compliance record marked as Compliant",
+      });
+
+      onSuccess();
+    } catch (error) {
+      console.error('Error updating compliance status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update compliance status",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!organisationMember?.organisation_id || !record) {
@@ -74,32 +179,6 @@ export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record }:
 
     setLoading(true);
     try {
-      let fileNames: string[] = [];
-      let filePaths: string[] = [];
-
-      // Upload files if any
-      if (files.length > 0) {
-        for (const file of files) {
-          const fileExt = file.name.split('.').pop();
-          const fileName = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-          const filePath = `${organisationMember.organisation_id}/${fileName}`;
-
-          console.log('Uploading file:', filePath);
-
-          const { error: uploadError } = await supabase.storage
-            .from('compliance-evidence')
-            .upload(filePath, file);
-
-          if (uploadError) {
-            console.error('Upload error:', uploadError);
-            throw new Error(`Failed to upload file: ${uploadError.message}`);
-          }
-
-          fileNames.push(file.name);
-          filePaths.push(filePath);
-        }
-      }
-
       // For members, use their name; for admins, use selected person
       const finalResponsiblePerson = isAdmin ? responsiblePerson : memberName;
 
@@ -107,33 +186,37 @@ export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record }:
         throw new Error('Responsible person is required');
       }
 
-      const updateData: any = {
+      const updateData = {
         compliance_item: complianceItem,
-        standard_clause: standardClause,
         compliance_status: complianceStatus,
         responsible_person: finalResponsiblePerson,
         next_review_date: nextReviewDate?.toISOString().split('T')[0] || null,
+        review_status: getReviewStatus(nextReviewDate ? format(nextReviewDate, 'yyyy-MM-dd') : null),
         notes: notes || null,
       };
 
-      // Only update file fields if new files were uploaded
-      if (files.length > 0) {
-        updateData.file_name = fileNames.join(', ');
-        updateData.file_path = filePaths.join(', ');
-      }
-
       console.log('Updating compliance record:', updateData);
 
-      const { error } = await supabase
-        .from('compliance_records')
-        .update(updateData)
-        .eq('id', record.id);
+      // The record and its standards are saved together, so neither is left half-updated
+      const { error } = await supabase.rpc('save_compliance_record', {
+        p_record_id: record.id,
+        p_record: updateData,
+        p_standard_ids: standardIds,
+      });
 
       if (error) {
         console.error('Database error:', error);
         throw new Error(`Database error: ${error.message}`);
       }
 
+      await notifyComplianceRecordChange(
+        organisationMember.organisation_id,
+        'updated',
+        { id: record.id, compliance_item: complianceItem, clauses: getClauses() },
+        organisationMember.id,
+        memberName
+      );
+
       toast({
         title: "Success",
         description: "Compliance record updated successfully",
@@ -156,12 +239,11 @@ export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record }:
 
   const resetForm = () => {
     setComplianceItem('');
-    setStandardClause('');
+    setStandardIds([]);
     setComplianceStatus('');
     setResponsiblePerson('');
     setNextReviewDate(undefined);
     setNotes('');
-    setFiles([]);
   };
 
   return (
@@ -181,124 +263,174 @@ export const EditComplianceDialog = ({ open, onOpenChange, onSuccess, record }:
           </div>
         </DialogHeader>
         
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <Label htmlFor="complianceItem">Compliance Item</Label>
-            <Input
-              id="complianceItem"
-              placeholder="Enter compliance item"
-              value={complianceItem}
-              onChange={(e) => setComplianceItem(e.target.value)}
-              required
-            />
-          </div>
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="mb-2">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="actions">Corrective Actions</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="complianceItem">Compliance Item</Label>
+                <Input
+                  id="complianceItem"
+                  placeholder="Enter compliance item"
+                  value={complianceItem}
+                  onChange={(e) => setComplianceItem(e.target.value)}
+                  required
+                />
+              </div>
           
-          <div>
-            <Label htmlFor="standardClause">Standard Clause</Label>
-            <Input
-              id="standardClause"
-              placeholder="Enter standard clause"
-              value={standardClause}
-              onChange={(e) => setStandardClause(e.target.value)}
-              required
-            />
-          </div>
+              <div>
+                <Label htmlFor="standardClauses">Standard Clauses</Label>
+                <StandardMultiSelect
+                  id="standardClauses"
+                  standards={standards}
+                  value={standardIds}
+                  onChange={setStandardIds}
+                  loading={standardsLoading}
+                />
+              </div>
           
-          <div>
-            <Label htmlFor="complianceStatus">Compliance Status</Label>
-            <Select value={complianceStatus} onValueChange={setComplianceStatus}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select compliance status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="Compliant">Compliant</SelectItem>
-                <SelectItem value="At Risk">At Risk</SelectItem>
-                <SelectItem value="Non-Compliant">Non-Compliant</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+              <div>
+                <Label htmlFor="complianceStatus">Compliance Status</Label>
+                <Select value={complianceStatus} onValueChange={setComplianceStatus}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select compliance status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Compliant">Compliant</SelectItem>
+                    <SelectItem value="At Risk">At Risk</SelectItem>
+                    <SelectItem value="Non-Compliant">Non-Compliant</SelectItem>
+                  </SelectContent>
+                </Select>
+                {needsCorrectiveAction(complianceStatus) && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Track how this will be fixed under{' '}
+                    <button type="button" className="text-[#7030a0] hover:underline" onClick={() => setTab('actions')}>
+                      Corrective Actions
+                    </button>
+                    .
+                  </p>
+                )}
+              </div>
           
-          <div>
-            <Label htmlFor="responsiblePerson">Responsible Person</Label>
-            {isAdmin ? (
-              <Select value={responsiblePerson} onValueChange={setResponsiblePerson}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select responsible person" />
-                </SelectTrigger>
-                <SelectContent>
-                  {teamMembers.map((member) => (
-                    <SelectItem key={member.id} value={member.full_name || member.email}>
-                      {member.full_name || member.email} ({member.role})
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            ) : (
-              <Input
-                id="responsiblePerson"
-                value={memberName}
-                readOnly
-                className="bg-gray-100"
-                placeholder="Your name will be used"
-              />
-            )}
-          </div>
+              <div>
+                <Label htmlFor="responsiblePerson">Responsible Person</Label>
+                {isAdmin ? (
+                  <Select value={responsiblePerson} onValueChange={setResponsiblePerson}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select responsible person" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teamMembers.map((member) => (
+                        <SelectItem key={member.id} value={member.full_name || member.email}>
+                          {member.full_name || member.email} ({member.role})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id="responsiblePerson"
+                    value={memberName}
+                    readOnly
+                    className="bg-gray-100"
+                    placeholder="Your name will be used"
+                  />
+                )}
+              </div>
+          
+              <div>
+                <Label>Next Review Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant={"outline"}
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !nextReviewDate && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {nextReviewDate ? format(nextReviewDate, "PPP") : <span>Pick a date</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={nextReviewDate}
+                      onSelect={setNextReviewDate}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+          
+              <div>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  placeholder="Enter any additional notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={3}
+                />
+              </div>
+
+              {record && <EvidenceFileList recordId={record.id} onChange={onSuccess} />}
           
-          <div>
-            <Label>Next Review Date</Label>
-            <Popover>
-              <PopoverTrigger asChild>
+              <div className="flex justify-end space-x-2 pt-4">
                 <Button
-                  variant={"outline"}
-                  className={cn(
-                    "w-full justify-start text-left font-normal",
-                    !nextReviewDate && "text-muted-foreground"
-                  )}
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
                 >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {nextReviewDate ? format(nextReviewDate, "PPP") : <span>Pick a date</span>}
+                  Cancel
                 </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0">
-                <Calendar
-                  mode="single"
-                  selected={nextReviewDate}
-                  onSelect={setNextReviewDate}
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
-          </div>
-          
-          <div>
-            <Label htmlFor="notes">Notes</Label>
-            <Textarea
-              id="notes"
-              placeholder="Enter any additional notes"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              rows={3}
-            />
-          </div>
+                <Button
+                  type="submit"
+                  disabled={loading || !complianceItem || standardIds.length === 0 || !complianceStatus || (isAdmin && !responsiblePerson)}
+                >
+                  {loading ? 'Updating...' : 'Update Record'}
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
 
-          <FileUpload files={files} onFilesChange={setFiles} />
-          
-          <div className="flex justify-end space-x-2 pt-4">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              disabled={loading || !complianceItem || !standardClause || !complianceStatus || (isAdmin && !responsiblePerson)}
-            >
-              {loading ? 'Updating...' : 'Update Record'}
-            </Button>
-          </div>
-        </form>
+          <TabsContent value="actions">
+            {record && (
+              <CorrectiveActionList
+                recordId={record.id}
+                onChange={onSuccess}
+                onAllClosed={handleAllActionsClosed}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="history">
+            {record && <RecordHistory tableName="compliance_records" recordId={record.id} />}
+          </TabsContent>
+        </Tabs>
+
+        <AlertDialog open={isCompliantPromptOpen} onOpenChange={setIsCompliantPromptOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>All corrective actions are closed</AlertDialogTitle>
+              <AlertDialogDescription>
+                This record is still marked {complianceStatus}. Do you want to move it back to Compliant?
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Not Yet</AlertDialogCancel>
+              <AlertDialogAction onClick={handleMarkCompliant}>
+                Mark as Compliant
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </DialogContent>
     </Dialog>
   );
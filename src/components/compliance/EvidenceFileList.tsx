@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileText, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  EvidenceFile,
+  EvidenceFileWithUploader,
+  EVIDENCE_FILE_WITH_UPLOADER_SELECT,
+  uploadEvidenceFile,
+  deleteEvidenceFile,
+  formatFileSize,
+} from '@/lib/evidence';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface EvidenceFileListProps {
+  recordId: string;
+  onChange?: () => void;
+}
+
+// Evidence attached to an existing record. Each file is uploaded or removed as soon
+// as the user acts on it, independently of saving the rest of the record.
+export const EvidenceFileList = ({ recordId, onChange }: EvidenceFileListProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [evidenceFiles, setEvidenceFiles] = useState<EvidenceFileWithUploader[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const fetchEvidenceFiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('evidence_files')
+        .select(EVIDENCE_FILE_WITH_UPLOADER_SELECT)
+        .eq('record_id', recordId)
+        .order('uploaded_at', { ascending: true });
+
+      if (error) throw error;
+      setEvidenceFiles(data || []);
+    } catch (error) {
+      console.error('Error fetching evidence files:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch evidence files",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvidenceFiles();
+  }, [recordId]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || !organisationMember?.organisation_id) return;
+
+    const selectedFiles = Array.from(e.target.files);
+    setUploading(true);
+    try {
+      for (const file of selectedFiles) {
+        await uploadEvidenceFile(file, recordId, organisationMember.organisation_id, organisationMember.id);
+      }
+
+      toast({
+        title: "Success",
+        description: `${selectedFiles.length} file(s) added`,
+      });
+    } catch (error) {
+      console.error('Error uploading evidence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload file",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+      fetchEvidenceFiles();
+      onChange?.();
+    }
+  };
+
+  const handleRemoveFile = async (evidenceFile: EvidenceFile) => {
+    try {
+      await deleteEvidenceFile(evidenceFile);
+      setEvidenceFiles(prev => prev.filter(f => f.id !== evidenceFile.id));
+      onChange?.();
+
+      toast({
+        title: "Success",
+        description: `${evidenceFile.file_name} removed`,
+      });
+    } catch (error) {
+      console.error('Error removing evidence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div>
+      <Label htmlFor="evidence">Evidence</Label>
+
+      <div className="mt-2 space-y-1">
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading files...</div>
+        ) : evidenceFiles.length === 0 ? (
+          <div className="text-sm text-gray-500">No files attached yet.</div>
+        ) : (
+          evidenceFiles.map((evidenceFile) => (
+            <div key={evidenceFile.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-md">
+              <div className="flex items-center min-w-0">
+                <FileText className="h-4 w-4 text-gray-400 mr-2 shrink-0" />
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-700 truncate">{evidenceFile.file_name}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatFileSize(evidenceFile.size_bytes)} · {evidenceFile.uploader?.full_name || evidenceFile.uploader?.email || 'Unknown'} · {new Date(evidenceFile.uploaded_at).toLocaleDateString()}
+                  </div>
+                </div>
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-500 hover:text-red-700 p-1 h-auto"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Remove this file?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {evidenceFile.file_name} will be permanently removed from this compliance record.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleRemoveFile(evidenceFile)}>
+                      Remove
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          ))
+        )}
+      </div>
+
+      <Input
+        id="evidence"
+        ref={inputRef}
+        type="file"
+        multiple
+        disabled={uploading}
+        onChange={handleFileChange}
+        className="mt-3 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[#7030a0] file:text-white hover:file:bg-[#5e2680]"
+        style={{ height: '50px' }}
+      />
+      {uploading && <div className="text-sm text-gray-500 mt-1">Uploading...</div>}
+    </div>
+  );
+};
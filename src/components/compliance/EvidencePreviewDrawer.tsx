@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { ChevronLeft, ChevronRight, Download, FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import {
+  EvidenceFileWithUploader,
+  formatFileSize,
+  getEvidenceSignedUrl,
+  getPreviewKind,
+} from '@/lib/evidence';
+
+// Larger text files are offered as a download rather than rendered
+const MAX_TEXT_PREVIEW_BYTES = 512 * 1024;
+
+interface EvidencePreviewDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  evidenceFiles: EvidenceFileWithUploader[];
+}
+
+export const EvidencePreviewDrawer = ({ open, onOpenChange, title, evidenceFiles }: EvidencePreviewDrawerProps) => {
+  const { toast } = useToast();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [textContent, setTextContent] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedFile = evidenceFiles[selectedIndex] || null;
+  const previewKind = selectedFile ? getPreviewKind(selectedFile) : 'none';
+
+  useEffect(() => {
+    if (open) setSelectedIndex(0);
+  }, [open]);
+
+  // Each file is fetched through a fresh signed URL when it's selected
+  useEffect(() => {
+    if (!open || !selectedFile) return;
+
+    let cancelled = false;
+
+    const loadFile = async () => {
+      setLoading(true);
+      setError(null);
+      setPreviewUrl(null);
+      setTextContent(null);
+
+      try {
+        if (previewKind === 'none') return;
+
+        const url = await getEvidenceSignedUrl(selectedFile);
+        if (cancelled) return;
+
+        if (previewKind === 'text') {
+          if ((selectedFile.size_bytes ?? 0) <= MAX_TEXT_PREVIEW_BYTES) {
+            const response = await fetch(url);
+            if (!response.ok) throw new Error(`Failed to fetch file: ${response.status}`);
+            const text = await response.text();
+            if (!cancelled) setTextContent(text);
+          }
+        } else {
+          setPreviewUrl(url);
+        }
+      } catch (err) {
+        console.error('Error loading evidence file:', err);
+        if (!cancelled) setError('Failed to load this file');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadFile();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, selectedFile?.id]);
+
+  const handleDownload = async () => {
+    if (!selectedFile) return;
+
+    try {
+      // Served as an attachment, so the browser downloads it without leaving the page
+      window.location.href = await getEvidenceSignedUrl(selectedFile, { download: true });
+    } catch (err) {
+      console.error('Error downloading evidence file:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to download file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderPreview = () => {
+    if (loading) {
+      return <div className="text-sm text-gray-500">Loading preview...</div>;
+    }
+    if (error || !selectedFile) {
+      return <div className="text-sm text-red-600">{error || 'Preview unavailable'}</div>;
+    }
+
+    switch (previewKind) {
+      case 'pdf':
+        if (!previewUrl) break;
+        return <iframe src={previewUrl} title={selectedFile.file_name} className="w-full h-full rounded-md border" />;
+      case 'image':
+        if (!previewUrl) break;
+        return (
+          <img
+            src={previewUrl}
+            alt={selectedFile.file_name}
+            className="max-w-full max-h-full object-contain mx-auto rounded-md"
+          />
+        );
+      case 'text':
+        if (textContent !== null) {
+          return (
+            <pre className="w-full h-full overflow-auto text-xs bg-gray-50 border rounded-md p-3 whitespace-pre-wrap break-words">
+              {textContent}
+            </pre>
+          );
+        }
+        break;
+    }
+
+    return (
+      <div className="flex flex-col items-center justify-center text-center text-gray-500">
+        <FileText className="h-12 w-12 text-gray-300 mb-3" />
+        <div className="text-sm">This file can't be previewed in the browser.</div>
+        <Button className="mt-4" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Evidence</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-1 min-h-0 gap-4">
+          {/* File list */}
+          <div className="w-56 shrink-0 overflow-y-auto space-y-1">
+            {evidenceFiles.map((evidenceFile, index) => (
+              <button
+                key={evidenceFile.id}
+                type="button"
+                onClick={() => setSelectedIndex(index)}
+                className={cn(
+                  "w-full text-left p-2 rounded-md text-sm hover:bg-gray-100",
+                  index === selectedIndex && "bg-purple-50 text-[#7030a0] font-medium"
+                )}
+              >
+                <div className="truncate">{evidenceFile.file_name}</div>
+                <div className="text-xs text-gray-500">{formatFileSize(evidenceFile.size_bytes)}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 min-w-0 flex flex-col">
+            {selectedFile && (
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{selectedFile.file_name}</div>
+                  <div className="text-xs text-gray-500 space-x-2">
+                    <span>{selectedFile.mime_type || 'Unknown type'}</span>
+                    <span>· {formatFileSize(selectedFile.size_bytes)}</span>
+                    <span>· Uploaded {new Date(selectedFile.uploaded_at).toLocaleString()}</span>
+                    <span>by {selectedFile.uploader?.full_name || selectedFile.uploader?.email || 'Unknown'}</span>
+                  </div>
+                  {selectedFile.checksum && (
+                    <div className="text-xs text-gray-400 font-mono truncate" title={selectedFile.checksum}>
+                      SHA-256 {selectedFile.checksum}
+                    </div>
+                  )}
+                </div>
+                <Button variant="outline" size="sm" onClick={handleDownload}>
+                  <Download className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            <div className="flex-1 min-h-0 flex items-center justify-center">
+              {renderPreview()}
+            </div>
+
+            {evidenceFiles.length > 1 && (
+              <div className="flex items-center justify-between mt-3">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedIndex(index => index - 1)}
+                  disabled={selectedIndex === 0}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-500">
+                  {selectedIndex + 1} of {evidenceFiles.length}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedIndex(index => index + 1)}
+                  disabled={selectedIndex === evidenceFiles.length - 1}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,364 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, CheckCircle, Download, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { FRAMEWORKS } from '@/lib/frameworks';
+import { Standard } from '@/lib/standards';
+import { downloadFile } from '@/lib/csv';
+import {
+  IMPORT_ACCEPT,
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField,
+  ParsedSheet,
+  buildImportTemplate,
+  guessColumnMapping,
+  parseImportFile,
+  validateImportRows,
+} from '@/lib/recordImport';
+
+interface ImportRecordsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+const NOT_MAPPED = 'none';
+const ALL_FRAMEWORKS = 'all';
+
+export const ImportRecordsDialog = ({ open, onOpenChange, onSuccess }: ImportRecordsDialogProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const { teamMembers } = useTeamMembers();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [framework, setFramework] = useState(ALL_FRAMEWORKS);
+  const [standards, setStandards] = useState<Standard[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open && organisationMember?.organisation_id) {
+      fetchStandards();
+    }
+  }, [open, organisationMember?.organisation_id]);
+
+  const fetchStandards = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('standards')
+        .select('*')
+        .eq('organisation_id', organisationMember.organisation_id);
+
+      if (error) throw error;
+      setStandards(data || []);
+    } catch (error) {
+      console.error('Error fetching standards:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch standards",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const frameworkCodes = useMemo(
+    () => Array.from(new Set(standards.map(s => s.framework).filter((code): code is string => !!code))),
+    [standards]
+  );
+
+  const validatedRows = useMemo(() => {
+    if (!sheet || !mapping || step !== 'preview') return [];
+    return validateImportRows({
+      rows: sheet.rows,
+      mapping,
+      standards,
+      members: teamMembers,
+      framework: framework === ALL_FRAMEWORKS ? null : framework,
+    });
+  }, [sheet, mapping, standards, teamMembers, framework, step]);
+
+  const errorCount = validatedRows.filter(row => row.errors.length > 0).length;
+  const visibleRows = showErrorsOnly ? validatedRows.filter(row => row.errors.length > 0) : validatedRows;
+  const missingRequired = mapping
+    ? (Object.keys(IMPORT_FIELDS) as ImportField[]).filter(field => IMPORT_FIELDS[field].required && mapping[field] === null)
+    : [];
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setFramework(ALL_FRAMEWORKS);
+    setShowErrorsOnly(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) resetWizard();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      const parsed = await parseImportFile(file);
+      if (parsed.rows.length === 0) {
+        throw new Error('The file has headers but no rows to import');
+      }
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive",
+      });
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadFile('compliance-records-template.csv', buildImportTemplate(), 'text/csv');
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('import_compliance_records', {
+        p_records: validatedRows.map(row => ({ ...row.record })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${data} compliance record${data === 1 ? '' : 's'} imported from ${fileName}`,
+      });
+
+      onSuccess();
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error importing compliance records:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import compliance records",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle>
+              Import Compliance Records
+              {step !== 'upload' && <span className="ml-2 text-sm font-normal text-gray-500">{fileName}</span>}
+            </DialogTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleOpenChange(false)}
+              className="h-6 w-6 p-0"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Upload a CSV or Excel (.xlsx) file with one compliance record per row and a header row at the top.
+              Only the first worksheet of a workbook is read. Separate several clauses in one cell with semicolons.
+            </p>
+            <div>
+              <Label htmlFor="importFile">File</Label>
+              <Input
+                id="importFile"
+                type="file"
+                accept={IMPORT_ACCEPT}
+                onChange={handleFileChange}
+                disabled={parsing}
+              />
+              {parsing && <p className="text-sm text-gray-500 mt-1">Reading file...</p>}
+            </div>
+            <Button type="button" variant="outline" onClick={handleDownloadTemplate}>
+              <Download className="h-4 w-4 mr-2" />
+              Download Template
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="space-y-4 min-h-0 overflow-y-auto">
+            <p className="text-sm text-gray-600">
+              Match each field to a column in your file. {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'} found.
+            </p>
+            <div className="grid md:grid-cols-2 gap-4">
+              {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                <div key={field}>
+                  <Label htmlFor={`map-${field}`}>
+                    {IMPORT_FIELDS[field].label}
+                    {IMPORT_FIELDS[field].required && <span className="text-red-600 ml-1">*</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) })}
+                  >
+                    <SelectTrigger id={`map-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {frameworkCodes.length > 1 && (
+              <div>
+                <Label htmlFor="importFramework">Match clauses in</Label>
+                <Select value={framework} onValueChange={setFramework}>
+                  <SelectTrigger id="importFramework">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FRAMEWORKS}>All standards</SelectItem>
+                    {frameworkCodes.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {FRAMEWORKS.find(f => f.code === code)?.name || code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Frameworks reuse clause numbers, so pick one if your file is for a single framework.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4 min-h-0 flex flex-col">
+            <div className="flex items-center justify-between">
+              {errorCount === 0 ? (
+                <div className="flex items-center text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  All {validatedRows.length} rows are ready to import.
+                </div>
+              ) : (
+                <div className="flex items-center text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  {errorCount} of {validatedRows.length} rows have errors. Fix them in the file and upload it again; nothing is imported until every row is valid.
+                </div>
+              )}
+              {errorCount > 0 && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setShowErrorsOnly(!showErrorsOnly)}>
+                  {showErrorsOnly ? 'Show all rows' : 'Show errors only'}
+                </Button>
+              )}
+            </div>
+
+            <div className="flex-1 min-h-0 max-h-[50vh] overflow-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Row</th>
+                    {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                      <th key={field} className="text-left py-2 px-3 font-medium text-gray-500">{IMPORT_FIELDS[field].label}</th>
+                    ))}
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Errors</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr key={row.rowNumber} className={`border-b align-top ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="py-2 px-3 text-gray-500">{row.rowNumber}</td>
+                      {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                        <td key={field} className="py-2 px-3 text-gray-700">{row.values[field]}</td>
+                      ))}
+                      <td className="py-2 px-3">
+                        {row.errors.length === 0 ? (
+                          <CheckCircle className="h-4 w-4 text-green-600" />
+                        ) : (
+                          <ul className="text-red-700 space-y-0.5">
+                            {row.errors.map((error, index) => (
+                              <li key={index}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          {step === 'upload' && (
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === 'map' && (
+            <>
+              <Button type="button" variant="outline" onClick={resetWizard}>
+                Back
+              </Button>
+              <Button
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+                title={missingRequired.length > 0 ? `Map ${missingRequired.map(f => IMPORT_FIELDS[f].label).join(', ')}` : undefined}
+              >
+                Check Rows
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={loading || errorCount > 0 || validatedRows.length === 0}>
+                {loading ? 'Importing...' : `Import ${validatedRows.length} Record${validatedRows.length === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
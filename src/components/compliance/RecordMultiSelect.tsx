@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ChevronDown, X } from 'lucide-react';
+
+interface RecordOption {
+  id: string;
+  compliance_item: string;
+}
+
+interface RecordMultiSelectProps {
+  id?: string;
+  records: RecordOption[];
+  value: string[];
+  onChange: (recordIds: string[]) => void;
+  loading?: boolean;
+}
+
+// Picks compliance records by name, in the same style as StandardMultiSelect
+export const RecordMultiSelect = ({ id, records, value, onChange, loading }: RecordMultiSelectProps) => {
+  const [search, setSearch] = useState('');
+
+  const options = [...records].sort((a, b) => a.compliance_item.localeCompare(b.compliance_item));
+  const selected = options.filter(record => value.includes(record.id));
+
+  const term = search.toLowerCase();
+  const visibleOptions = term
+    ? options.filter(record => record.compliance_item.toLowerCase().includes(term))
+    : options;
+
+  const toggle = (recordId: string, checked: boolean) => {
+    onChange(checked ? [...value, recordId] : value.filter(v => v !== recordId));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          className="w-full h-auto min-h-10 justify-between font-normal"
+        >
+          <div className="flex flex-wrap gap-1">
+            {selected.length === 0 ? (
+              <span className="text-muted-foreground">
+                {loading ? 'Loading records...' : 'Select compliance records'}
+              </span>
+            ) : (
+              selected.map((record) => (
+                <span
+                  key={record.id}
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                >
+                  {record.compliance_item}
+                  <X
+                    className="h-3 w-3 ml-1"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggle(record.id, false);
+                    }}
+                  />
+                </span>
+              ))
+            )}
+          </div>
+          <ChevronDown className="h-4 w-4 opacity-50 shrink-0 ml-2" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <div className="p-2 border-b">
+          <Input
+            placeholder="Search records..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div className="max-h-64 overflow-y-auto">
+          {visibleOptions.map((record) => (
+            <label
+              key={record.id}
+              className="flex items-start gap-2 p-2 text-sm hover:bg-gray-50 cursor-pointer"
+            >
+              <Checkbox
+                className="mt-0.5"
+                checked={value.includes(record.id)}
+                onCheckedChange={(checked) => toggle(record.id, checked === true)}
+              />
+              <span>{record.compliance_item}</span>
+            </label>
+          ))}
+          {visibleOptions.length === 0 && (
+            <div className="p-3 text-sm text-gray-500">
+              {records.length === 0 ? 'No compliance records available' : 'No records match your search'}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ChevronDown, X } from 'lucide-react';
+import { FRAMEWORKS } from '@/lib/frameworks';
+import { Standard, buildStandardTree, flattenStandardTree } from '@/lib/standards';
+
+interface StandardMultiSelectProps {
+  id?: string;
+  standards: Standard[];
+  value: string[];
+  onChange: (standardIds: string[]) => void;
+  loading?: boolean;
+}
+
+// Picks the standards a compliance record covers, listed in tree order. Frameworks
+// can share clause numbers, so each option shows the framework it came from.
+export const StandardMultiSelect = ({ id, standards, value, onChange, loading }: StandardMultiSelectProps) => {
+  const [search, setSearch] = useState('');
+
+  const options = useMemo(() => flattenStandardTree(buildStandardTree(standards)), [standards]);
+  const selected = options.filter(({ standard }) => value.includes(standard.id)).map(({ standard }) => standard);
+
+  const term = search.toLowerCase();
+  const visibleOptions = term
+    ? options.filter(({ standard }) =>
+        standard.standard_clause.toLowerCase().includes(term) ||
+        standard.standard_description.toLowerCase().includes(term)
+      )
+    : options;
+
+  const toggle = (standardId: string, checked: boolean) => {
+    onChange(checked ? [...value, standardId] : value.filter(v => v !== standardId));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          className="w-full h-auto min-h-10 justify-between font-normal"
+        >
+          <div className="flex flex-wrap gap-1">
+            {selected.length === 0 ? (
+              <span className="text-muted-foreground">
+                {loading ? 'Loading standards...' : 'Select standard clauses'}
+              </span>
+            ) : (
+              selected.map((standard) => (
+                <span
+                  key={standard.id}
+                  className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                  title={standard.standard_description}
+                >
+                  {standard.standard_clause}
+                  <X
+                    className="h-3 w-3 ml-1"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggle(standard.id, false);
+                    }}
+                  />
+                </span>
+              ))
+            )}
+          </div>
+          <ChevronDown className="h-4 w-4 opacity-50 shrink-0 ml-2" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <div className="p-2 border-b">
+          <Input
+            placeholder="Search clauses..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div className="max-h-64 overflow-y-auto">
+          {visibleOptions.map(({ standard, depth }) => (
+            <label
+              key={standard.id}
+              className="flex items-start gap-2 p-2 text-sm hover:bg-gray-50 cursor-pointer"
+              style={{ paddingLeft: `${8 + (term ? 0 : depth * 16)}px` }}
+            >
+              <Checkbox
+                className="mt-0.5"
+                checked={value.includes(standard.id)}
+                onCheckedChange={(checked) => toggle(standard.id, checked === true)}
+              />
+              <span>
+                <span className="font-medium">{standard.standard_clause}</span>{' '}
+                <span className="text-gray-600">{standard.standard_description}</span>
+                {standard.framework && (
+                  <span className="block text-xs text-gray-500">
+                    {FRAMEWORKS.find(f => f.code === standard.framework)?.name || standard.framework}
+                  </span>
+                )}
+              </span>
+            </label>
+          ))}
+          {visibleOptions.length === 0 && (
+            <div className="p-3 text-sm text-gray-500">
+              {standards.length === 0 ? 'No standards available' : 'No clauses match your search'}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
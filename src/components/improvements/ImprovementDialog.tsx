@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { StandardMultiSelect } from '@/components/compliance/StandardMultiSelect';
+import { RecordMultiSelect } from '@/components/compliance/RecordMultiSelect';
+import { Standard } from '@/lib/standards';
+import {
+  IMPROVEMENT_SOURCES,
+  IMPROVEMENT_STATUSES,
+  Improvement,
+  ImprovementSource,
+  ImprovementStatus,
+  getImprovementRecords,
+  getImprovementStandards,
+} from '@/lib/improvements';
+
+interface ImprovementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  // The entry being edited, or null to add a new one
+  improvement: Improvement | null;
+}
+
+export const ImprovementDialog = ({ open, onOpenChange, onSuccess, improvement }: ImprovementDialogProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const { teamMembers } = useTeamMembers();
+  const [title, setTitle] = useState('');
+  const [source, setSource] = useState<ImprovementSource | ''>('');
+  const [sourceDetails, setSourceDetails] = useState('');
+  const [identifiedOn, setIdentifiedOn] = useState<Date>();
+  const [actionTaken, setActionTaken] = useState('');
+  const [ownerId, setOwnerId] = useState('');
+  const [status, setStatus] = useState<ImprovementStatus>('identified');
+  const [outcome, setOutcome] = useState('');
+  const [standardIds, setStandardIds] = useState<string[]>([]);
+  const [recordIds, setRecordIds] = useState<string[]>([]);
+  const [standards, setStandards] = useState<Standard[]>([]);
+  const [records, setRecords] = useState<{ id: string; compliance_item: string }[]>([]);
+  const [optionsLoading, setOptionsLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(improvement?.title || '');
+    setSource(improvement?.source || '');
+    setSourceDetails(improvement?.source_details || '');
+    setIdentifiedOn(improvement ? parseISO(improvement.identified_on) : new Date());
+    setActionTaken(improvement?.action_taken || '');
+    setOwnerId(improvement?.owner_id || organisationMember?.id || '');
+    setStatus(improvement?.status || 'identified');
+    setOutcome(improvement?.outcome || '');
+    setStandardIds(improvement ? getImprovementStandards(improvement).map(standard => standard.id) : []);
+    setRecordIds(improvement ? getImprovementRecords(improvement).map(record => record.id) : []);
+  }, [open, improvement]);
+
+  useEffect(() => {
+    if (open && organisationMember?.organisation_id) {
+      fetchOptions();
+    }
+  }, [open, organisationMember?.organisation_id]);
+
+  const fetchOptions = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      setOptionsLoading(true);
+      const [standardsResult, recordsResult] = await Promise.all([
+        supabase
+          .from('standards')
+          .select('*')
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('compliance_records')
+          .select('id, compliance_item')
+          .eq('organisation_id', organisationMember.organisation_id),
+      ]);
+
+      if (standardsResult.error) throw standardsResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      setStandards(standardsResult.data || []);
+      setRecords(recordsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching standards and records:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch standards and compliance records",
+        variant: "destructive",
+      });
+    } finally {
+      setOptionsLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organisationMember?.organisation_id || !source || !identifiedOn) return;
+
+    setLoading(true);
+    try {
+      const values = {
+        title: title.trim(),
+        source,
+        source_details: sourceDetails.trim() || null,
+        identified_on: format(identifiedOn, 'yyyy-MM-dd'),
+        action_taken: actionTaken.trim() || null,
+        owner_id: ownerId || null,
+        status,
+        outcome: outcome.trim() || null,
+      };
+
+      let improvementId = improvement?.id;
+      if (improvementId) {
+        const { error } = await supabase
+          .from('improvements')
+          .update(values)
+          .eq('id', improvementId);
+
+        if (error) throw new Error(`Database error: ${error.message}`);
+      } else {
+        const { data, error } = await supabase
+          .from('improvements')
+          .insert({
+            ...values,
+            organisation_id: organisationMember.organisation_id,
+            created_by: organisationMember.id,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw new Error(`Database error: ${error.message}`);
+        improvementId = data.id;
+      }
+
+      const { error: linkError } = await supabase.rpc('set_improvement_links', {
+        p_improvement_id: improvementId,
+        p_standard_ids: standardIds,
+        p_record_ids: recordIds,
+      });
+
+      if (linkError) {
+        console.error('Error linking improvement:', linkError);
+        // A new entry exists by now, so don't treat a failed link as a failed save
+        toast({
+          title: "Links were not saved",
+          description: "The improvement was saved, but its clauses and records could not be linked. Set them again by editing it.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: improvement ? "Improvement updated" : "Improvement added",
+        });
+      }
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving improvement:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save improvement",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{improvement ? 'Edit Improvement' : 'Add Improvement'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="improvementTitle">Improvement</Label>
+            <Input
+              id="improvementTitle"
+              placeholder="What needs to improve?"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Source</Label>
+              <Select value={source} onValueChange={(value) => setSource(value as ImprovementSource)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select source" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(IMPROVEMENT_SOURCES) as ImprovementSource[]).map((key) => (
+                    <SelectItem key={key} value={key}>{IMPROVEMENT_SOURCES[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Date Identified</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant={"outline"}
+                    className={cn(
+                      "w-full justify-start text-left font-normal",
+                      !identifiedOn && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {identifiedOn ? format(identifiedOn, "PPP") : <span>Pick a date</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={identifiedOn}
+                    onSelect={setIdentifiedOn}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="sourceDetails">Source Details</Label>
+            <Textarea
+              id="sourceDetails"
+              placeholder="e.g. the complaint reference, survey results or audit report it came from"
+              value={sourceDetails}
+              onChange={(e) => setSourceDetails(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="actionTaken">Action Taken</Label>
+            <Textarea
+              id="actionTaken"
+              placeholder="What was changed in response?"
+              value={actionTaken}
+              onChange={(e) => setActionTaken(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Owner</Label>
+              <Select value={ownerId} onValueChange={setOwnerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select owner" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teamMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as ImprovementStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(IMPROVEMENT_STATUSES) as ImprovementStatus[]).map((key) => (
+                    <SelectItem key={key} value={key}>{IMPROVEMENT_STATUSES[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="outcome">Outcome</Label>
+            <Textarea
+              id="outcome"
+              placeholder="What difference did the change make?"
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="improvementStandards">Standard Clauses</Label>
+            <StandardMultiSelect
+              id="improvementStandards"
+              standards={standards}
+              value={standardIds}
+              onChange={setStandardIds}
+              loading={optionsLoading}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="improvementRecords">Compliance Records</Label>
+            <RecordMultiSelect
+              id="improvementRecords"
+              records={records}
+              value={recordIds}
+              onChange={setRecordIds}
+              loading={optionsLoading}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !title.trim() || !source || !identifiedOn}>
+              {loading ? 'Saving...' : improvement ? 'Save Changes' : 'Add Improvement'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Send, Link2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { MessageThread, getThreadTitle } from '@/hooks/useMessageThreads';
+import { formatRecordClauses } from '@/lib/standards';
+
+interface Message {
+  id: string;
+  thread_id: string;
+  sender_id: string;
+  body: string;
+  created_at: string;
+}
+
+interface MessageThreadViewProps {
+  thread: MessageThread;
+  currentMemberId: string;
+  onRead: () => void;
+}
+
+export const MessageThreadView = ({ thread, currentMemberId, onRead }: MessageThreadViewProps) => {
+  const { toast } = useToast();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const memberNames = Object.fromEntries(
+    thread.message_thread_members.map(m => [
+      m.member_id,
+      m.organisation_members?.full_name || m.organisation_members?.email || 'Unknown'
+    ])
+  );
+
+  const markRead = async () => {
+    const { error } = await supabase.rpc('mark_thread_read', { p_thread_id: thread.id });
+
+    if (error) {
+      console.error('Error marking thread as read:', error);
+      return;
+    }
+    onRead();
+  };
+
+  useEffect(() => {
+    const fetchMessages = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .eq('thread_id', thread.id)
+          .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        setMessages(data || []);
+        markRead();
+      } catch (error) {
+        console.error('Error fetching messages:', error);
+        toast({
+          title: "Error",
+          description: "Failed to fetch messages",
+          variant: "destructive",
+        });
+      }
+    };
+
+    fetchMessages();
+
+    const channel = supabase
+      .channel(`thread-${thread.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `thread_id=eq.${thread.id}` },
+        (payload) => {
+          const message = payload.new as Message;
+          setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+          markRead();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [thread.id]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+
+    setSending(true);
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .insert({
+          thread_id: thread.id,
+          sender_id: currentMemberId,
+          body,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      setMessages(prev => prev.some(m => m.id === data.id) ? prev : [...prev, data]);
+      setDraft('');
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send message",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Thread header */}
+      <div className="px-6 py-4 border-b">
+        <h2 className="text-lg font-semibold text-gray-900">{getThreadTitle(thread, currentMemberId)}</h2>
+        <div className="flex flex-wrap items-center gap-4 mt-1 text-sm text-gray-500">
+          <span className="flex items-center">
+            <Users className="h-4 w-4 mr-1" />
+            {Object.values(memberNames).join(', ')}
+          </span>
+          {thread.compliance_records && (
+            <Link
+              to={`/?record=${thread.compliance_records.id}`}
+              className="flex items-center text-[#7030a0] hover:underline"
+            >
+              <Link2 className="h-4 w-4 mr-1" />
+              {formatRecordClauses(thread.compliance_records)} - {thread.compliance_records.compliance_item}
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+        {messages.length === 0 && (
+          <div className="text-center py-8 text-gray-500">No messages yet. Say hello!</div>
+        )}
+        {messages.map((message) => {
+          const isOwn = message.sender_id === currentMemberId;
+          return (
+            <div key={message.id} className={cn("flex", isOwn ? "justify-end" : "justify-start")}>
+              <div className="max-w-[70%]">
+                <div className={cn("text-xs text-gray-500 mb-1", isOwn && "text-right")}>
+                  {isOwn ? 'You' : memberNames[message.sender_id] || 'Former member'} · {format(new Date(message.created_at), 'd MMM, h:mm a')}
+                </div>
+                <div
+                  className={cn(
+                    "px-4 py-2 rounded-lg text-sm whitespace-pre-wrap break-words",
+                    isOwn ? "bg-[#7030a0] text-white" : "bg-gray-100 text-gray-900"
+                  )}
+                >
+                  {message.body}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Composer */}
+      <form onSubmit={handleSend} className="border-t p-4 flex items-end space-x-2">
+        <Textarea
+          placeholder="Write a message..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          className="flex-1 resize-none"
+        />
+        <Button type="submit" disabled={sending || !draft.trim()}>
+          <Send className="h-4 w-4 mr-2" />
+          Send
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { RECORD_STANDARDS_SELECT, RecordStandardLinks, formatRecordClauses } from '@/lib/standards';
+
+interface NewThreadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (threadId: string) => void;
+  defaultRecordId?: string | null;
+}
+
+interface RecordOption extends RecordStandardLinks {
+  id: string;
+  compliance_item: string;
+}
+
+export const NewThreadDialog = ({ open, onOpenChange, onCreated, defaultRecordId }: NewThreadDialogProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const { teamMembers } = useTeamMembers();
+  const [threadType, setThreadType] = useState<'direct' | 'channel'>('direct');
+  const [channelName, setChannelName] = useState('');
+  const [directMemberId, setDirectMemberId] = useState('');
+  const [channelMemberIds, setChannelMemberIds] = useState<string[]>([]);
+  const [recordId, setRecordId] = useState('none');
+  const [records, setRecords] = useState<RecordOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const otherMembers = teamMembers.filter(member => member.id !== organisationMember?.id);
+
+  useEffect(() => {
+    if (open) {
+      setRecordId(defaultRecordId || 'none');
+      fetchRecords();
+    }
+  }, [open, defaultRecordId]);
+
+  const fetchRecords = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('compliance_records')
+        .select(`id, compliance_item, ${RECORD_STANDARDS_SELECT}`)
+        .eq('organisation_id', organisationMember.organisation_id)
+        .order('compliance_item', { ascending: true });
+
+      if (error) throw error;
+      setRecords(data || []);
+    } catch (error) {
+      console.error('Error fetching compliance records:', error);
+    }
+  };
+
+  const toggleChannelMember = (memberId: string, checked: boolean) => {
+    setChannelMemberIds(prev =>
+      checked ? [...prev, memberId] : prev.filter(id => id !== memberId)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('create_message_thread', {
+        p_thread_type: threadType,
+        p_member_ids: threadType === 'direct' ? [directMemberId] : channelMemberIds,
+        p_name: threadType === 'channel' ? channelName : undefined,
+        p_compliance_record_id: recordId !== 'none' ? recordId : undefined,
+      });
+
+      if (error) throw error;
+
+      onCreated(data);
+      onOpenChange(false);
+      resetForm();
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create conversation",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setThreadType('direct');
+    setChannelName('');
+    setDirectMemberId('');
+    setChannelMemberIds([]);
+    setRecordId('none');
+  };
+
+  const isValid = threadType === 'direct'
+    ? !!directMemberId
+    : !!channelName.trim() && channelMemberIds.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle>New Conversation</DialogTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onOpenChange(false)}
+              className="h-6 w-6 p-0"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="threadType">Type</Label>
+            <Select value={threadType} onValueChange={(value: 'direct' | 'channel') => setThreadType(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="direct">Direct Message</SelectItem>
+                <SelectItem value="channel">Group Channel</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {threadType === 'direct' ? (
+            <div>
+              <Label htmlFor="directMember">Send To</Label>
+              <Select value={directMemberId} onValueChange={setDirectMemberId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select team member" />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <>
+              <div>
+                <Label htmlFor="channelName">Channel Name</Label>
+                <Input
+                  id="channelName"
+                  placeholder="e.g. audit-prep"
+                  value={channelName}
+                  onChange={(e) => setChannelName(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label>Members</Label>
+                <div className="mt-2 max-h-48 overflow-y-auto space-y-2 border rounded-md p-3">
+                  {otherMembers.map((member) => (
+                    <label key={member.id} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={channelMemberIds.includes(member.id)}
+                        onCheckedChange={(checked) => toggleChannelMember(member.id, checked === true)}
+                      />
+                      <span>{member.full_name || member.email}</span>
+                    </label>
+                  ))}
+                  {otherMembers.length === 0 && (
+                    <div className="text-sm text-gray-500">No other team members yet.</div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <Label htmlFor="linkedRecord">Linked Compliance Record (Optional)</Label>
+            <Select value={recordId} onValueChange={setRecordId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No linked record</SelectItem>
+                {records.map((record) => (
+                  <SelectItem key={record.id} value={record.id}>
+                    {formatRecordClauses(record)} - {record.compliance_item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || !isValid}
+            >
+              {loading ? 'Creating...' : 'Start Conversation'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
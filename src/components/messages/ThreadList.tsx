@@ -0,0 +1,66 @@
+import React from 'react';
+import { Hash, User, Link2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MessageThread, getThreadTitle } from '@/hooks/useMessageThreads';
+
+interface ThreadListProps {
+  threads: MessageThread[];
+  selectedThreadId: string | null;
+  unreadCounts: Record<string, number>;
+  currentMemberId?: string;
+  onSelect: (threadId: string) => void;
+}
+
+export const ThreadList = ({ threads, selectedThreadId, unreadCounts, currentMemberId, onSelect }: ThreadListProps) => {
+  if (threads.length === 0) {
+    return (
+      <div className="p-4 text-sm text-gray-500 text-center">
+        No conversations yet. Start one with "New Conversation".
+      </div>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {threads.map((thread) => {
+        const unread = unreadCounts[thread.id] || 0;
+        const Icon = thread.thread_type === 'channel' ? Hash : User;
+
+        return (
+          <li key={thread.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(thread.id)}
+              className={cn(
+                "w-full text-left px-4 py-3 transition-colors",
+                selectedThreadId === thread.id
+                  ? "bg-[rgb(243,232,255)]"
+                  : "hover:bg-gray-50"
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <Icon className="h-4 w-4 mr-2 text-gray-400 shrink-0" />
+                  <span className={cn("truncate text-sm", unread > 0 ? "font-semibold text-gray-900" : "text-gray-700")}>
+                    {thread.thread_type === 'channel' ? thread.name : getThreadTitle(thread, currentMemberId)}
+                  </span>
+                </div>
+                {unread > 0 && (
+                  <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-[#7030a0] text-white">
+                    {unread}
+                  </span>
+                )}
+              </div>
+              {thread.compliance_records && (
+                <div className="flex items-center mt-1 text-xs text-gray-500 truncate">
+                  <Link2 className="h-3 w-3 mr-1 shrink-0" />
+                  {thread.compliance_records.compliance_item}
+                </div>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
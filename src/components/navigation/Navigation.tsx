@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 import { 
   Database, 
   FileText, 
@@ -10,12 +11,21 @@ import {
   Settings,
   BarChart3,
   MessageSquare,
+  History,
+  Trash,
+  Grid3x3,
+  Package,
+  TrendingUp,
+  MessageSquareWarning,
+  GraduationCap,
+  BookOpen,
   Shield
 } from 'lucide-react';
 
 export const Navigation = () => {
   const { organisationMember } = useAuth();
   const location = useLocation();
+  const { totalUnread } = useUnreadMessages();
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // Update time every minute
@@ -51,6 +61,42 @@ export const Navigation = () => {
       icon: FileText,
       adminOnly: false
     },
+    {
+      name: 'Scope of Registration',
+      href: '/scope',
+      icon: BookOpen,
+      adminOnly: false
+    },
+    {
+      name: 'Coverage & Gaps',
+      href: '/coverage',
+      icon: Grid3x3,
+      adminOnly: false
+    },
+    {
+      name: 'Evidence Packs',
+      href: '/evidence-packs',
+      icon: Package,
+      adminOnly: false
+    },
+    {
+      name: 'Continuous Improvement',
+      href: '/improvements',
+      icon: TrendingUp,
+      adminOnly: false
+    },
+    {
+      name: 'Complaints & Appeals',
+      href: '/complaints',
+      icon: MessageSquareWarning,
+      adminOnly: false
+    },
+    {
+      name: 'Trainer Credentials',
+      href: '/trainers',
+      icon: GraduationCap,
+      adminOnly: false
+    },
     {
       name: 'Team Members',
       href: '/team',
@@ -67,7 +113,20 @@ export const Navigation = () => {
       name: 'Message Center',
       href: '/messages',
       icon: MessageSquare,
+      adminOnly: false,
+      badge: totalUnread
+    },
+    {
+      name: 'Audit Log',
+      href: '/audit',
+      icon: History,
       adminOnly: false
+    },
+    {
+      name: 'Recycle Bin',
+      href: '/recycle-bin',
+      icon: Trash,
+      adminOnly: true
     }
   ];
 
@@ -78,7 +137,7 @@ export const Navigation = () => {
     adminOnly: false
   };
 
-  const filteredMainNavItems = mainNavItems.filter(item => !item.adminOnly);
+  const filteredMainNavItems = mainNavItems.filter(item => !item.adminOnly || organisationMember?.role === 'admin');
 
   return (
     <nav className="bg-white shadow-sm border-r h-screen flex flex-col w-64 duration-300">
@@ -121,6 +180,11 @@ export const Navigation = () => {
                 >
                   <Icon className="h-5 w-5 mr-3" />
                   <span>{item.name}</span>
+                  {item.badge > 0 && (
+                    <span className="ml-auto px-2 py-0.5 rounded-full text-xs font-medium bg-[#7030a0] text-white">
+                      {item.badge}
+                    </span>
+                  )}
                 </Link>
               </li>
             );
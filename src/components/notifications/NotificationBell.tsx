@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { useNotifications, Notification } from '@/hooks/useNotifications';
+
+export const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Deleted records have nothing left to link to
+  const getLink = (notification: Notification) => {
+    if (notification.type === 'evidence_pack') return '/evidence-packs';
+    if (!notification.record_id || notification.action === 'deleted') return null;
+    if (notification.type === 'compliance_record' || notification.type === 'review_reminder') {
+      return `/?record=${notification.record_id}`;
+    }
+    if (notification.type === 'complaint_reminder') {
+      return `/complaints?complaint=${notification.record_id}`;
+    }
+    return null;
+  };
+
+  const handleClick = (notification: Notification) => {
+    if (!notification.is_read) {
+      markAsRead(notification.id);
+    }
+    const link = getLink(notification);
+    if (link) {
+      setIsOpen(false);
+      navigate(link);
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative h-9 w-9 p-0" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-[#ED1878] text-white text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="font-semibold text-gray-900">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={markAllAsRead} className="text-xs h-7">
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-gray-500">
+              You're all caught up.
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleClick(notification)}
+                    className={cn(
+                      "w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors",
+                      !notification.is_read && "bg-purple-50/50"
+                    )}
+                  >
+                    <div className="flex items-start">
+                      <span
+                        className={cn(
+                          "mt-1.5 mr-3 h-2 w-2 rounded-full shrink-0",
+                          notification.is_read ? "bg-transparent" : "bg-[#7030a0]"
+                        )}
+                      />
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900">{notification.title}</div>
+                        <div className="text-sm text-gray-600 break-words">{notification.message}</div>
+                        <div className="text-xs text-gray-400 mt-1">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </div>
+                      </div>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useState, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { SCOPE_PRODUCT_TYPES, SCOPE_STATUSES, ScopeItem } from '@/lib/scope';
+import {
+  SCOPE_IMPORT_ACCEPT,
+  ParsedScopeFile,
+  ScopeImportChange,
+  parseScopeFile,
+  validateScopeRows,
+} from '@/lib/scopeImport';
+
+interface ImportScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  rtoId: string;
+  existingItems: ScopeItem[];
+}
+
+const CHANGE_LABELS: Record<ScopeImportChange, string> = {
+  new: 'New',
+  updated: 'Updated',
+  unchanged: 'No change',
+};
+
+// training.gov.au shows RTO codes without leading zeros in some places
+const sameRto = (a: string, b: string) =>
+  a.trim().replace(/^0+/, '') === b.trim().replace(/^0+/, '');
+
+export const ImportScopeDialog = ({ open, onOpenChange, onSuccess, rtoId, existingItems }: ImportScopeDialogProps) => {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedScopeFile | null>(null);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const validatedRows = useMemo(
+    () => (parsed ? validateScopeRows(parsed.rows, existingItems) : []),
+    [parsed, existingItems]
+  );
+
+  const wrongRto = !!parsed?.rtoCode && !sameRto(parsed.rtoCode, rtoId);
+  const errorCount = validatedRows.filter(row => row.errors.length > 0).length;
+  const changedRows = validatedRows.filter(row => row.change !== 'unchanged');
+  const visibleRows = showErrorsOnly ? validatedRows.filter(row => row.errors.length > 0) : validatedRows;
+
+  const reset = () => {
+    setFileName('');
+    setParsed(null);
+    setShowErrorsOnly(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      setParsed(await parseScopeFile(file));
+      setFileName(file.name);
+    } catch (error) {
+      console.error('Error reading scope file:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive",
+      });
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('import_scope_items', {
+        p_items: changedRows.map(row => ({ ...row.item })),
+      });
+
+      if (error) throw error;
+
+      const { added, updated } = data as { added: number; updated: number };
+      toast({
+        title: "Success",
+        description: `${added} added and ${updated} updated from ${fileName}`,
+      });
+
+      onSuccess();
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error importing scope of registration:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import scope of registration",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle>
+              Import Scope of Registration
+              {parsed && <span className="ml-2 text-sm font-normal text-gray-500">{fileName}</span>}
+            </DialogTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleOpenChange(false)}
+              className="h-6 w-6 p-0"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {!parsed && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Export the scope of registration for RTO {rtoId} from training.gov.au as CSV or XML and upload it here.
+              Products already on your register are updated; products missing from the file are left as they are.
+            </p>
+            <div>
+              <Label htmlFor="scopeFile">File</Label>
+              <Input
+                id="scopeFile"
+                type="file"
+                accept={SCOPE_IMPORT_ACCEPT}
+                onChange={handleFileChange}
+                disabled={parsing}
+              />
+              {parsing && <p className="text-sm text-gray-500 mt-1">Reading file...</p>}
+            </div>
+          </div>
+        )}
+
+        {parsed && (
+          <div className="space-y-4 min-h-0 flex flex-col">
+            <div className="flex items-center justify-between">
+              {wrongRto ? (
+                <div className="flex items-center text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  This file is for RTO {parsed.rtoCode}, but your organisation is RTO {rtoId}.
+                </div>
+              ) : errorCount === 0 ? (
+                <div className="flex items-center text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {validatedRows.filter(row => row.change === 'new').length} new,{' '}
+                  {validatedRows.filter(row => row.change === 'updated').length} updated and{' '}
+                  {validatedRows.filter(row => row.change === 'unchanged').length} unchanged.
+                </div>
+              ) : (
+                <div className="flex items-center text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  {errorCount} of {validatedRows.length} products have errors. Nothing is imported until every product is valid.
+                </div>
+              )}
+              {errorCount > 0 && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setShowErrorsOnly(!showErrorsOnly)}>
+                  {showErrorsOnly ? 'Show all products' : 'Show errors only'}
+                </Button>
+              )}
+            </div>
+
+            <div className="flex-1 min-h-0 max-h-[50vh] overflow-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Code</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Title</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Type</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Status</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Transition Ends</th>
+                    <th className="text-left py-2 px-3 font-medium text-gray-500">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.map((row) => (
+                    <tr key={row.rowNumber} className={`border-b align-top ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="py-2 px-3 text-gray-700">{row.item.code || row.values.code}</td>
+                      <td className="py-2 px-3 text-gray-700">{row.values.title}</td>
+                      <td className="py-2 px-3 text-gray-700">{SCOPE_PRODUCT_TYPES[row.item.product_type]}</td>
+                      <td className="py-2 px-3 text-gray-700">{SCOPE_STATUSES[row.item.status]}</td>
+                      <td className="py-2 px-3 text-gray-700">{row.item.transition_ends_on || '—'}</td>
+                      <td className="py-2 px-3">
+                        {row.errors.length === 0 ? (
+                          <span className={row.change === 'unchanged' ? 'text-gray-400' : 'text-green-700'}>
+                            {CHANGE_LABELS[row.change]}
+                          </span>
+                        ) : (
+                          <ul className="text-red-700 space-y-0.5">
+                            {row.errors.map((error, index) => (
+                              <li key={index}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          {!parsed ? (
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={reset}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={loading || wrongRto || errorCount > 0 || changedRows.length === 0}>
+                {loading ? 'Importing...' : `Import ${changedRows.length} Change${changedRows.length === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
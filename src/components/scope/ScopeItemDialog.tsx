@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  SCOPE_PRODUCT_TYPES,
+  SCOPE_STATUSES,
+  ScopeItem,
+  ScopeProductType,
+  ScopeStatus,
+  inferProductType,
+  normaliseCode,
+} from '@/lib/scope';
+
+interface ScopeItemDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  rtoId: string;
+  // The item being edited, or null to add one
+  item: ScopeItem | null;
+}
+
+interface DateFieldProps {
+  label: string;
+  value: Date | undefined;
+  onChange: (date: Date | undefined) => void;
+}
+
+const DateField = ({ label, value, onChange }: DateFieldProps) => (
+  <div>
+    <Label>{label}</Label>
+    <div className="flex items-center gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant={"outline"}
+            className={cn(
+              "w-full justify-start text-left font-normal",
+              !value && "text-muted-foreground"
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : <span>Pick a date</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" title="Clear" onClick={() => onChange(undefined)}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+export const ScopeItemDialog = ({ open, onOpenChange, onSuccess, rtoId, item }: ScopeItemDialogProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [title, setTitle] = useState('');
+  const [productType, setProductType] = useState<ScopeProductType>('unit');
+  const [productTypeChosen, setProductTypeChosen] = useState(false);
+  const [status, setStatus] = useState<ScopeStatus>('current');
+  const [supersededBy, setSupersededBy] = useState('');
+  const [transitionEndsOn, setTransitionEndsOn] = useState<Date>();
+  const [onScopeFrom, setOnScopeFrom] = useState<Date>();
+  const [extent, setExtent] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCode(item?.code || '');
+    setTitle(item?.title || '');
+    setProductType(item?.product_type || 'unit');
+    setProductTypeChosen(!!item);
+    setStatus(item?.status || 'current');
+    setSupersededBy(item?.superseded_by || '');
+    setTransitionEndsOn(item?.transition_ends_on ? parseISO(item.transition_ends_on) : undefined);
+    setOnScopeFrom(item?.on_scope_from ? parseISO(item.on_scope_from) : undefined);
+    setExtent(item?.extent || '');
+    setNotes(item?.notes || '');
+  }, [open, item]);
+
+  // Fill the type in from the code until it's picked by hand
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+    if (!productTypeChosen && value.trim()) {
+      setProductType(inferProductType(value));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organisationMember?.organisation_id) return;
+
+    setLoading(true);
+    try {
+      const values = {
+        code: normaliseCode(code),
+        title: title.trim(),
+        product_type: productType,
+        status,
+        superseded_by: status === 'current' ? null : normaliseCode(supersededBy) || null,
+        transition_ends_on: status === 'current' || !transitionEndsOn ? null : format(transitionEndsOn, 'yyyy-MM-dd'),
+        on_scope_from: onScopeFrom ? format(onScopeFrom, 'yyyy-MM-dd') : null,
+        extent: extent.trim() || null,
+        notes: notes.trim() || null,
+      };
+
+      const { error } = item
+        ? await supabase
+          .from('scope_items')
+          .update(values)
+          .eq('id', item.id)
+        : await supabase
+          .from('scope_items')
+          .insert({
+            ...values,
+            organisation_id: organisationMember.organisation_id,
+            rto_id: rtoId,
+            created_by: organisationMember.id,
+          });
+
+      if (error) {
+        throw new Error(error.code === '23505'
+          ? `${values.code} is already on your scope of registration`
+          : `Database error: ${error.message}`);
+      }
+
+      toast({
+        title: "Success",
+        description: item ? `${values.code} updated` : `${values.code} added to scope`,
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving scope item:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save scope item",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const needsDeadline = status === 'teach_out' && !transitionEndsOn;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item ? `Edit ${item.code}` : 'Add to Scope of Registration'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="scopeCode">Code</Label>
+              <Input
+                id="scopeCode"
+                placeholder="e.g. BSB40120"
+                value={code}
+                onChange={(e) => handleCodeChange(e.target.value)}
+                required
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="scopeTitle">Title</Label>
+              <Input
+                id="scopeTitle"
+                placeholder="e.g. Certificate IV in Business"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={productType}
+                onValueChange={(value) => {
+                  setProductType(value as ScopeProductType);
+                  setProductTypeChosen(true);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_PRODUCT_TYPES) as ScopeProductType[]).map((key) => (
+                    <SelectItem key={key} value={key}>{SCOPE_PRODUCT_TYPES[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as ScopeStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SCOPE_STATUSES) as ScopeStatus[]).map((key) => (
+                    <SelectItem key={key} value={key}>{SCOPE_STATUSES[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {status !== 'current' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="scopeSupersededBy">Superseded By</Label>
+                <Input
+                  id="scopeSupersededBy"
+                  placeholder="Code of the replacement, if any"
+                  value={supersededBy}
+                  onChange={(e) => setSupersededBy(e.target.value)}
+                />
+              </div>
+              <div>
+                <DateField label="Transition Ends" value={transitionEndsOn} onChange={setTransitionEndsOn} />
+                {needsDeadline && (
+                  <p className="text-xs text-red-600 mt-1">A teach-out needs the date delivery must finish by.</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <DateField label="On Scope From" value={onScopeFrom} onChange={setOnScopeFrom} />
+            <div>
+              <Label htmlFor="scopeExtent">Extent</Label>
+              <Input
+                id="scopeExtent"
+                placeholder="e.g. Deliver and assess"
+                value={extent}
+                onChange={(e) => setExtent(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="scopeNotes">Notes</Label>
+            <Textarea
+              id="scopeNotes"
+              placeholder="e.g. transition plan, delivery sites"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !code.trim() || !title.trim() || needsDeadline}>
+              {loading ? 'Saving...' : item ? 'Save Changes' : 'Add to Scope'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
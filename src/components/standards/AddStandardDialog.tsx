@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,20 +9,36 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { StandardHierarchyFields } from './StandardHierarchyFields';
+import { Standard, getChildLevel } from '@/lib/standards';
 
 interface AddStandardDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
+  standards: Standard[];
+  defaultParentId?: string | null;
 }
 
-export const AddStandardDialog = ({ open, onOpenChange, onSuccess }: AddStandardDialogProps) => {
+export const AddStandardDialog = ({ open, onOpenChange, onSuccess, standards, defaultParentId = null }: AddStandardDialogProps) => {
   const { organisationMember } = useAuth();
   const { toast } = useToast();
   const [standardClause, setStandardClause] = useState('');
   const [standardDescription, setStandardDescription] = useState('');
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [level, setLevel] = useState('clause');
   const [loading, setLoading] = useState(false);
 
+  // "Add child" opens the dialog with the parent already chosen
+  useEffect(() => {
+    if (open) {
+      setParentId(defaultParentId);
+      setLevel(defaultParentId
+        ? getChildLevel(standards.find(standard => standard.id === defaultParentId)?.level)
+        : 'standard');
+    }
+  }, [open, defaultParentId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!organisationMember?.organisation_id) return;
@@ -34,6 +50,8 @@ export const AddStandardDialog = ({ open, onOpenChange, onSuccess }: AddStandard
         .insert({
           standard_clause: standardClause,
           standard_description: standardDescription,
+          parent_id: parentId,
+          level,
           organisation_id: organisationMember.organisation_id
         });
 
@@ -52,7 +70,7 @@ export const AddStandardDialog = ({ open, onOpenChange, onSuccess }: AddStandard
       console.error('Error creating standard:', error);
       toast({
         title: "Error",
-        description: "Failed to create standard",
+        description: error instanceof Error ? error.message : "Failed to create standard",
         variant: "destructive",
       });
     } finally {
@@ -100,6 +118,14 @@ export const AddStandardDialog = ({ open, onOpenChange, onSuccess }: AddStandard
               required
             />
           </div>
+
+          <StandardHierarchyFields
+            standards={standards}
+            parentId={parentId}
+            level={level}
+            onParentChange={setParentId}
+            onLevelChange={setLevel}
+          />
           
           <div className="flex justify-end space-x-2 pt-4">
             <Button
@@ -1,42 +1,51 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RecordHistory } from '@/components/audit/RecordHistory';
 import { X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-
-interface Standard {
-  id: string;
-  standard_clause: string;
-  standard_description: string;
-}
+import { StandardHierarchyFields } from './StandardHierarchyFields';
+import { Standard, getDescendantIds } from '@/lib/standards';
 
 interface EditStandardDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
   standard: Standard | null;
+  standards: Standard[];
 }
 
-export const EditStandardDialog = ({ open, onOpenChange, onSuccess, standard }: EditStandardDialogProps) => {
+export const EditStandardDialog = ({ open, onOpenChange, onSuccess, standard, standards }: EditStandardDialogProps) => {
   const { organisationMember } = useAuth();
   const { toast } = useToast();
   const [standardClause, setStandardClause] = useState('');
   const [standardDescription, setStandardDescription] = useState('');
+  const [parentId, setParentId] = useState<string | null>(null);
+  const [level, setLevel] = useState('clause');
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     if (standard) {
       setStandardClause(standard.standard_clause);
       setStandardDescription(standard.standard_description);
+      setParentId(standard.parent_id);
+      setLevel(standard.level);
     }
   }, [standard]);
 
+  // A standard can't be moved under itself or anything nested beneath it
+  const excludedParentIds = useMemo(
+    () => standard ? getDescendantIds(standards, standard.id) : new Set<string>(),
+    [standards, standard]
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!organisationMember?.organisation_id || !standard) return;
@@ -48,6 +57,8 @@ export const EditStandardDialog = ({ open, onOpenChange, onSuccess, standard }:
         .update({
           standard_clause: standardClause,
           standard_description: standardDescription,
+          parent_id: parentId,
+          level,
         })
         .eq('id', standard.id);
 
@@ -65,7 +76,7 @@ export const EditStandardDialog = ({ open, onOpenChange, onSuccess, standard }:
       console.error('Error updating standard:', error);
       toast({
         title: "Error",
-        description: "Failed to update standard",
+        description: error instanceof Error ? error.message : "Failed to update standard",
         variant: "destructive",
       });
     } finally {
@@ -76,11 +87,13 @@ export const EditStandardDialog = ({ open, onOpenChange, onSuccess, standard }:
   const resetForm = () => {
     setStandardClause('');
     setStandardDescription('');
+    setParentId(null);
+    setLevel('clause');
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-center justify-between">
             <DialogTitle>Edit Standard</DialogTitle>
@@ -95,46 +108,68 @@ export const EditStandardDialog = ({ open, onOpenChange, onSuccess, standard }:
           </div>
         </DialogHeader>
         
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <Label htmlFor="standardClause">Standard Clause</Label>
-            <Input
-              id="standardClause"
-              placeholder="Enter standard clause"
-              value={standardClause}
-              onChange={(e) => setStandardClause(e.target.value)}
-              required
-            />
-          </div>
+        <Tabs defaultValue="details">
+          <TabsList className="mb-2">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="standardClause">Standard Clause</Label>
+                <Input
+                  id="standardClause"
+                  placeholder="Enter standard clause"
+                  value={standardClause}
+                  onChange={(e) => setStandardClause(e.target.value)}
+                  required
+                />
+              </div>
           
-          <div>
-            <Label htmlFor="standardDescription">Standard Description</Label>
-            <Textarea
-              id="standardDescription"
-              placeholder="Enter standard description"
-              value={standardDescription}
-              onChange={(e) => setStandardDescription(e.target.value)}
-              rows={4}
-              required
-            />
-          </div>
+              <div>
+                <Label htmlFor="standardDescription">Standard Description</Label>
+                <Textarea
+                  id="standardDescription"
+                  placeholder="Enter standard description"
+                  value={standardDescription}
+                  onChange={(e) => setStandardDescription(e.target.value)}
+                  rows={4}
+                  required
+                />
+              </div>
+
+              <StandardHierarchyFields
+                standards={standards}
+                excludeIds={excludedParentIds}
+                parentId={parentId}
+                level={level}
+                onParentChange={setParentId}
+                onLevelChange={setLevel}
+              />
           
-          <div className="flex justify-end space-x-2 pt-4">
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => onOpenChange(false)}
-            >
-              Cancel
-            </Button>
-            <Button
-              type="submit"
-              disabled={loading}
-            >
-              {loading ? 'Updating...' : 'Update Standard'}
-            </Button>
-          </div>
-        </form>
+              <div className="flex justify-end space-x-2 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={loading}
+                >
+                  {loading ? 'Updating...' : 'Update Standard'}
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {standard && <RecordHistory tableName="standards" recordId={standard.id} />}
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
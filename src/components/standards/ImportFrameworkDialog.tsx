@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { FRAMEWORKS, FlatFrameworkItem, flattenFramework } from '@/lib/frameworks';
+import { STANDARD_LEVELS, Standard, StandardLevel } from '@/lib/standards';
+
+interface ImportFrameworkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  standards: Standard[];
+}
+
+export const ImportFrameworkDialog = ({ open, onOpenChange, onSuccess, standards }: ImportFrameworkDialogProps) => {
+  const { toast } = useToast();
+  const [frameworkCode, setFrameworkCode] = useState(FRAMEWORKS[0].code);
+  const [selectedClauses, setSelectedClauses] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+
+  const framework = FRAMEWORKS.find(f => f.code === frameworkCode) || FRAMEWORKS[0];
+  const items = useMemo(() => flattenFramework(framework.standards), [framework]);
+
+  const importedClauses = useMemo(
+    () => new Set(standards.filter(s => s.framework === framework.code).map(s => s.standard_clause)),
+    [standards, framework]
+  );
+
+  // Everything not already in the organisation starts selected
+  useEffect(() => {
+    if (open) {
+      setSelectedClauses(new Set(items.filter(item => !importedClauses.has(item.clause)).map(item => item.clause)));
+    }
+  }, [open, items, importedClauses]);
+
+  const getDescendants = (clause: string): string[] =>
+    items.filter(item => item.parent_clause === clause).flatMap(item => [item.clause, ...getDescendants(item.clause)]);
+
+  const getAncestors = (item: FlatFrameworkItem): string[] => {
+    const parent = items.find(i => i.clause === item.parent_clause);
+    return parent ? [parent.clause, ...getAncestors(parent)] : [];
+  };
+
+  // Selecting a clause brings in its parents so it can be placed in the tree;
+  // deselecting one drops everything beneath it
+  const toggleItem = (item: FlatFrameworkItem, checked: boolean) => {
+    setSelectedClauses(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        [item.clause, ...getDescendants(item.clause), ...getAncestors(item)]
+          .filter(clause => !importedClauses.has(clause))
+          .forEach(clause => next.add(clause));
+      } else {
+        [item.clause, ...getDescendants(item.clause)].forEach(clause => next.delete(clause));
+      }
+      return next;
+    });
+  };
+
+  const availableCount = items.filter(item => !importedClauses.has(item.clause)).length;
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('import_framework_standards', {
+        p_framework: framework.code,
+        p_version: framework.version,
+        p_standards: items
+          .filter(item => selectedClauses.has(item.clause))
+          .map(({ clause, level, description, parent_clause }) => ({ clause, level, description, parent_clause })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${data} standard${data === 1 ? '' : 's'} imported from ${framework.name}`,
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing framework:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import framework",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle>Import Framework</DialogTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onOpenChange(false)}
+              className="h-6 w-6 p-0"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-4 min-h-0 flex flex-col">
+          <div>
+            <Label htmlFor="framework">Framework</Label>
+            <Select value={frameworkCode} onValueChange={setFrameworkCode}>
+              <SelectTrigger id="framework">
+                <SelectValue placeholder="Select framework" />
+              </SelectTrigger>
+              <SelectContent>
+                {FRAMEWORKS.map((f) => (
+                  <SelectItem key={f.code} value={f.code}>{f.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              {framework.source} · Library version {framework.version}
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-600">
+              {selectedClauses.size} of {availableCount} available clause{availableCount === 1 ? '' : 's'} selected
+            </span>
+            <div className="space-x-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedClauses(new Set(items.filter(item => !importedClauses.has(item.clause)).map(item => item.clause)))}
+              >
+                Select all
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedClauses(new Set())}>
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex-1 min-h-0 max-h-[50vh] overflow-y-auto border rounded-md divide-y">
+            {items.map((item) => {
+              const imported = importedClauses.has(item.clause);
+              return (
+                <label
+                  key={item.clause}
+                  className="flex items-start gap-3 p-2 text-sm hover:bg-gray-50 cursor-pointer"
+                  style={{ paddingLeft: `${8 + item.depth * 20}px` }}
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={imported || selectedClauses.has(item.clause)}
+                    disabled={imported}
+                    onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                  />
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {item.clause}
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {STANDARD_LEVELS[item.level as StandardLevel] || item.level}
+                      </span>
+                      {imported && <span className="ml-2 text-xs font-normal text-gray-500">Already added</span>}
+                    </div>
+                    <div className="text-gray-600">{item.description}</div>
+                  </div>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={loading || selectedClauses.size === 0}
+          >
+            {loading ? 'Importing...' : `Import ${selectedClauses.size} Standard${selectedClauses.size === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  STANDARD_LEVELS,
+  Standard,
+  buildStandardTree,
+  flattenStandardTree,
+  getChildLevel,
+} from '@/lib/standards';
+
+// Radix Select doesn't accept an empty value, so "no parent" needs a placeholder id
+const NO_PARENT = 'none';
+
+interface StandardHierarchyFieldsProps {
+  standards: Standard[];
+  excludeIds?: Set<string>;
+  parentId: string | null;
+  level: string;
+  onParentChange: (parentId: string | null) => void;
+  onLevelChange: (level: string) => void;
+}
+
+// Parent and level pickers shared by the add and edit standard dialogs. Choosing
+// a parent moves the level one step below it, which the user can still override.
+export const StandardHierarchyFields = ({
+  standards,
+  excludeIds,
+  parentId,
+  level,
+  onParentChange,
+  onLevelChange,
+}: StandardHierarchyFieldsProps) => {
+  const parentOptions = flattenStandardTree(
+    buildStandardTree(standards.filter(standard => !excludeIds?.has(standard.id)))
+  );
+
+  const handleParentChange = (value: string) => {
+    const newParentId = value === NO_PARENT ? null : value;
+    onParentChange(newParentId);
+    if (newParentId) {
+      onLevelChange(getChildLevel(standards.find(standard => standard.id === newParentId)?.level));
+    }
+  };
+
+  return (
+    <>
+      <div>
+        <Label htmlFor="parentStandard">Parent</Label>
+        <Select value={parentId || NO_PARENT} onValueChange={handleParentChange}>
+          <SelectTrigger id="parentStandard">
+            <SelectValue placeholder="Select parent" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+            {parentOptions.map(({ standard, depth }) => (
+              <SelectItem key={standard.id} value={standard.id}>
+                <span style={{ paddingLeft: `${depth * 12}px` }}>
+                  {standard.standard_clause} - {standard.standard_description}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="standardLevel">Level</Label>
+        <Select value={level} onValueChange={onLevelChange}>
+          <SelectTrigger id="standardLevel">
+            <SelectValue placeholder="Select level" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STANDARD_LEVELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+};
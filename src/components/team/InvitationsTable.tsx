@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { getFunctionErrorMessage } from '@/lib/functions';
+import { Invitation, InvitationStatus, getInvitationStatus } from '@/lib/invitations';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface InvitationsTableProps {
+  invitations: Invitation[];
+  onChanged: () => void;
+}
+
+export const InvitationsTable = ({ invitations, onChanged }: InvitationsTableProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const manageInvitation = async (invitation: Invitation, action: 'resend' | 'revoke') => {
+    if (!organisationMember?.organisation_id) return;
+
+    setBusyId(invitation.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('send-invitation', {
+        body: {
+          action,
+          invitationId: invitation.id,
+          organisationId: organisationMember.organisation_id,
+        }
+      });
+
+      if (error) throw error;
+
+      if (action === 'revoke') {
+        toast({
+          title: "Success",
+          description: `Invitation for ${invitation.email} revoked`,
+        });
+      } else if (data?.emailSent) {
+        toast({
+          title: "Success",
+          description: `Invitation resent to ${invitation.email}`,
+        });
+      } else if (data?.invitationUrl) {
+        toast({
+          title: "Invitation renewed",
+          description: `Email is not configured. Share this link with ${invitation.email}: ${data.invitationUrl}`,
+        });
+      }
+
+      onChanged();
+    } catch (error) {
+      console.error(`Error trying to ${action} invitation:`, error);
+      toast({
+        title: "Error",
+        description: await getFunctionErrorMessage(error, `Failed to ${action} invitation`),
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const getStatusBadge = (status: InvitationStatus) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (status) {
+      case 'Pending':
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+      case 'Expired':
+        return `${baseClasses} bg-red-100 text-red-800`;
+      case 'Accepted':
+        return `${baseClasses} bg-green-100 text-green-800`;
+    }
+  };
+
+  if (invitations.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        No invitations have been sent yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left py-3 px-4 font-medium text-gray-500">Email</th>
+            <th className="text-left py-3 px-4 font-medium text-gray-500">Invited By</th>
+            <th className="text-left py-3 px-4 font-medium text-gray-500">Sent</th>
+            <th className="text-left py-3 px-4 font-medium text-gray-500">Expires</th>
+            <th className="text-left py-3 px-4 font-medium text-gray-500">Status</th>
+            <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {invitations.map((invitation) => {
+            const status = getInvitationStatus(invitation);
+            const isBusy = busyId === invitation.id;
+
+            return (
+              <tr key={invitation.id} className="border-b hover:bg-gray-50">
+                <td className="py-3 px-4 font-medium table-entry">{invitation.email}</td>
+                <td className="py-3 px-4 text-gray-600 table-entry">
+                  {invitation.inviter?.full_name || invitation.inviter?.email || 'Unknown'}
+                </td>
+                <td className="py-3 px-4 text-gray-600 table-entry">
+                  {/* Resending refreshes the row, so updated_at is when it was last sent */}
+                  {new Date(invitation.updated_at).toLocaleDateString()}
+                </td>
+                <td className="py-3 px-4 text-gray-600 table-entry">
+                  {status === 'Accepted' ? '-' : new Date(invitation.expires_at).toLocaleDateString()}
+                </td>
+                <td className="py-3 px-4 table-entry">
+                  <span className={getStatusBadge(status)}>{status}</span>
+                </td>
+                <td className="py-3 px-4 table-entry">
+                  {status !== 'Accepted' && (
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy}
+                        onClick={() => manageInvitation(invitation, 'resend')}
+                      >
+                        <RefreshCw className="h-4 w-4 mr-1" />
+                        Resend
+                      </Button>
+
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700" disabled={isBusy}>
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Revoke
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke this invitation?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The invitation link sent to {invitation.email} will stop working. You can invite them again later.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => manageInvitation(invitation, 'revoke')}>
+                              Revoke
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
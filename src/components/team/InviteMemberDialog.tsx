@@ -8,8 +8,14 @@ import { Plus } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/functions';
 
-export const InviteMemberDialog = () => {
+interface InviteMemberDialogProps {
+  organisationName?: string;
+  onInvited?: () => void;
+}
+
+export const InviteMemberDialog = ({ organisationName, onInvited }: InviteMemberDialogProps) => {
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
@@ -43,7 +49,7 @@ export const InviteMemberDialog = () => {
         body: {
           email,
           organisationId: organisationMember.organisation_id,
-          organisationName: 'Your Organisation' // You can get this from context if needed
+          organisationName
         }
       });
 
@@ -51,27 +57,27 @@ export const InviteMemberDialog = () => {
         throw error;
       }
 
-      toast({
-        title: "Success",
-        description: `Invitation sent to ${email}`,
-      });
-
-      // For demo purposes, show the invitation URL
-      if (data?.invitationUrl) {
-        console.log("Invitation URL:", data.invitationUrl);
+      if (data?.emailSent) {
+        toast({
+          title: "Success",
+          description: `Invitation sent to ${email}`,
+        });
+      } else if (data?.invitationUrl) {
+        // Email isn't configured for this environment, so the admin shares the link themselves
         toast({
-          title: "Demo Mode",
-          description: `Copy this URL to test: ${data.invitationUrl}`,
+          title: "Invitation created",
+          description: `Email is not configured. Share this link with ${email}: ${data.invitationUrl}`,
         });
       }
 
       setEmail('');
       setIsOpen(false);
-    } catch (error: any) {
+      onInvited?.();
+    } catch (error) {
       console.error('Error sending invitation:', error);
       toast({
         title: "Error",
-        description: error.message || "Failed to send invitation",
+        description: await getFunctionErrorMessage(error, "Failed to send invitation"),
         variant: "destructive",
       });
     } finally {
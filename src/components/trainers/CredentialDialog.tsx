@@ -0,0 +1,332 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarIcon, FileText, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CREDENTIAL_TYPES,
+  CredentialType,
+  TrainerCredential,
+  normaliseUnitCode,
+  removeCertificate,
+  uploadCertificate,
+} from '@/lib/trainerCredentials';
+
+interface CredentialDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  // The trainer the credential belongs to
+  memberId: string;
+  memberName: string;
+  // The credential being edited, or null to add one
+  credential: TrainerCredential | null;
+}
+
+interface DateFieldProps {
+  label: string;
+  value: Date | undefined;
+  onChange: (date: Date | undefined) => void;
+  placeholder: string;
+}
+
+const DateField = ({ label, value, onChange, placeholder }: DateFieldProps) => (
+  <div>
+    <Label>{label}</Label>
+    <div className="flex items-center gap-1">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant={"outline"}
+            className={cn(
+              "w-full justify-start text-left font-normal",
+              !value && "text-muted-foreground"
+            )}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : <span>{placeholder}</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button type="button" variant="ghost" size="sm" className="h-8 w-8 p-0" title="Clear" onClick={() => onChange(undefined)}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+const parseUnitCodes = (value: string) =>
+  Array.from(new Set(value.split(/[\s,;]+/).map(normaliseUnitCode).filter(Boolean)));
+
+export const CredentialDialog = ({ open, onOpenChange, onSuccess, memberId, memberName, credential }: CredentialDialogProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [credentialType, setCredentialType] = useState<CredentialType>('tae_qualification');
+  const [title, setTitle] = useState('');
+  const [code, setCode] = useState('');
+  const [issuer, setIssuer] = useState('');
+  const [achievedOn, setAchievedOn] = useState<Date>();
+  const [expiresOn, setExpiresOn] = useState<Date>();
+  const [unitCodes, setUnitCodes] = useState('');
+  const [notes, setNotes] = useState('');
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [removeExisting, setRemoveExisting] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCredentialType(credential?.credential_type || 'tae_qualification');
+    setTitle(credential?.title || '');
+    setCode(credential?.code || '');
+    setIssuer(credential?.issuer || '');
+    setAchievedOn(credential?.achieved_on ? parseISO(credential.achieved_on) : undefined);
+    setExpiresOn(credential?.expires_on ? parseISO(credential.expires_on) : undefined);
+    setUnitCodes(credential?.unit_codes.join(', ') || '');
+    setNotes(credential?.notes || '');
+    setCertificateFile(null);
+    setRemoveExisting(false);
+  }, [open, credential]);
+
+  const isCurrency = credentialType === 'industry_currency';
+  const coversUnits = credentialType === 'vocational_competency' || isCurrency;
+  const existingCertificate = credential?.certificate_path && !removeExisting ? credential.certificate_name : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organisationMember?.organisation_id) return;
+
+    setLoading(true);
+    let uploaded: Awaited<ReturnType<typeof uploadCertificate>> | null = null;
+    try {
+      if (achievedOn && expiresOn && expiresOn < achievedOn) {
+        throw new Error('The expiry date cannot be before the date it was achieved');
+      }
+
+      if (certificateFile) {
+        uploaded = await uploadCertificate(certificateFile, organisationMember.organisation_id, memberId);
+      }
+
+      const certificate = uploaded || (removeExisting ? {
+        certificate_name: null,
+        certificate_path: null,
+        certificate_mime_type: null,
+        certificate_size_bytes: null,
+      } : {});
+
+      const values = {
+        credential_type: credentialType,
+        title: title.trim(),
+        code: code.trim() || null,
+        issuer: issuer.trim() || null,
+        achieved_on: achievedOn ? format(achievedOn, 'yyyy-MM-dd') : null,
+        expires_on: expiresOn ? format(expiresOn, 'yyyy-MM-dd') : null,
+        unit_codes: coversUnits ? parseUnitCodes(unitCodes) : [],
+        notes: notes.trim() || null,
+        ...certificate,
+      };
+
+      const { error } = credential
+        ? await supabase
+          .from('trainer_credentials')
+          .update(values)
+          .eq('id', credential.id)
+        : await supabase
+          .from('trainer_credentials')
+          .insert({
+            ...values,
+            organisation_id: organisationMember.organisation_id,
+            member_id: memberId,
+            created_by: organisationMember.id,
+          });
+
+      if (error) throw new Error(`Database error: ${error.message}`);
+
+      // Only drop the old certificate once the row no longer points at it
+      if (credential?.certificate_path && (uploaded || removeExisting)) {
+        await removeCertificate(credential.certificate_path);
+      }
+
+      toast({
+        title: "Success",
+        description: credential ? "Credential updated" : "Credential added",
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      if (uploaded) {
+        await removeCertificate(uploaded.certificate_path);
+      }
+      console.error('Error saving credential:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save credential",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{credential ? 'Edit Credential' : 'Add Credential'} for {memberName}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>Credential Type</Label>
+            <Select value={credentialType} onValueChange={(value) => setCredentialType(value as CredentialType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CREDENTIAL_TYPES) as CredentialType[]).map((key) => (
+                  <SelectItem key={key} value={key}>{CREDENTIAL_TYPES[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="credentialTitle">{isCurrency ? 'Activity' : 'Title'}</Label>
+              <Input
+                id="credentialTitle"
+                placeholder={isCurrency
+                  ? 'e.g. 40 hours on site with an industry employer'
+                  : 'e.g. Certificate IV in Training and Assessment'}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="credentialCode">Code</Label>
+              <Input
+                id="credentialCode"
+                placeholder={isCurrency ? 'Optional' : 'e.g. TAE40122'}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="credentialIssuer">{isCurrency ? 'Provider or Host' : 'Issued By'}</Label>
+            <Input
+              id="credentialIssuer"
+              placeholder="Optional"
+              value={issuer}
+              onChange={(e) => setIssuer(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <DateField
+              label={isCurrency ? 'Activity Date' : 'Achieved On'}
+              value={achievedOn}
+              onChange={setAchievedOn}
+              placeholder="Pick a date"
+            />
+            <DateField
+              label={isCurrency ? 'Counts Until' : 'Expires On'}
+              value={expiresOn}
+              onChange={setExpiresOn}
+              placeholder="Does not expire"
+            />
+          </div>
+
+          {coversUnits && (
+            <div>
+              <Label htmlFor="credentialUnits">Units Covered</Label>
+              <Input
+                id="credentialUnits"
+                placeholder="e.g. BSBWHS211, BSBOPS304"
+                value={unitCodes}
+                onChange={(e) => setUnitCodes(e.target.value)}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Separate unit codes with commas. Leave blank if it covers every unit {memberName} delivers.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <Label htmlFor="credentialNotes">Notes</Label>
+            <Textarea
+              id="credentialNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="certificate">Certificate</Label>
+            {existingCertificate && !certificateFile && (
+              <div className="flex items-center justify-between p-2 mb-2 bg-gray-50 rounded-md">
+                <span className="flex items-center text-sm text-gray-700 truncate">
+                  <FileText className="h-4 w-4 mr-2 text-gray-400" />
+                  {existingCertificate}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRemoveExisting(true)}
+                  className="text-red-500 hover:text-red-700 p-1 h-auto"
+                  title="Remove certificate"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            <Input
+              id="certificate"
+              type="file"
+              accept="application/pdf,image/*"
+              onChange={(e) => setCertificateFile(e.target.files?.[0] || null)}
+              className="file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-[#7030a0] file:text-white hover:file:bg-[#5e2680]"
+              style={{ height: '50px' }}
+            />
+            {existingCertificate && (
+              <p className="text-xs text-gray-500 mt-1">Choosing a file replaces the current certificate.</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !title.trim()}>
+              {loading ? 'Saving...' : credential ? 'Save Changes' : 'Add Credential'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
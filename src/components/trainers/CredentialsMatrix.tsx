@@ -0,0 +1,133 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  CREDENTIAL_STATUSES,
+  CREDENTIAL_TYPES,
+  CredentialStatus,
+  MATRIX_REQUIREMENTS,
+  MatrixCell,
+  MatrixRow,
+} from '@/lib/trainerCredentials';
+import { ScopeLookupItem } from '@/lib/scope';
+
+interface CredentialsMatrixProps {
+  rows: MatrixRow[];
+  // The RTO's scope of registration; units are only checked against it once it has been recorded
+  scopeItems: ScopeLookupItem[];
+  getMemberName: (memberId: string) => string;
+  onSelectTrainer: (memberId: string) => void;
+}
+
+const getStatusBadge = (status: CredentialStatus) => {
+  const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+  switch (status) {
+    case 'current':
+      return `${baseClasses} bg-green-100 text-green-800`;
+    case 'expiring':
+      return `${baseClasses} bg-yellow-100 text-yellow-800`;
+    default:
+      return `${baseClasses} bg-red-100 text-red-800`;
+  }
+};
+
+export const CredentialStatusBadge = ({ status }: { status: CredentialStatus }) => (
+  <span className={getStatusBadge(status)}>{CREDENTIAL_STATUSES[status]}</span>
+);
+
+// Flags a unit the RTO can't currently deliver, or can only deliver until its teach-out ends
+const ScopeNote = ({ unitCode, scopeItems }: { unitCode: string; scopeItems: ScopeLookupItem[] }) => {
+  if (scopeItems.length === 0) return null;
+  const scopeItem = scopeItems.find(item => item.code === unitCode);
+  if (!scopeItem) {
+    // Units delivered as part of a qualification, skill set or course on scope
+    // aren't listed on their own, so a missing unit only stands out when the
+    // scope is made up of units alone
+    const onlyUnits = scopeItems.every(item => item.product_type === 'unit');
+    return onlyUnits ? <div className="text-xs text-red-600 mt-1">Not on scope</div> : null;
+  }
+  if (scopeItem.status === 'superseded') {
+    return <div className="text-xs text-red-600 mt-1">Superseded on scope</div>;
+  }
+  if (scopeItem.status === 'teach_out' && scopeItem.transition_ends_on) {
+    return (
+      <div className="text-xs text-orange-600 mt-1">
+        Teach-out ends {format(parseISO(scopeItem.transition_ends_on), 'dd/MM/yyyy')}
+      </div>
+    );
+  }
+  return null;
+};
+
+const Cell = ({ cell }: { cell: MatrixCell }) => (
+  <div>
+    <CredentialStatusBadge status={cell.status} />
+    {cell.credential && (
+      <div className="text-xs text-gray-500 mt-1" title={cell.credential.title}>
+        {cell.credential.code || cell.credential.title}
+        {cell.credential.expires_on && ` · ${format(parseISO(cell.credential.expires_on), 'dd/MM/yyyy')}`}
+      </div>
+    )}
+  </div>
+);
+
+export const CredentialsMatrix = ({ rows, scopeItems, getMemberName, onSelectTrainer }: CredentialsMatrixProps) => (
+  <div className="overflow-x-auto">
+    <table className="w-full">
+      <thead>
+        <tr className="border-b">
+          <th className="text-left py-3 px-4 font-medium text-gray-500">Trainer</th>
+          <th className="text-left py-3 px-4 font-medium text-gray-500">Unit</th>
+          {MATRIX_REQUIREMENTS.map((requirement) => (
+            <th key={requirement} className="text-left py-3 px-4 font-medium text-gray-500">
+              {CREDENTIAL_TYPES[requirement]}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={`${row.memberId}-${row.unit?.id ?? 'none'}`} className="border-b hover:bg-gray-50 align-top">
+            <td className="py-3 px-4 table-entry">
+              <button
+                type="button"
+                className="font-medium text-left hover:text-[#7030a0] hover:underline"
+                onClick={() => onSelectTrainer(row.memberId)}
+              >
+                {getMemberName(row.memberId)}
+              </button>
+            </td>
+            <td className="py-3 px-4 table-entry">
+              {row.unit ? (
+                <>
+                  <div className="text-sm font-medium">{row.unit.unit_code}</div>
+                  {row.unit.unit_title && <div className="text-xs text-gray-500">{row.unit.unit_title}</div>}
+                  <ScopeNote unitCode={row.unit.unit_code} scopeItems={scopeItems} />
+                </>
+              ) : (
+                <span className="text-gray-400 text-sm">No units recorded</span>
+              )}
+            </td>
+            <td className="py-3 px-4 table-entry">
+              <Cell cell={row.cells.tae_qualification} />
+            </td>
+            {row.unit ? (
+              <>
+                <td className="py-3 px-4 table-entry">
+                  <Cell cell={row.cells.vocational_competency} />
+                </td>
+                <td className="py-3 px-4 table-entry">
+                  <Cell cell={row.cells.industry_currency} />
+                </td>
+              </>
+            ) : (
+              <>
+                <td className="py-3 px-4 text-gray-400 table-entry">—</td>
+                <td className="py-3 px-4 text-gray-400 table-entry">—</td>
+              </>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
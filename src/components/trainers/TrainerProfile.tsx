@@ -0,0 +1,348 @@
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Plus, Edit, Trash2, Download, X } from 'lucide-react';
+import { CredentialDialog } from '@/components/trainers/CredentialDialog';
+import { CredentialStatusBadge } from '@/components/trainers/CredentialsMatrix';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CREDENTIAL_TYPES,
+  TrainerCredential,
+  TrainerUnit,
+  getCertificateSignedUrl,
+  getCredentialStatus,
+  normaliseUnitCode,
+  removeCertificate,
+} from '@/lib/trainerCredentials';
+import { ScopeLookupItem } from '@/lib/scope';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface TrainerProfileProps {
+  memberId: string;
+  memberName: string;
+  units: TrainerUnit[];
+  credentials: TrainerCredential[];
+  // Used to fill in unit titles from the scope of registration
+  scopeItems: ScopeLookupItem[];
+  // Trainers can maintain their own profile; admins can maintain anyone's
+  canEdit: boolean;
+  onChange: () => void;
+}
+
+const formatDate = (value: string | null) => (value ? format(parseISO(value), 'dd/MM/yyyy') : '—');
+
+export const TrainerProfile = ({ memberId, memberName, units, credentials, scopeItems, canEdit, onChange }: TrainerProfileProps) => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [unitCode, setUnitCode] = useState('');
+  const [unitTitle, setUnitTitle] = useState('');
+  const [addingUnit, setAddingUnit] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCredential, setEditingCredential] = useState<TrainerCredential | null>(null);
+
+  const sortedUnits = [...units].sort((a, b) => a.unit_code.localeCompare(b.unit_code));
+  const sortedCredentials = [...credentials].sort((a, b) =>
+    a.credential_type.localeCompare(b.credential_type) || a.title.localeCompare(b.title)
+  );
+
+  const handleAddUnit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normaliseUnitCode(unitCode);
+    if (!organisationMember?.organisation_id || !code) return;
+
+    if (units.some(unit => unit.unit_code === code)) {
+      toast({
+        title: "Error",
+        description: `${memberName} already delivers ${code}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setAddingUnit(true);
+    try {
+      const { error } = await supabase
+        .from('trainer_units')
+        .insert({
+          organisation_id: organisationMember.organisation_id,
+          member_id: memberId,
+          unit_code: code,
+          unit_title: unitTitle.trim() || scopeItems.find(item => item.code === code)?.title || null,
+        });
+
+      if (error) throw error;
+
+      setUnitCode('');
+      setUnitTitle('');
+      onChange();
+    } catch (error) {
+      console.error('Error adding unit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add unit",
+        variant: "destructive",
+      });
+    } finally {
+      setAddingUnit(false);
+    }
+  };
+
+  const handleRemoveUnit = async (unit: TrainerUnit) => {
+    try {
+      const { error } = await supabase
+        .from('trainer_units')
+        .delete()
+        .eq('id', unit.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error removing unit:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove unit",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteCredential = async (credential: TrainerCredential) => {
+    try {
+      const { error } = await supabase
+        .from('trainer_credentials')
+        .delete()
+        .eq('id', credential.id);
+
+      if (error) throw error;
+
+      if (credential.certificate_path) {
+        await removeCertificate(credential.certificate_path);
+      }
+
+      toast({
+        title: "Success",
+        description: "Credential deleted",
+      });
+
+      onChange();
+    } catch (error) {
+      console.error('Error deleting credential:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete credential",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownload = async (credential: TrainerCredential) => {
+    try {
+      window.location.href = await getCertificateSignedUrl(credential);
+    } catch (error) {
+      console.error('Error downloading certificate:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to download certificate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDialog = (credential: TrainerCredential | null) => {
+    setEditingCredential(credential);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Units Delivered</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Every unit listed here is checked for a current TAE qualification, vocational competency and industry currency.
+          </p>
+
+          {sortedUnits.length === 0 ? (
+            <div className="text-sm text-gray-500 mb-4">No units recorded for {memberName}.</div>
+          ) : (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {sortedUnits.map((unit) => (
+                <span
+                  key={unit.id}
+                  className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                  title={unit.unit_title || undefined}
+                >
+                  {unit.unit_code}
+                  {unit.unit_title && <span className="ml-1 font-normal">{unit.unit_title}</span>}
+                  {canEdit && (
+                    <button
+                      type="button"
+                      className="ml-1 hover:text-red-600"
+                      title={`Remove ${unit.unit_code}`}
+                      onClick={() => handleRemoveUnit(unit)}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {canEdit && (
+            <form onSubmit={handleAddUnit} className="flex flex-col md:flex-row gap-2">
+              <Input
+                placeholder="Unit code, e.g. BSBWHS211"
+                value={unitCode}
+                onChange={(e) => setUnitCode(e.target.value)}
+                className="md:w-56"
+              />
+              <Input
+                placeholder="Unit title (optional)"
+                value={unitTitle}
+                onChange={(e) => setUnitTitle(e.target.value)}
+                className="flex-1"
+              />
+              <Button type="submit" variant="outline" disabled={addingUnit || !unitCode.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Unit
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Credentials</h3>
+            {canEdit && (
+              <Button onClick={() => openDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Credential
+              </Button>
+            )}
+          </div>
+
+          {sortedCredentials.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No credentials recorded for {memberName}.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Type</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Credential</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Achieved</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Expires</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Units Covered</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedCredentials.map((credential) => {
+                    const status = getCredentialStatus(credential);
+                    return (
+                      <tr key={credential.id} className="border-b hover:bg-gray-50 align-top">
+                        <td className="py-3 px-4 text-sm table-entry">{CREDENTIAL_TYPES[credential.credential_type]}</td>
+                        <td className="py-3 px-4 table-entry">
+                          <div className="font-medium">{credential.title}</div>
+                          {(credential.code || credential.issuer) && (
+                            <div className="text-xs text-gray-500">
+                              {[credential.code, credential.issuer].filter(Boolean).join(' · ')}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-gray-600 table-entry">{formatDate(credential.achieved_on)}</td>
+                        <td className="py-3 px-4 table-entry">
+                          {credential.expires_on ? (
+                            <>
+                              <div className="text-sm text-gray-600">{formatDate(credential.expires_on)}</div>
+                              <CredentialStatusBadge status={status} />
+                            </>
+                          ) : (
+                            <span className="text-sm text-gray-500">No expiry</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-600 table-entry">
+                          {credential.credential_type === 'vocational_competency' || credential.credential_type === 'industry_currency'
+                            ? credential.unit_codes.join(', ') || 'All units'
+                            : '—'}
+                        </td>
+                        <td className="py-3 px-4 table-entry">
+                          <div className="flex items-center space-x-2">
+                            {credential.certificate_path && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title={`Download ${credential.certificate_name}`}
+                                onClick={() => handleDownload(credential)}
+                              >
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canEdit && (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => openDialog(credential)}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete this credential?</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        "{credential.title}" and its certificate will be permanently removed from {memberName}'s profile.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction onClick={() => handleDeleteCredential(credential)}>
+                                        Delete
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <CredentialDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSuccess={onChange}
+        memberId={memberId}
+        memberName={memberName}
+        credential={editingCredential}
+      />
+    </div>
+  );
+};
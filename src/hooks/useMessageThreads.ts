@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { RecordStandardLinks } from '@/lib/standards';
+
+export interface ThreadMember {
+  member_id: string;
+  last_read_at: string;
+  organisation_members: {
+    full_name: string | null;
+    email: string;
+  } | null;
+}
+
+export interface MessageThread {
+  id: string;
+  thread_type: string;
+  name: string | null;
+  compliance_record_id: string | null;
+  last_message_at: string;
+  message_thread_members: ThreadMember[];
+  compliance_records: ({
+    id: string;
+    compliance_item: string;
+  } & RecordStandardLinks) | null;
+}
+
+export const useMessageThreads = () => {
+  const { organisationMember } = useAuth();
+  const [threads, setThreads] = useState<MessageThread[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchThreads = useCallback(async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('message_threads')
+        .select(`
+          id,
+          thread_type,
+          name,
+          compliance_record_id,
+          last_message_at,
+          message_thread_members (
+            member_id,
+            last_read_at,
+            organisation_members ( full_name, email )
+          ),
+          compliance_records ( id, compliance_item, compliance_record_standards ( standards ( id, standard_clause, standard_description, framework ) ) )
+        `)
+        .eq('organisation_id', organisationMember.organisation_id)
+        .order('last_message_at', { ascending: false });
+
+      if (error) throw error;
+      setThreads(data || []);
+    } catch (error) {
+      console.error('Error fetching message threads:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organisationMember?.organisation_id]);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  return { threads, loading, refreshThreads: fetchThreads };
+};
+
+// Channels show their name; direct messages show the other participant
+export const getThreadTitle = (thread: MessageThread, currentMemberId?: string) => {
+  if (thread.thread_type === 'channel') {
+    return `# ${thread.name}`;
+  }
+  const other = thread.message_thread_members.find(m => m.member_id !== currentMemberId);
+  return other?.organisation_members?.full_name || other?.organisation_members?.email || 'Direct message';
+};
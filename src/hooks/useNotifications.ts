@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Notification {
+  id: string;
+  type: string;
+  action: string;
+  title: string;
+  message: string;
+  record_id: string | null;
+  is_read: boolean;
+  created_at: string;
+  created_by: string;
+}
+
+const NOTIFICATION_LIMIT = 50;
+
+export const useNotifications = () => {
+  const { organisationMember } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      // Notifications are either addressed to this user or org-wide; org-wide ones
+      // about the user's own actions are skipped. RLS limits notification_reads to
+      // this user's own rows, so any row there means they've read it.
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, type, action, title, message, record_id, created_at, created_by, notification_reads(member_id)')
+        .eq('organisation_id', organisationMember.organisation_id)
+        .or(`user_id.eq.${organisationMember.id},and(user_id.is.null,created_by.neq.${organisationMember.id})`)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT);
+
+      if (error) throw error;
+      setNotifications((data || []).map(({ notification_reads, ...notification }) => ({
+        ...notification,
+        is_read: notification_reads.length > 0,
+      })));
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organisationMember?.organisation_id, organisationMember?.id]);
+
+  useEffect(() => {
+    fetchNotifications();
+
+    if (!organisationMember?.organisation_id) return;
+
+    const channel = supabase
+      .channel(`notifications-${organisationMember.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `organisation_id=eq.${organisationMember.organisation_id}`,
+        },
+        () => {
+          fetchNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organisationMember?.organisation_id, organisationMember?.id, fetchNotifications]);
+
+  const markAsRead = async (ids?: string[]) => {
+    const { error } = await supabase.rpc('mark_notifications_read', {
+      p_notification_ids: ids,
+    });
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      return;
+    }
+
+    setNotifications(prev => prev.map(n => (!ids || ids.includes(n.id) ? { ...n, is_read: true } : n)));
+  };
+
+  const unreadCount = notifications.filter(n => !n.is_read).length;
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead: (id: string) => markAsRead([id]),
+    markAllAsRead: () => markAsRead(),
+  };
+};
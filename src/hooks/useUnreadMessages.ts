@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+
+export const useUnreadMessages = () => {
+  const { organisationMember } = useAuth();
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  const fetchUnreadCounts = useCallback(async () => {
+    if (!organisationMember?.id) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_unread_message_counts');
+
+      if (error) throw error;
+      setUnreadCounts(
+        Object.fromEntries((data || []).map(row => [row.thread_id, row.unread_count]))
+      );
+    } catch (error) {
+      console.error('Error fetching unread message counts:', error);
+    }
+  }, [organisationMember?.id]);
+
+  useEffect(() => {
+    fetchUnreadCounts();
+
+    if (!organisationMember?.id) return;
+
+    // Row level security limits these events to threads the user belongs to
+    const channel = supabase
+      .channel(`unread-messages-${Math.random().toString(36).substr(2, 9)}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, () => {
+        fetchUnreadCounts();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organisationMember?.id, fetchUnreadCounts]);
+
+  const totalUnread = Object.values(unreadCounts).reduce((sum, count) => sum + count, 0);
+
+  return { unreadCounts, totalUnread, refreshUnreadCounts: fetchUnreadCounts };
+};
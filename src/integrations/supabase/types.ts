@@ -9,109 +9,965 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          after_data: Json | null
+          before_data: Json | null
+          created_at: string
+          id: string
+          organisation_id: string
+          record_id: string
+          record_label: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          after_data?: Json | null
+          before_data?: Json | null
+          created_at?: string
+          id?: string
+          organisation_id: string
+          record_id: string
+          record_label: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          after_data?: Json | null
+          before_data?: Json | null
+          created_at?: string
+          id?: string
+          organisation_id?: string
+          record_id?: string
+          record_label?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      complaint_reminders_sent: {
+        Row: {
+          complaint_id: string
+          days_before: number
+          deadline: string
+          deadline_date: string
+          emailed: boolean
+          id: string
+          member_id: string
+          sent_at: string
+        }
+        Insert: {
+          complaint_id: string
+          days_before: number
+          deadline: string
+          deadline_date: string
+          emailed?: boolean
+          id?: string
+          member_id: string
+          sent_at?: string
+        }
+        Update: {
+          complaint_id?: string
+          days_before?: number
+          deadline?: string
+          deadline_date?: string
+          emailed?: boolean
+          id?: string
+          member_id?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_reminders_sent_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_reminders_sent_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaints: {
+        Row: {
+          acknowledge_by: string
+          acknowledged_on: string | null
+          complainant_name: string | null
+          complainant_type: string
+          created_at: string
+          created_by: string | null
+          handler_id: string | null
+          id: string
+          investigation_notes: string | null
+          kind: string
+          organisation_id: string
+          outcome: string | null
+          received_on: string
+          referral_body: string | null
+          referred_externally: boolean
+          resolve_by: string
+          resolved_on: string | null
+          status: string
+          summary: string
+          updated_at: string
+        }
+        Insert: {
+          acknowledge_by: string
+          acknowledged_on?: string | null
+          complainant_name?: string | null
+          complainant_type: string
+          created_at?: string
+          created_by?: string | null
+          handler_id?: string | null
+          id?: string
+          investigation_notes?: string | null
+          kind?: string
+          organisation_id: string
+          outcome?: string | null
+          received_on: string
+          referral_body?: string | null
+          referred_externally?: boolean
+          resolve_by: string
+          resolved_on?: string | null
+          status?: string
+          summary: string
+          updated_at?: string
+        }
+        Update: {
+          acknowledge_by?: string
+          acknowledged_on?: string | null
+          complainant_name?: string | null
+          complainant_type?: string
+          created_at?: string
+          created_by?: string | null
+          handler_id?: string | null
+          id?: string
+          investigation_notes?: string | null
+          kind?: string
+          organisation_id?: string
+          outcome?: string | null
+          received_on?: string
+          referral_body?: string | null
+          referred_externally?: boolean
+          resolve_by?: string
+          resolved_on?: string | null
+          status?: string
+          summary?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaints_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_handler_id_fkey"
+            columns: ["handler_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_record_standards: {
+        Row: {
+          created_at: string
+          organisation_id: string
+          record_id: string
+          standard_id: string
+        }
+        Insert: {
+          created_at?: string
+          organisation_id: string
+          record_id: string
+          standard_id: string
+        }
+        Update: {
+          created_at?: string
+          organisation_id?: string
+          record_id?: string
+          standard_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_record_standards_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_record_standards_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "compliance_record_standards_standard_id_fkey"
+            columns: ["standard_id"]
+            isOneToOne: false
+            referencedRelation: "standards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       compliance_records: {
         Row: {
           compliance_item: string
           compliance_status: string
           created_at: string
-          file_name: string | null
-          file_path: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           id: string
           next_review_date: string | null
           notes: string | null
           organisation_id: string | null
           responsible_person: string
           review_status: string | null
-          standard_clause: string
           updated_at: string
         }
         Insert: {
           compliance_item: string
           compliance_status: string
           created_at?: string
-          file_name?: string | null
-          file_path?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
           next_review_date?: string | null
           notes?: string | null
           organisation_id?: string | null
           responsible_person: string
           review_status?: string | null
-          standard_clause: string
           updated_at?: string
         }
         Update: {
           compliance_item?: string
           compliance_status?: string
           created_at?: string
-          file_name?: string | null
-          file_path?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           id?: string
           next_review_date?: string | null
           notes?: string | null
           organisation_id?: string | null
           responsible_person?: string
           review_status?: string | null
-          standard_clause?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "compliance_records_organisation_id_fkey"
-            columns: ["organisation_id"]
+            foreignKeyName: "compliance_records_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_snapshots: {
+        Row: {
+          at_risk_count: number
+          clause_counts: Json
+          compliant_count: number
+          created_at: string
+          id: string
+          non_compliant_count: number
+          organisation_id: string
+          overall_compliance: number
+          snapshot_date: string
+          total_records: number
+        }
+        Insert: {
+          at_risk_count?: number
+          clause_counts?: Json
+          compliant_count?: number
+          created_at?: string
+          id?: string
+          non_compliant_count?: number
+          organisation_id: string
+          overall_compliance?: number
+          snapshot_date: string
+          total_records?: number
+        }
+        Update: {
+          at_risk_count?: number
+          clause_counts?: Json
+          compliant_count?: number
+          created_at?: string
+          id?: string
+          non_compliant_count?: number
+          organisation_id?: string
+          overall_compliance?: number
+          snapshot_date?: string
+          total_records?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_snapshots_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      corrective_actions: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          closure_notes: string | null
+          created_at: string
+          created_by: string | null
+          due_date: string
+          id: string
+          organisation_id: string
+          owner_id: string | null
+          planned_action: string
+          record_id: string
+          root_cause: string
+          status: string
+          updated_at: string
+          verification: string | null
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closure_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date: string
+          id?: string
+          organisation_id: string
+          owner_id?: string | null
+          planned_action: string
+          record_id: string
+          root_cause: string
+          status?: string
+          updated_at?: string
+          verification?: string | null
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closure_notes?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date?: string
+          id?: string
+          organisation_id?: string
+          owner_id?: string | null
+          planned_action?: string
+          record_id?: string
+          root_cause?: string
+          status?: string
+          updated_at?: string
+          verification?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "corrective_actions_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "corrective_actions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "corrective_actions_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "corrective_actions_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "corrective_actions_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crosswalk_migrations: {
+        Row: {
+          from_framework: string
+          id: string
+          migrated_at: string
+          migrated_by: string | null
+          new_clause: string
+          old_clause: string
+          organisation_id: string
+          record_id: string
+          to_framework: string
+        }
+        Insert: {
+          from_framework: string
+          id?: string
+          migrated_at?: string
+          migrated_by?: string | null
+          new_clause: string
+          old_clause: string
+          organisation_id: string
+          record_id: string
+          to_framework: string
+        }
+        Update: {
+          from_framework?: string
+          id?: string
+          migrated_at?: string
+          migrated_by?: string | null
+          new_clause?: string
+          old_clause?: string
+          organisation_id?: string
+          record_id?: string
+          to_framework?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crosswalk_migrations_migrated_by_fkey"
+            columns: ["migrated_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crosswalk_migrations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crosswalk_migrations_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evidence_files: {
+        Row: {
+          checksum: string | null
+          file_name: string
+          file_path: string
+          id: string
+          mime_type: string | null
+          organisation_id: string
+          record_id: string
+          size_bytes: number | null
+          uploaded_at: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          checksum?: string | null
+          file_name: string
+          file_path: string
+          id?: string
+          mime_type?: string | null
+          organisation_id: string
+          record_id: string
+          size_bytes?: number | null
+          uploaded_at?: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          checksum?: string | null
+          file_name?: string
+          file_path?: string
+          id?: string
+          mime_type?: string | null
+          organisation_id?: string
+          record_id?: string
+          size_bytes?: number | null
+          uploaded_at?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evidence_files_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_files_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_files_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evidence_packs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          expires_at: string | null
+          file_count: number | null
+          file_path: string | null
+          id: string
+          organisation_id: string
+          record_count: number | null
+          requested_by: string | null
+          size_bytes: number | null
+          standard_ids: string[]
+          status: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          expires_at?: string | null
+          file_count?: number | null
+          file_path?: string | null
+          id?: string
+          organisation_id: string
+          record_count?: number | null
+          requested_by?: string | null
+          size_bytes?: number | null
+          standard_ids: string[]
+          status?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          expires_at?: string | null
+          file_count?: number | null
+          file_path?: string | null
+          id?: string
+          organisation_id?: string
+          record_count?: number | null
+          requested_by?: string | null
+          size_bytes?: number | null
+          standard_ids?: string[]
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evidence_packs_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evidence_packs_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      improvement_records: {
+        Row: {
+          improvement_id: string
+          organisation_id: string
+          record_id: string
+        }
+        Insert: {
+          improvement_id: string
+          organisation_id: string
+          record_id: string
+        }
+        Update: {
+          improvement_id?: string
+          organisation_id?: string
+          record_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "improvement_records_improvement_id_fkey"
+            columns: ["improvement_id"]
+            isOneToOne: false
+            referencedRelation: "improvements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "improvement_records_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "improvement_records_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      improvement_standards: {
+        Row: {
+          improvement_id: string
+          organisation_id: string
+          standard_id: string
+        }
+        Insert: {
+          improvement_id: string
+          organisation_id: string
+          standard_id: string
+        }
+        Update: {
+          improvement_id?: string
+          organisation_id?: string
+          standard_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "improvement_standards_improvement_id_fkey"
+            columns: ["improvement_id"]
+            isOneToOne: false
+            referencedRelation: "improvements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "improvement_standards_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "improvement_standards_standard_id_fkey"
+            columns: ["standard_id"]
+            isOneToOne: false
+            referencedRelation: "standards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      improvements: {
+        Row: {
+          action_taken: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          identified_on: string
+          organisation_id: string
+          outcome: string | null
+          owner_id: string | null
+          source: string
+          source_details: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          action_taken?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          identified_on?: string
+          organisation_id: string
+          outcome?: string | null
+          owner_id?: string | null
+          source: string
+          source_details?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          action_taken?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          identified_on?: string
+          organisation_id?: string
+          outcome?: string | null
+          owner_id?: string | null
+          source?: string
+          source_details?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "improvements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "improvements_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "improvements_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invite_token: string
+          invited_by: string
+          organisation_id: string
+          updated_at: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          invite_token: string
+          invited_by: string
+          organisation_id: string
+          updated_at?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invite_token?: string
+          invited_by?: string
+          organisation_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_thread_members: {
+        Row: {
+          joined_at: string
+          last_read_at: string
+          member_id: string
+          thread_id: string
+        }
+        Insert: {
+          joined_at?: string
+          last_read_at?: string
+          member_id: string
+          thread_id: string
+        }
+        Update: {
+          joined_at?: string
+          last_read_at?: string
+          member_id?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_thread_members_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_thread_members_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_threads: {
+        Row: {
+          compliance_record_id: string | null
+          created_at: string
+          created_by: string
+          id: string
+          last_message_at: string
+          name: string | null
+          organisation_id: string
+          thread_type: string
+          updated_at: string
+        }
+        Insert: {
+          compliance_record_id?: string | null
+          created_at?: string
+          created_by: string
+          id?: string
+          last_message_at?: string
+          name?: string | null
+          organisation_id: string
+          thread_type: string
+          updated_at?: string
+        }
+        Update: {
+          compliance_record_id?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          last_message_at?: string
+          name?: string | null
+          organisation_id?: string
+          thread_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_threads_compliance_record_id_fkey"
+            columns: ["compliance_record_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_records"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_threads_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_threads_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          sender_id: string
+          thread_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          sender_id: string
+          thread_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          sender_id?: string
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_thread_id_fkey"
+            columns: ["thread_id"]
             isOneToOne: false
-            referencedRelation: "organisations"
+            referencedRelation: "message_threads"
             referencedColumns: ["id"]
           },
         ]
       }
-      invitations: {
+      notification_reads: {
         Row: {
-          accepted_at: string | null
-          created_at: string
-          email: string
-          expires_at: string
-          id: string
-          invite_token: string
-          invited_by: string
-          organisation_id: string
-          updated_at: string
+          member_id: string
+          notification_id: string
+          read_at: string
         }
         Insert: {
-          accepted_at?: string | null
-          created_at?: string
-          email: string
-          expires_at: string
-          id?: string
-          invite_token: string
-          invited_by: string
-          organisation_id: string
-          updated_at?: string
+          member_id: string
+          notification_id: string
+          read_at?: string
         }
         Update: {
-          accepted_at?: string | null
-          created_at?: string
-          email?: string
-          expires_at?: string
-          id?: string
-          invite_token?: string
-          invited_by?: string
-          organisation_id?: string
-          updated_at?: string
+          member_id?: string
+          notification_id?: string
+          read_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invitations_invited_by_fkey"
-            columns: ["invited_by"]
+            foreignKeyName: "notification_reads_member_id_fkey"
+            columns: ["member_id"]
             isOneToOne: false
             referencedRelation: "organisation_members"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "invitations_organisation_id_fkey"
-            columns: ["organisation_id"]
+            foreignKeyName: "notification_reads_notification_id_fkey"
+            columns: ["notification_id"]
             isOneToOne: false
-            referencedRelation: "organisations"
+            referencedRelation: "notifications"
             referencedColumns: ["id"]
           },
         ]
@@ -232,27 +1088,221 @@ export type Database = {
         }
         Relationships: []
       }
+      review_reminders_sent: {
+        Row: {
+          days_before: number
+          emailed: boolean
+          id: string
+          member_id: string | null
+          record_id: string
+          review_date: string
+          sent_at: string
+        }
+        Insert: {
+          days_before: number
+          emailed?: boolean
+          id?: string
+          member_id?: string | null
+          record_id: string
+          review_date: string
+          sent_at?: string
+        }
+        Update: {
+          days_before?: number
+          emailed?: boolean
+          id?: string
+          member_id?: string | null
+          record_id?: string
+          review_date?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_reminders_sent_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_reminders_sent_record_id_fkey"
+            columns: ["record_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scope_items: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          extent: string | null
+          id: string
+          last_imported_at: string | null
+          notes: string | null
+          on_scope_from: string | null
+          organisation_id: string
+          product_type: string
+          rto_id: string
+          source: string
+          status: string
+          superseded_by: string | null
+          title: string
+          transition_ends_on: string | null
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          extent?: string | null
+          id?: string
+          last_imported_at?: string | null
+          notes?: string | null
+          on_scope_from?: string | null
+          organisation_id: string
+          product_type: string
+          rto_id: string
+          source?: string
+          status?: string
+          superseded_by?: string | null
+          title: string
+          transition_ends_on?: string | null
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          extent?: string | null
+          id?: string
+          last_imported_at?: string | null
+          notes?: string | null
+          on_scope_from?: string | null
+          organisation_id?: string
+          product_type?: string
+          rto_id?: string
+          source?: string
+          status?: string
+          superseded_by?: string | null
+          title?: string
+          transition_ends_on?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scope_items_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scope_items_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      standard_crosswalks: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          from_standard_id: string
+          id: string
+          organisation_id: string
+          to_standard_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          from_standard_id: string
+          id?: string
+          organisation_id: string
+          to_standard_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          from_standard_id?: string
+          id?: string
+          organisation_id?: string
+          to_standard_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "standard_crosswalks_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "standard_crosswalks_from_standard_id_fkey"
+            columns: ["from_standard_id"]
+            isOneToOne: false
+            referencedRelation: "standards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "standard_crosswalks_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "standard_crosswalks_to_standard_id_fkey"
+            columns: ["to_standard_id"]
+            isOneToOne: false
+            referencedRelation: "standards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       standards: {
         Row: {
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          framework: string | null
+          framework_version: string | null
           id: string
+          level: string
           organisation_id: string
+          parent_id: string | null
           standard_clause: string
           standard_description: string
           updated_at: string
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          framework?: string | null
+          framework_version?: string | null
           id?: string
+          level?: string
           organisation_id: string
+          parent_id?: string | null
           standard_clause: string
           standard_description: string
           updated_at?: string
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          framework?: string | null
+          framework_version?: string | null
           id?: string
+          level?: string
           organisation_id?: string
+          parent_id?: string | null
           standard_clause?: string
           standard_description?: string
           updated_at?: string
@@ -265,6 +1315,140 @@ export type Database = {
             referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "standards_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "standards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trainer_credentials: {
+        Row: {
+          achieved_on: string | null
+          certificate_mime_type: string | null
+          certificate_name: string | null
+          certificate_path: string | null
+          certificate_size_bytes: number | null
+          code: string | null
+          created_at: string
+          created_by: string | null
+          credential_type: string
+          expires_on: string | null
+          id: string
+          issuer: string | null
+          member_id: string
+          notes: string | null
+          organisation_id: string
+          title: string
+          unit_codes: string[]
+          updated_at: string
+        }
+        Insert: {
+          achieved_on?: string | null
+          certificate_mime_type?: string | null
+          certificate_name?: string | null
+          certificate_path?: string | null
+          certificate_size_bytes?: number | null
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          credential_type: string
+          expires_on?: string | null
+          id?: string
+          issuer?: string | null
+          member_id: string
+          notes?: string | null
+          organisation_id: string
+          title: string
+          unit_codes?: string[]
+          updated_at?: string
+        }
+        Update: {
+          achieved_on?: string | null
+          certificate_mime_type?: string | null
+          certificate_name?: string | null
+          certificate_path?: string | null
+          certificate_size_bytes?: number | null
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          credential_type?: string
+          expires_on?: string | null
+          id?: string
+          issuer?: string | null
+          member_id?: string
+          notes?: string | null
+          organisation_id?: string
+          title?: string
+          unit_codes?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trainer_credentials_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trainer_credentials_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trainer_credentials_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trainer_units: {
+        Row: {
+          created_at: string
+          id: string
+          member_id: string
+          organisation_id: string
+          unit_code: string
+          unit_title: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          member_id: string
+          organisation_id: string
+          unit_code: string
+          unit_title?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          member_id?: string
+          organisation_id?: string
+          unit_code?: string
+          unit_title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trainer_units_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "organisation_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trainer_units_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -272,6 +1456,23 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_crosswalk_migration: {
+        Args: {
+          p_changes: Json
+          p_from_framework: string
+          p_to_framework: string
+        }
+        Returns: number
+      }
+      create_message_thread: {
+        Args: {
+          p_thread_type: string
+          p_member_ids: string[]
+          p_name?: string
+          p_compliance_record_id?: string
+        }
+        Returns: string
+      }
       create_org_notification: {
         Args: {
           p_organisation_id: string
@@ -284,6 +1485,24 @@ export type Database = {
         }
         Returns: string
       }
+      get_recycle_bin: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          item_type: string
+          id: string
+          label: string
+          deleted_at: string
+          deleted_by_name: string | null
+          purge_after: string
+        }[]
+      }
+      get_unread_message_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          thread_id: string
+          unread_count: number
+        }[]
+      }
       get_user_organisation: {
         Args: { user_id: string }
         Returns: string
@@ -296,6 +1515,70 @@ export type Database = {
         Args: Record<PropertyKey, never> | { user_id: string; org_id: string }
         Returns: string
       }
+      import_compliance_records: {
+        Args: {
+          p_records: Json
+        }
+        Returns: number
+      }
+      import_framework_standards: {
+        Args: {
+          p_framework: string
+          p_standards: Json
+          p_version: string
+        }
+        Returns: number
+      }
+      import_scope_items: {
+        Args: {
+          p_items: Json
+        }
+        Returns: Json
+      }
+      is_thread_member: {
+        Args: {
+          p_thread_id: string
+        }
+        Returns: boolean
+      }
+      mark_notifications_read: {
+        Args: {
+          p_notification_ids?: string[]
+        }
+        Returns: number
+      }
+      mark_thread_read: {
+        Args: {
+          p_thread_id: string
+        }
+        Returns: undefined
+      }
+      move_to_recycle_bin: {
+        Args: {
+          p_table: string
+          p_id: string
+        }
+        Returns: undefined
+      }
+      recycle_bin_retention_days: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      restore_from_recycle_bin: {
+        Args: {
+          p_table: string
+          p_id: string
+        }
+        Returns: undefined
+      }
+      save_compliance_record: {
+        Args: {
+          p_record_id: string | null
+          p_record: Json
+          p_standard_ids: string[]
+        }
+        Returns: string
+      }
       send_invitation: {
         Args: {
           _email: string
@@ -304,6 +1587,21 @@ export type Database = {
         }
         Returns: string
       }
+      set_compliance_record_standards: {
+        Args: {
+          p_record_id: string
+          p_standard_ids: string[]
+        }
+        Returns: undefined
+      }
+      set_improvement_links: {
+        Args: {
+          p_improvement_id: string
+          p_record_ids: string[]
+          p_standard_ids: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       user_role: "admin" | "member"
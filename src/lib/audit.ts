@@ -0,0 +1,71 @@
+import { Json } from '@/integrations/supabase/types';
+
+export const AUDITED_TABLES: Record<string, string> = {
+  compliance_records: 'Compliance Record',
+  standards: 'Standard',
+};
+
+export const AUDIT_ACTIONS = ['created', 'updated', 'deleted', 'restored', 'purged'] as const;
+
+export interface AuditEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  record_label: string | null;
+  action: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  before_data: Json | null;
+  after_data: Json | null;
+  created_at: string;
+}
+
+export interface AuditChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  compliance_item: 'Compliance Item',
+  standard_clause: 'Standard Clause',
+  standard_description: 'Description',
+  parent_id: 'Parent',
+  level: 'Level',
+  compliance_status: 'Status',
+  responsible_person: 'Responsible Person',
+  next_review_date: 'Next Review Date',
+  review_status: 'Review Status',
+  notes: 'Notes',
+  corrective_action: 'Corrective Action',
+};
+
+// Bookkeeping columns that would only add noise to the history
+const HIDDEN_FIELDS = ['id', 'organisation_id', 'created_at', 'updated_at'];
+
+const asObject = (data: Json | null): Record<string, Json | undefined> =>
+  data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+
+export const formatAuditValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const getAuditChanges = (entry: AuditEntry): AuditChange[] => {
+  const before = asObject(entry.before_data);
+  const after = asObject(entry.after_data);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(field => !HIDDEN_FIELDS.includes(field));
+
+  return fields.map(field => ({
+    field,
+    label: FIELD_LABELS[field] || field,
+    before: formatAuditValue(before[field]),
+    after: formatAuditValue(after[field]),
+  }));
+};
+
+export const getAuditActorName = (entry: AuditEntry) =>
+  entry.actor_name || (entry.actor_id ? 'Unknown member' : 'System');
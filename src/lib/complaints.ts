@@ -0,0 +1,83 @@
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+
+export const COMPLAINT_KINDS = {
+  complaint: 'Complaint',
+  appeal: 'Appeal',
+} as const;
+
+export type ComplaintKind = keyof typeof COMPLAINT_KINDS;
+
+export const COMPLAINANT_TYPES = {
+  learner: 'Learner',
+  employer: 'Employer',
+  staff: 'Staff Member',
+  third_party: 'Third Party',
+  other: 'Other',
+} as const;
+
+export type ComplainantType = keyof typeof COMPLAINANT_TYPES;
+
+export const COMPLAINT_STATUSES = {
+  open: 'Open',
+  investigating: 'Under Investigation',
+  resolved: 'Resolved',
+  withdrawn: 'Withdrawn',
+} as const;
+
+export type ComplaintStatus = keyof typeof COMPLAINT_STATUSES;
+
+// Defaults for new entries; each complaint's deadlines can be changed. Complaints
+// taking longer than 60 days to resolve need the complainant told why.
+export const ACKNOWLEDGE_WITHIN_DAYS = 5;
+export const RESOLVE_WITHIN_DAYS = 60;
+
+export interface Complaint {
+  id: string;
+  organisation_id: string;
+  kind: ComplaintKind;
+  complainant_type: ComplainantType;
+  complainant_name: string | null;
+  summary: string;
+  received_on: string;
+  acknowledge_by: string;
+  acknowledged_on: string | null;
+  resolve_by: string;
+  resolved_on: string | null;
+  handler_id: string | null;
+  status: ComplaintStatus;
+  investigation_notes: string | null;
+  outcome: string | null;
+  referred_externally: boolean;
+  referral_body: string | null;
+  created_at: string;
+  handler: { full_name: string | null; email: string } | null;
+}
+
+export const COMPLAINT_SELECT = '*, handler:organisation_members!complaints_handler_id_fkey(full_name, email)';
+
+export const getDefaultDeadlines = (receivedOn: Date) => ({
+  acknowledgeBy: addDays(receivedOn, ACKNOWLEDGE_WITHIN_DAYS),
+  resolveBy: addDays(receivedOn, RESOLVE_WITHIN_DAYS),
+});
+
+export const isComplaintClosed = (complaint: { status: string }) =>
+  complaint.status === 'resolved' || complaint.status === 'withdrawn';
+
+export const isAcknowledgementOverdue = (
+  complaint: Pick<Complaint, 'status' | 'acknowledged_on' | 'acknowledge_by'>,
+  today: Date = new Date()
+) => !isComplaintClosed(complaint) && !complaint.acknowledged_on && parseISO(complaint.acknowledge_by) < startOfDay(today);
+
+export const isResolutionOverdue = (
+  complaint: Pick<Complaint, 'status' | 'resolved_on' | 'resolve_by'>,
+  today: Date = new Date()
+) => !isComplaintClosed(complaint) && !complaint.resolved_on && parseISO(complaint.resolve_by) < startOfDay(today);
+
+// Whether a deadline was met, judged on the date it was actually done
+export const wasMetOnTime = (doneOn: string | null, deadline: string) =>
+  !!doneOn && doneOn <= deadline;
+
+export const getDaysToResolve = (complaint: Pick<Complaint, 'received_on' | 'resolved_on'>) =>
+  complaint.resolved_on
+    ? differenceInCalendarDays(parseISO(complaint.resolved_on), parseISO(complaint.received_on))
+    : null;
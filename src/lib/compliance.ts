@@ -0,0 +1,33 @@
+import { differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+
+export const COMPLIANCE_STATUSES = ['Compliant', 'At Risk', 'Non-Compliant'] as const;
+
+export const STATUS_COLORS: Record<string, string> = {
+  'Compliant': '#22c55e',
+  'At Risk': '#eab308',
+  'Non-Compliant': '#ef4444',
+};
+
+// A review is overdue once its next review date is before today
+export const isReviewOverdue = (nextReviewDate: string | null | undefined, today: Date = new Date()) => {
+  if (!nextReviewDate) return false;
+  return parseISO(nextReviewDate) < startOfDay(today);
+};
+
+// Mirrors the thresholds used by the review-reminders edge function so a record
+// shows the right review status as soon as it's saved
+export const getReviewStatus = (nextReviewDate: string | null | undefined, today: Date = new Date()) => {
+  if (!nextReviewDate) return null;
+  const daysUntil = differenceInCalendarDays(parseISO(nextReviewDate), today);
+  if (daysUntil < 0) return 'Overdue';
+  if (daysUntil <= 7) return 'Due';
+  if (daysUntil <= 30) return 'Upcoming';
+  return 'Scheduled';
+};
+
+// Percentage of records marked Compliant, rounded to a whole number
+export const getComplianceRate = (records: { compliance_status: string }[]) => {
+  if (records.length === 0) return 0;
+  const compliant = records.filter(r => r.compliance_status === 'Compliant').length;
+  return Math.round((compliant / records.length) * 100);
+};
@@ -0,0 +1,48 @@
+import { parseISO, startOfDay } from 'date-fns';
+
+export type CorrectiveActionStatus = 'open' | 'in_progress' | 'closed';
+
+export const CORRECTIVE_ACTION_STATUSES: Record<CorrectiveActionStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  closed: 'Closed',
+};
+
+interface MemberName {
+  full_name: string | null;
+  email: string;
+}
+
+export interface CorrectiveAction {
+  id: string;
+  organisation_id: string;
+  record_id: string;
+  root_cause: string;
+  planned_action: string;
+  owner_id: string | null;
+  due_date: string;
+  verification: string | null;
+  status: CorrectiveActionStatus;
+  closure_notes: string | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  owner: MemberName | null;
+  closer: MemberName | null;
+}
+
+export const CORRECTIVE_ACTION_SELECT = '*, owner:organisation_members!corrective_actions_owner_id_fkey(full_name, email), closer:organisation_members!corrective_actions_closed_by_fkey(full_name, email)';
+
+// Records in these states are the ones corrective actions are raised against
+export const needsCorrectiveAction = (complianceStatus: string) =>
+  complianceStatus === 'At Risk' || complianceStatus === 'Non-Compliant';
+
+export const isCorrectiveActionOpen = (action: { status: string }) => action.status !== 'closed';
+
+// An open action is overdue once its due date is before today
+export const isCorrectiveActionOverdue = (action: { status: string; due_date: string }, today: Date = new Date()) =>
+  isCorrectiveActionOpen(action) && parseISO(action.due_date) < startOfDay(today);
+
+export const getMemberName = (member: MemberName | null) =>
+  member ? member.full_name || member.email : 'Unassigned';
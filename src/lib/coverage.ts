@@ -0,0 +1,48 @@
+import { Standard, buildStandardTree, flattenStandardTree } from '@/lib/standards';
+
+export const COVERAGE_GAPS = {
+  no_records: 'No records',
+  missing_evidence: 'Missing evidence',
+  all_non_compliant: 'All Non-Compliant',
+} as const;
+
+export type CoverageGap = keyof typeof COVERAGE_GAPS;
+
+export interface CoverageRecord {
+  id: string;
+  compliance_item: string;
+  compliance_status: string;
+  evidence_count: number;
+  standard_ids: string[];
+}
+
+export interface CoverageRow {
+  standard: Standard;
+  depth: number;
+  records: CoverageRecord[];
+  gaps: CoverageGap[];
+}
+
+// One row per standard in tree order, with the records linked directly to it and
+// the gaps an auditor would ask about. Records are attached to clauses, so a
+// standard with children of its own isn't flagged for having no records.
+export const buildCoverageMatrix = (standards: Standard[], records: CoverageRecord[]): CoverageRow[] => {
+  const parentIds = new Set(standards.map(standard => standard.parent_id).filter(Boolean));
+
+  return flattenStandardTree(buildStandardTree(standards)).map(({ standard, depth }) => {
+    const linked = records.filter(record => record.standard_ids.includes(standard.id));
+    const gaps: CoverageGap[] = [];
+
+    if (linked.length === 0 && !parentIds.has(standard.id)) {
+      gaps.push('no_records');
+    }
+    if (linked.some(record => record.evidence_count === 0)) {
+      gaps.push('missing_evidence');
+    }
+    if (linked.length > 0 && linked.every(record => record.compliance_status === 'Non-Compliant')) {
+      gaps.push('all_non_compliant');
+    }
+
+    return { standard, depth, records: linked, gaps };
+  });
+};
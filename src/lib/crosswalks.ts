@@ -0,0 +1,88 @@
+import rto2015To2025 from '@/data/crosswalks/rto-2015-to-2025.json';
+import { Standard, compareClauses } from '@/lib/standards';
+
+// A bundled starting point for mapping one library framework onto another, keyed
+// by clause number. Admins review and adjust it before migrating any records.
+export interface SuggestedCrosswalk {
+  from: string;
+  to: string;
+  version: string;
+  mappings: Record<string, string[]>;
+}
+
+export const SUGGESTED_CROSSWALKS: SuggestedCrosswalk[] = [rto2015To2025];
+
+export const getSuggestedCrosswalk = (from: string, to: string) =>
+  SUGGESTED_CROSSWALKS.find(crosswalk => crosswalk.from === from && crosswalk.to === to) || null;
+
+export interface CrosswalkMapping {
+  id: string;
+  from_standard_id: string;
+  to_standard_id: string;
+}
+
+export interface MigratableRecord {
+  id: string;
+  compliance_item: string;
+  standard_ids: string[];
+}
+
+// One record's link to one clause of the outgoing framework
+export interface MigrationChange {
+  record: MigratableRecord;
+  from: Standard;
+  targets: Standard[];
+}
+
+export interface UnmappedLink {
+  record: MigratableRecord;
+  from: Standard;
+}
+
+// Works out what the migration assistant would do: each record's link to a mapped
+// old clause is swapped for links to every new clause it maps to, and links that
+// can't be moved yet are reported so they can be mapped or handled by hand.
+// Records already migrated no longer link to the old framework, so they drop out.
+export const buildMigrationPreview = ({
+  records,
+  fromStandards,
+  toStandards,
+  mappings,
+}: {
+  records: MigratableRecord[];
+  fromStandards: Standard[];
+  toStandards: Standard[];
+  mappings: CrosswalkMapping[];
+}) => {
+  const toStandardById = new Map(toStandards.map(standard => [standard.id, standard]));
+
+  const targetsById = new Map<string, Standard[]>();
+  fromStandards.forEach(standard => {
+    const targets = mappings
+      .filter(mapping => mapping.from_standard_id === standard.id)
+      .map(mapping => toStandardById.get(mapping.to_standard_id))
+      .filter((target): target is Standard => !!target)
+      .sort((a, b) => compareClauses(a.standard_clause, b.standard_clause));
+    targetsById.set(standard.id, targets);
+  });
+
+  const changes: MigrationChange[] = [];
+  const unmappedRecords: UnmappedLink[] = [];
+
+  fromStandards.forEach(from => {
+    const targets = targetsById.get(from.id) || [];
+    records
+      .filter(record => record.standard_ids.includes(from.id))
+      .forEach(record => {
+        if (targets.length > 0) {
+          changes.push({ record, from, targets });
+        } else {
+          unmappedRecords.push({ record, from });
+        }
+      });
+  });
+
+  const unmappedClauses = fromStandards.filter(standard => (targetsById.get(standard.id) || []).length === 0);
+
+  return { changes, unmappedRecords, unmappedClauses };
+};
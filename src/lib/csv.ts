@@ -0,0 +1,33 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheet apps run text starting with one of these as a formula, so exported
+// text gets a leading apostrophe (the same escaping Papa Parse uses)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const ESCAPED_FORMULA = /^'[=+\-@\t\r]/;
+
+export const escapeFormula = (text: string) => (FORMULA_PREFIX.test(text) ? `'${text}` : text);
+
+// Undoes escapeFormula, so an exported file can be imported again as-is
+export const unescapeFormula = (text: string) => (ESCAPED_FORMULA.test(text) ? text.slice(1) : text);
+
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' ? escapeFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][]) =>
+  [headers, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+export const downloadFile = (fileName: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The byte order mark makes Excel open UTF-8 CSVs with the right encoding
+export const downloadCsv = (fileName: string, headers: string[], rows: CsvValue[][]) =>
+  downloadFile(fileName, '﻿' + toCsv(headers, rows), 'text/csv;charset=utf-8');
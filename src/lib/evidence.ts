@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const EVIDENCE_BUCKET = 'compliance-evidence';
+
+// The bucket is private; files are only ever reached through short-lived signed URLs
+const SIGNED_URL_EXPIRY_SECONDS = 60;
+
+export interface EvidenceFile {
+  id: string;
+  record_id: string;
+  organisation_id: string;
+  file_name: string;
+  file_path: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  checksum: string | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+}
+
+export interface EvidenceFileWithUploader extends EvidenceFile {
+  uploader: {
+    full_name: string | null;
+    email: string;
+  } | null;
+}
+
+export const EVIDENCE_FILE_WITH_UPLOADER_SELECT = '*, uploader:organisation_members!evidence_files_uploaded_by_fkey(full_name, email)';
+
+const computeChecksum = async (file: File) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Uploads a file to storage and records it against the compliance record. The stored
+// object is removed again if the database row can't be written.
+export const uploadEvidenceFile = async (
+  file: File,
+  recordId: string,
+  organisationId: string,
+  uploadedBy: string
+): Promise<EvidenceFile> => {
+  const fileExt = file.name.split('.').pop();
+  const storedName = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
+  const filePath = `${organisationId}/${recordId}/${storedName}`;
+
+  const checksum = await computeChecksum(file);
+
+  const { error: uploadError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (uploadError) {
+    throw new Error(`Failed to upload file ${file.name}: ${uploadError.message}`);
+  }
+
+  const { data, error } = await supabase
+    .from('evidence_files')
+    .insert({
+      record_id: recordId,
+      organisation_id: organisationId,
+      file_name: file.name,
+      file_path: filePath,
+      mime_type: file.type || null,
+      size_bytes: file.size,
+      checksum,
+      uploaded_by: uploadedBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(EVIDENCE_BUCKET).remove([filePath]);
+    throw new Error(`Failed to save file ${file.name}: ${error.message}`);
+  }
+
+  return data;
+};
+
+export const deleteEvidenceFile = async (evidenceFile: EvidenceFile) => {
+  const { error } = await supabase
+    .from('evidence_files')
+    .delete()
+    .eq('id', evidenceFile.id);
+
+  if (error) {
+    throw new Error(`Failed to remove file ${evidenceFile.file_name}: ${error.message}`);
+  }
+
+  // The row is gone, so a leftover object is only wasted space; don't fail the removal
+  const { error: storageError } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .remove([evidenceFile.file_path]);
+
+  if (storageError) {
+    console.warn(`Could not delete stored object ${evidenceFile.file_path}:`, storageError);
+  }
+};
+
+export const getEvidenceSignedUrl = async (evidenceFile: EvidenceFile, options: { download?: boolean } = {}) => {
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrl(evidenceFile.file_path, SIGNED_URL_EXPIRY_SECONDS, {
+      download: options.download ? evidenceFile.file_name : undefined,
+    });
+
+  if (error) {
+    throw new Error(`Failed to open file ${evidenceFile.file_name}: ${error.message}`);
+  }
+
+  return data.signedUrl;
+};
+
+export const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return 'Unknown size';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export type EvidencePreviewKind = 'pdf' | 'image' | 'text' | 'none';
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp'];
+const TEXT_EXTENSIONS = ['txt', 'csv', 'md', 'json', 'log', 'xml'];
+
+// Older uploads may have no MIME type recorded, so fall back to the extension.
+// Office documents and anything else can't be rendered in the browser.
+export const getPreviewKind = (evidenceFile: EvidenceFile): EvidencePreviewKind => {
+  const mimeType = evidenceFile.mime_type || '';
+  const extension = evidenceFile.file_name.split('.').pop()?.toLowerCase() || '';
+
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimeType.startsWith('image/') || IMAGE_EXTENSIONS.includes(extension)) return 'image';
+  if (mimeType.startsWith('text/') || mimeType === 'application/json' || TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return 'none';
+};
@@ -0,0 +1,99 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/functions';
+
+export const EVIDENCE_PACK_BUCKET = 'evidence-packs';
+
+const SIGNED_URL_EXPIRY_SECONDS = 60;
+
+export type EvidencePackStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export const EVIDENCE_PACK_STATUSES: Record<EvidencePackStatus, string> = {
+  queued: 'Queued',
+  processing: 'Building',
+  completed: 'Ready',
+  failed: 'Failed',
+  expired: 'Expired',
+};
+
+export interface EvidencePack {
+  id: string;
+  organisation_id: string;
+  requested_by: string | null;
+  standard_ids: string[];
+  status: EvidencePackStatus;
+  file_path: string | null;
+  size_bytes: number | null;
+  record_count: number | null;
+  file_count: number | null;
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+  // Finished zips are removed after this, as they hold copies of the evidence
+  expires_at: string | null;
+  requester: {
+    full_name: string | null;
+    email: string;
+  } | null;
+}
+
+export const EVIDENCE_PACK_SELECT = '*, requester:organisation_members!evidence_packs_requested_by_fkey(full_name, email)';
+
+// Queues a pack for the given clauses; the zip is built in the background and
+// the returned id can be watched on the evidence_packs table
+export const requestEvidencePack = async (standardIds: string[]) => {
+  const { data, error } = await supabase.functions.invoke('generate-evidence-pack', {
+    body: { standardIds },
+  });
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error, 'Failed to generate evidence pack'));
+  }
+
+  return data.packId as string;
+};
+
+export const getEvidencePackSignedUrl = async (pack: EvidencePack) => {
+  if (!pack.file_path) {
+    throw new Error('This evidence pack has no file to download');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_PACK_BUCKET)
+    .createSignedUrl(pack.file_path, SIGNED_URL_EXPIRY_SECONDS, {
+      download: `evidence-pack-${format(parseISO(pack.created_at), 'yyyy-MM-dd-HHmm')}.zip`,
+    });
+
+  if (error) {
+    throw new Error(`Failed to download evidence pack: ${error.message}`);
+  }
+
+  return data.signedUrl;
+};
+
+// Packs still being built can't be deleted, as the function would go on to store the zip
+export const canDeleteEvidencePack = (pack: EvidencePack) =>
+  pack.status !== 'queued' && pack.status !== 'processing';
+
+// Removes the zip before the row, so a failed removal never leaves an object
+// that nothing points at any more
+export const deleteEvidencePack = async (pack: EvidencePack) => {
+  if (pack.file_path) {
+    const { error: removeError } = await supabase.storage
+      .from(EVIDENCE_PACK_BUCKET)
+      .remove([pack.file_path]);
+
+    if (removeError) {
+      throw new Error(`Failed to delete evidence pack file: ${removeError.message}`);
+    }
+  }
+
+  const { error } = await supabase
+    .from('evidence_packs')
+    .delete()
+    .eq('id', pack.id);
+
+  if (error) {
+    throw new Error(`Failed to delete evidence pack: ${error.message}`);
+  }
+};
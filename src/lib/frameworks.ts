@@ -0,0 +1,46 @@
+import rtoStandards2015 from '@/data/frameworks/rto-standards-2015.json';
+import outcomeStandards2025 from '@/data/frameworks/outcome-standards-2025.json';
+
+export interface FrameworkItem {
+  clause: string;
+  level: string;
+  description: string;
+  children?: FrameworkItem[];
+}
+
+// Each seed file carries its own version so imported standards record which
+// revision of the library they came from. Only complete instruments are
+// bundled; the National Code 2018 for CRICOS providers isn't yet, so its
+// clauses have to be added as custom standards.
+export interface Framework {
+  code: string;
+  name: string;
+  version: string;
+  source: string;
+  standards: FrameworkItem[];
+}
+
+export const FRAMEWORKS: Framework[] = [
+  rtoStandards2015,
+  outcomeStandards2025,
+];
+
+export interface FlatFrameworkItem {
+  clause: string;
+  level: string;
+  description: string;
+  parent_clause: string | null;
+  depth: number;
+}
+
+// Parents always come before their children, which is the order the import
+// RPC needs to resolve parent clauses
+export const flattenFramework = (
+  items: FrameworkItem[],
+  parentClause: string | null = null,
+  depth = 0
+): FlatFrameworkItem[] =>
+  items.flatMap(item => [
+    { clause: item.clause, level: item.level, description: item.description, parent_clause: parentClause, depth },
+    ...flattenFramework(item.children || [], item.clause, depth + 1),
+  ]);
@@ -0,0 +1,15 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Edge functions answer failures with { error } and a non-2xx status, which
+// supabase-js wraps in a generic error; surface the function's own message instead.
+export const getFunctionErrorMessage = async (error: unknown, fallback: string) => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return body.error as string;
+    } catch {
+      // Not a JSON body; fall through to the generic message
+    }
+  }
+  return error instanceof Error ? error.message : fallback;
+};
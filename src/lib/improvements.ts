@@ -0,0 +1,58 @@
+import { LinkedStandard, compareClauses } from '@/lib/standards';
+
+export const IMPROVEMENT_SOURCES = {
+  complaint: 'Complaint',
+  feedback: 'Feedback',
+  audit_finding: 'Audit Finding',
+  validation_outcome: 'Validation Outcome',
+  other: 'Other',
+} as const;
+
+export type ImprovementSource = keyof typeof IMPROVEMENT_SOURCES;
+
+export const IMPROVEMENT_STATUSES = {
+  identified: 'Identified',
+  in_progress: 'In Progress',
+  implemented: 'Implemented',
+  closed: 'Closed',
+} as const;
+
+export type ImprovementStatus = keyof typeof IMPROVEMENT_STATUSES;
+
+export interface LinkedRecord {
+  id: string;
+  compliance_item: string;
+  compliance_status: string;
+}
+
+export interface Improvement {
+  id: string;
+  organisation_id: string;
+  title: string;
+  source: ImprovementSource;
+  source_details: string | null;
+  identified_on: string;
+  action_taken: string | null;
+  owner_id: string | null;
+  status: ImprovementStatus;
+  outcome: string | null;
+  created_at: string;
+  owner: { full_name: string | null; email: string } | null;
+  // Links to anything in the recycle bin come back as null
+  improvement_standards: { standards: LinkedStandard | null }[];
+  improvement_records: { compliance_records: LinkedRecord | null }[];
+}
+
+export const IMPROVEMENT_SELECT = '*, owner:organisation_members!improvements_owner_id_fkey(full_name, email), improvement_standards(standards(id, standard_clause, standard_description, framework)), improvement_records(compliance_records(id, compliance_item, compliance_status))';
+
+export const getImprovementStandards = (improvement: Improvement): LinkedStandard[] =>
+  improvement.improvement_standards
+    .map(link => link.standards)
+    .filter((standard): standard is LinkedStandard => !!standard)
+    .sort((a, b) => compareClauses(a.standard_clause, b.standard_clause));
+
+export const getImprovementRecords = (improvement: Improvement): LinkedRecord[] =>
+  improvement.improvement_records
+    .map(link => link.compliance_records)
+    .filter((record): record is LinkedRecord => !!record)
+    .sort((a, b) => a.compliance_item.localeCompare(b.compliance_item));
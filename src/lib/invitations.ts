@@ -0,0 +1,19 @@
+export interface Invitation {
+  id: string;
+  email: string;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+  inviter: {
+    full_name: string | null;
+    email: string;
+  } | null;
+}
+
+export type InvitationStatus = 'Pending' | 'Expired' | 'Accepted';
+
+export const getInvitationStatus = (invitation: Invitation): InvitationStatus => {
+  if (invitation.accepted_at) return 'Accepted';
+  return new Date(invitation.expires_at) < new Date() ? 'Expired' : 'Pending';
+};
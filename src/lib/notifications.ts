@@ -0,0 +1,38 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ComplianceRecordAction = 'created' | 'updated' | 'deleted';
+
+interface ComplianceRecordSummary {
+  id: string;
+  compliance_item: string;
+  clauses: string;
+}
+
+const actionTitles: Record<ComplianceRecordAction, string> = {
+  created: 'Compliance record created',
+  updated: 'Compliance record updated',
+  deleted: 'Compliance record deleted',
+};
+
+// Notification failures are logged rather than thrown so they never undo the change itself
+export const notifyComplianceRecordChange = async (
+  organisationId: string,
+  action: ComplianceRecordAction,
+  record: ComplianceRecordSummary,
+  actorId: string,
+  actorName: string
+) => {
+  const { error } = await supabase.rpc('create_org_notification', {
+    p_organisation_id: organisationId,
+    p_type: 'compliance_record',
+    p_action: action,
+    p_title: actionTitles[action],
+    p_message: `${actorName} ${action} "${record.compliance_item}" (${record.clauses})`,
+    p_record_id: record.id,
+    p_created_by: actorId,
+  });
+
+  if (error) {
+    console.error('Error creating notification:', error);
+  }
+};
@@ -0,0 +1,221 @@
+import Papa from 'papaparse';
+import { Workbook } from 'exceljs';
+import { format, isValid, parse } from 'date-fns';
+import { COMPLIANCE_STATUSES, getReviewStatus } from '@/lib/compliance';
+import { Standard } from '@/lib/standards';
+import { unescapeFormula } from '@/lib/csv';
+
+export const IMPORT_FIELDS = {
+  compliance_item: { label: 'Compliance Item', required: true },
+  standard_clauses: { label: 'Standard Clauses', required: true },
+  compliance_status: { label: 'Compliance Status', required: true },
+  responsible_person: { label: 'Responsible Person', required: true },
+  next_review_date: { label: 'Next Review Date', required: false },
+  notes: { label: 'Notes', required: false },
+} as const;
+
+export type ImportField = keyof typeof IMPORT_FIELDS;
+
+// Column index for each field, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportMember {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export interface ImportRecord {
+  compliance_item: string;
+  compliance_status: string;
+  responsible_person: string;
+  next_review_date: string | null;
+  review_status: string | null;
+  notes: string | null;
+  standard_ids: string[];
+}
+
+export interface ValidatedRow {
+  rowNumber: number;
+  values: Record<ImportField, string>;
+  record: ImportRecord;
+  errors: string[];
+}
+
+export const IMPORT_ACCEPT = '.csv,.xlsx';
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'd/M/yyyy', 'd-M-yyyy', 'd.M.yyyy', 'd MMM yyyy', 'd MMMM yyyy'];
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  compliance_item: ['complianceitem', 'item', 'requirement', 'title'],
+  standard_clauses: ['standardclauses', 'standardclause', 'clauses', 'clause', 'standard', 'standards'],
+  compliance_status: ['compliancestatus', 'status'],
+  responsible_person: ['responsibleperson', 'responsible', 'owner', 'person'],
+  next_review_date: ['nextreviewdate', 'reviewdate', 'nextreview', 'duedate'],
+  notes: ['notes', 'comments', 'comment'],
+};
+
+const isBlankRow = (row: string[]) => row.every(cell => cell.trim() === '');
+
+const readCsv = async (file: File): Promise<string[][]> => {
+  const result = Papa.parse<string[]>(await file.text(), { skipEmptyLines: true });
+  if (result.errors.length > 0 && result.data.length === 0) {
+    throw new Error(result.errors[0].message);
+  }
+  return result.data;
+};
+
+// Only the first worksheet is read. Date cells come back as the ISO date so they
+// pass validation whatever display format the spreadsheet used.
+const readXlsx = async (file: File): Promise<string[][]> => {
+  const workbook = new Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) throw new Error('The workbook has no worksheets');
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, row => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      const cell = row.getCell(col);
+      cells.push(cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text);
+    }
+    rows.push(cells);
+  });
+  return rows;
+};
+
+// Reads a CSV or XLSX file. The first row is taken as the column headers.
+export const parseImportFile = async (file: File): Promise<ParsedSheet> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let data: string[][];
+  if (extension === 'csv') {
+    data = await readCsv(file);
+  } else if (extension === 'xlsx') {
+    data = await readXlsx(file);
+  } else {
+    throw new Error('Choose a .csv or .xlsx file');
+  }
+
+  const [headerRow, ...rows] = data.filter(row => !isBlankRow(row));
+  if (!headerRow) throw new Error('The file is empty');
+
+  return {
+    headers: headerRow.map((header, index) => header.trim() || `Column ${index + 1}`),
+    rows: rows.map(row => headerRow.map((_, index) => unescapeFormula((row[index] ?? '').trim()))),
+  };
+};
+
+// Matches columns to fields by their header, e.g. "Status" or "Due Date"
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalised = headers.map(normaliseHeader);
+  const mapping = {} as ColumnMapping;
+  (Object.keys(IMPORT_FIELDS) as ImportField[]).forEach(field => {
+    const index = normalised.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  });
+  return mapping;
+};
+
+// Accepts ISO dates and the day-first formats used in Australian spreadsheets
+export const parseImportDate = (value: string) => {
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+    // Two-digit years parse as the first century; treat them as typos
+    if (isValid(date) && date.getFullYear() >= 1900) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+// Checks every row against the organisation's standards and members. Clauses are
+// separated by semicolons or commas. Frameworks can share clause numbers, so a
+// clause matching more than one standard is an error unless a framework is chosen.
+export const validateImportRows = ({
+  rows,
+  mapping,
+  standards,
+  members,
+  framework,
+}: {
+  rows: string[][];
+  mapping: ColumnMapping;
+  standards: Standard[];
+  members: ImportMember[];
+  framework: string | null;
+}): ValidatedRow[] => {
+  const candidates = framework ? standards.filter(standard => standard.framework === framework) : standards;
+
+  return rows.map((row, index) => {
+    const values = {} as Record<ImportField, string>;
+    (Object.keys(IMPORT_FIELDS) as ImportField[]).forEach(field => {
+      const column = mapping[field];
+      values[field] = column === null ? '' : row[column] || '';
+    });
+
+    const errors: string[] = [];
+    (Object.keys(IMPORT_FIELDS) as ImportField[]).forEach(field => {
+      if (IMPORT_FIELDS[field].required && !values[field]) {
+        errors.push(`${IMPORT_FIELDS[field].label} is required`);
+      }
+    });
+
+    const status = COMPLIANCE_STATUSES.find(s => s.toLowerCase() === values.compliance_status.toLowerCase());
+    if (values.compliance_status && !status) {
+      errors.push(`"${values.compliance_status}" is not a compliance status`);
+    }
+
+    const standardIds: string[] = [];
+    values.standard_clauses
+      .split(/[;,]/)
+      .map(clause => clause.trim())
+      .filter(Boolean)
+      .forEach(clause => {
+        const matches = candidates.filter(standard => standard.standard_clause.toLowerCase() === clause.toLowerCase());
+        if (matches.length === 0) {
+          errors.push(`Clause ${clause} is not in your standards`);
+        } else if (matches.length > 1) {
+          errors.push(`Clause ${clause} is in more than one framework; choose which framework to match`);
+        } else if (!standardIds.includes(matches[0].id)) {
+          standardIds.push(matches[0].id);
+        }
+      });
+
+    const person = values.responsible_person.toLowerCase();
+    const member = members.find(m => m.full_name?.toLowerCase() === person || m.email.toLowerCase() === person);
+    if (values.responsible_person && !member) {
+      errors.push(`${values.responsible_person} is not a member of your organisation`);
+    }
+
+    const nextReviewDate = values.next_review_date ? parseImportDate(values.next_review_date) : null;
+    if (values.next_review_date && !nextReviewDate) {
+      errors.push(`"${values.next_review_date}" is not a date`);
+    }
+
+    return {
+      rowNumber: index + 2,
+      values,
+      record: {
+        compliance_item: values.compliance_item,
+        compliance_status: status || values.compliance_status,
+        // Stored the same way AddComplianceDialog stores it
+        responsible_person: member ? member.full_name || member.email : values.responsible_person,
+        next_review_date: nextReviewDate,
+        review_status: getReviewStatus(nextReviewDate),
+        notes: values.notes || null,
+        standard_ids: standardIds,
+      },
+      errors,
+    };
+  });
+};
+
+// A blank file with the expected headers, for preparing data to import
+export const buildImportTemplate = () =>
+  Papa.unparse([Object.values(IMPORT_FIELDS).map(field => field.label)]);
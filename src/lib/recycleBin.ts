@@ -0,0 +1,13 @@
+// Mirrors public.recycle_bin_retention_days(), which enforces the window server-side
+export const RECYCLE_BIN_RETENTION_DAYS = 30;
+
+export type RecycleBinTable = 'compliance_records' | 'standards';
+
+export interface RecycleBinItem {
+  item_type: string;
+  id: string;
+  label: string;
+  deleted_at: string;
+  deleted_by_name: string | null;
+  purge_after: string;
+}
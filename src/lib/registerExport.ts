@@ -0,0 +1,210 @@
+import { Workbook } from 'exceljs';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { RecordStandardLinks, formatRecordClauses } from '@/lib/standards';
+import { downloadCsv, downloadFile } from '@/lib/csv';
+
+// The app's own purple, used when an organisation hasn't set a branding colour
+const DEFAULT_BRANDING_COLOR = '#7030a0';
+
+export interface ExportOrganisation {
+  name: string;
+  rto_id: string | null;
+  branding_color: string | null;
+}
+
+export interface ExportRecord extends RecordStandardLinks {
+  compliance_item: string;
+  compliance_status: string;
+  responsible_person: string;
+  next_review_date: string | null;
+  review_status: string | null;
+  notes: string | null;
+  evidence_files: { file_name: string }[];
+}
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface RegisterExport {
+  organisation: ExportOrganisation;
+  records: ExportRecord[];
+  // Describes the search and status filters the register was exported with
+  filterDescription: string | null;
+  generatedAt?: Date;
+}
+
+// Column headers match the import wizard's fields so an exported CSV can be
+// imported again as-is
+const COLUMNS = [
+  { header: 'Compliance Item', width: 40 },
+  { header: 'Standard Clauses', width: 18 },
+  { header: 'Compliance Status', width: 18 },
+  { header: 'Responsible Person', width: 24 },
+  { header: 'Next Review Date', width: 16 },
+  { header: 'Review Status', width: 14 },
+  { header: 'Evidence Files', width: 40 },
+  { header: 'Notes', width: 40 },
+];
+
+const STATUS_FILLS: Record<string, string> = {
+  'Compliant': 'FFDCFCE7',
+  'At Risk': 'FFFEF9C3',
+  'Non-Compliant': 'FFFEE2E2',
+};
+
+const getBrandingColor = (organisation: ExportOrganisation) =>
+  organisation.branding_color && /^#[0-9a-f]{6}$/i.test(organisation.branding_color)
+    ? organisation.branding_color
+    : DEFAULT_BRANDING_COLOR;
+
+const hexToRgb = (hex: string): [number, number, number] => [
+  parseInt(hex.slice(1, 3), 16),
+  parseInt(hex.slice(3, 5), 16),
+  parseInt(hex.slice(5, 7), 16),
+];
+
+const formatDisplayDate = (date: string | null) => (date ? format(parseISO(date), 'dd/MM/yyyy') : '');
+
+const getFileName = (extension: string, generatedAt: Date) =>
+  `compliance-register-${format(generatedAt, 'yyyy-MM-dd')}.${extension}`;
+
+const getRowValues = (record: ExportRecord) => [
+  record.compliance_item,
+  formatRecordClauses(record),
+  record.compliance_status,
+  record.responsible_person,
+  record.next_review_date || '',
+  record.review_status || '',
+  record.evidence_files.map(file => file.file_name).join('; '),
+  record.notes || '',
+];
+
+const getHeaderLines = ({ organisation, filterDescription }: RegisterExport, generatedAt: Date) => [
+  organisation.rto_id ? `RTO ID: ${organisation.rto_id}` : null,
+  `Generated ${format(generatedAt, 'dd/MM/yyyy h:mm a')}`,
+  filterDescription,
+].filter((line): line is string => !!line);
+
+const exportCsv = ({ records }: RegisterExport, generatedAt: Date) => {
+  downloadCsv(getFileName('csv', generatedAt), COLUMNS.map(column => column.header), records.map(getRowValues));
+};
+
+const exportXlsx = async (register: RegisterExport, generatedAt: Date) => {
+  const { organisation, records } = register;
+  const brandingArgb = `FF${getBrandingColor(organisation).slice(1).toUpperCase()}`;
+
+  const workbook = new Workbook();
+  workbook.created = generatedAt;
+  const sheet = workbook.addWorksheet('Compliance Register', {
+    pageSetup: { orientation: 'landscape', fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+  });
+  sheet.columns = COLUMNS.map(({ width }) => ({ width }));
+
+  const titleRow = sheet.addRow([organisation.name]);
+  titleRow.font = { bold: true, size: 16, color: { argb: brandingArgb } };
+  sheet.addRow(['Compliance Register']).font = { bold: true, size: 12 };
+  getHeaderLines(register, generatedAt).forEach(line => {
+    sheet.addRow([line]).font = { color: { argb: 'FF6B7280' } };
+  });
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow(COLUMNS.map(column => column.header));
+  headerRow.eachCell(cell => {
+    cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: brandingArgb } };
+  });
+  sheet.views = [{ state: 'frozen', ySplit: headerRow.number }];
+  sheet.autoFilter = {
+    from: { row: headerRow.number, column: 1 },
+    to: { row: headerRow.number, column: COLUMNS.length },
+  };
+
+  records.forEach(record => {
+    // exceljs stores plain strings as text, never formulas, so no escaping here
+    const values: (string | Date)[] = getRowValues(record);
+    // Real dates so the column sorts and filters as dates in Excel
+    if (record.next_review_date) values[4] = parseISO(record.next_review_date);
+    const row = sheet.addRow(values);
+    row.alignment = { vertical: 'top', wrapText: true };
+    row.getCell(5).numFmt = 'dd/mm/yyyy';
+
+    const statusFill = STATUS_FILLS[record.compliance_status];
+    if (statusFill) {
+      row.getCell(3).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: statusFill } };
+    }
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadFile(
+    getFileName('xlsx', generatedAt),
+    buffer,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+};
+
+const exportPdf = (register: RegisterExport, generatedAt: Date) => {
+  const { organisation, records } = register;
+  const brandingRgb = hexToRgb(getBrandingColor(organisation));
+
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFillColor(...brandingRgb);
+  doc.rect(0, 0, pageWidth, 6, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(...brandingRgb);
+  doc.text(organisation.name, 14, 18);
+
+  doc.setFontSize(12);
+  doc.setTextColor(17, 24, 39);
+  doc.text('Compliance Register', 14, 26);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(107, 114, 128);
+  const headerLines = getHeaderLines(register, generatedAt);
+  headerLines.forEach((line, index) => doc.text(line, 14, 32 + index * 5));
+
+  autoTable(doc, {
+    startY: 34 + headerLines.length * 5,
+    head: [COLUMNS.map(column => column.header)],
+    body: records.map(record => {
+      const values = getRowValues(record);
+      values[4] = formatDisplayDate(record.next_review_date);
+      values[6] = record.evidence_files.map(file => file.file_name).join('\n');
+      return values;
+    }),
+    styles: { fontSize: 8, cellPadding: 2, overflow: 'linebreak', valign: 'top' },
+    headStyles: { fillColor: brandingRgb, textColor: 255 },
+    columnStyles: {
+      0: { cellWidth: 50 },
+      6: { cellWidth: 50 },
+      7: { cellWidth: 50 },
+    },
+    didDrawPage: () => {
+      const pageHeight = doc.internal.pageSize.getHeight();
+      doc.setFontSize(8);
+      doc.setTextColor(107, 114, 128);
+      doc.text(`${organisation.name} · Compliance Register`, 14, pageHeight - 8);
+      doc.text(`Page ${doc.getNumberOfPages()}`, pageWidth - 14, pageHeight - 8, { align: 'right' });
+    },
+  });
+
+  doc.save(getFileName('pdf', generatedAt));
+};
+
+// Builds the register in the chosen format and starts the download in the browser
+export const exportRegister = async (exportFormat: ExportFormat, register: RegisterExport) => {
+  const generatedAt = register.generatedAt || new Date();
+  switch (exportFormat) {
+    case 'csv':
+      return exportCsv(register, generatedAt);
+    case 'xlsx':
+      return exportXlsx(register, generatedAt);
+    case 'pdf':
+      return exportPdf(register, generatedAt);
+  }
+};
@@ -0,0 +1,87 @@
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+export const SCOPE_PRODUCT_TYPES = {
+  qualification: 'Qualification',
+  skill_set: 'Skill Set',
+  unit: 'Unit',
+  accredited_course: 'Accredited Course',
+} as const;
+
+export type ScopeProductType = keyof typeof SCOPE_PRODUCT_TYPES;
+
+export const SCOPE_STATUSES = {
+  current: 'Current',
+  teach_out: 'Teach-Out',
+  superseded: 'Superseded',
+} as const;
+
+export type ScopeStatus = keyof typeof SCOPE_STATUSES;
+
+// Teach-outs ending within this many days are flagged as due
+export const TRANSITION_WARNING_DAYS = 90;
+
+export interface ScopeItem {
+  id: string;
+  organisation_id: string;
+  rto_id: string;
+  product_type: ScopeProductType;
+  code: string;
+  title: string;
+  status: ScopeStatus;
+  superseded_by: string | null;
+  transition_ends_on: string | null;
+  on_scope_from: string | null;
+  extent: string | null;
+  notes: string | null;
+  source: 'manual' | 'import';
+  last_imported_at: string | null;
+  created_at: string;
+}
+
+export const normaliseCode = (code: string) => code.trim().toUpperCase();
+
+// Training product codes follow national patterns, e.g. BSB40120 (qualification),
+// BSBSS00123 (skill set), 10234NAT (accredited course); anything else is a unit
+export const inferProductType = (code: string): ScopeProductType => {
+  const normalised = normaliseCode(code);
+  if (/^\d+NAT$/.test(normalised)) return 'accredited_course';
+  if (/^[A-Z]{3}SS\d+$/.test(normalised)) return 'skill_set';
+  if (/^[A-Z]{3}\d{5}$/.test(normalised)) return 'qualification';
+  return 'unit';
+};
+
+// Days until a teach-out ends; negative once it has passed
+export const getDaysToTransition = (item: Pick<ScopeItem, 'transition_ends_on'>, today: Date = new Date()) =>
+  item.transition_ends_on
+    ? differenceInCalendarDays(parseISO(item.transition_ends_on), startOfDay(today))
+    : null;
+
+export const isTransitionDue = (item: Pick<ScopeItem, 'status' | 'transition_ends_on'>, today: Date = new Date()) =>
+  item.status === 'teach_out' &&
+  !!item.transition_ends_on &&
+  parseISO(item.transition_ends_on) <= addDays(startOfDay(today), TRANSITION_WARNING_DAYS);
+
+export type ScopeLookupItem = Pick<ScopeItem, 'product_type' | 'code' | 'title' | 'status' | 'transition_ends_on'>;
+
+// Fetches the products on scope for the organisation's current RTO ID, for
+// checking what other registers refer to against it
+export const fetchScopeLookup = async (organisationId: string): Promise<ScopeLookupItem[]> => {
+  const { data: organisation, error: organisationError } = await supabase
+    .from('organisations')
+    .select('rto_id')
+    .eq('id', organisationId)
+    .single();
+
+  if (organisationError) throw organisationError;
+  if (!organisation.rto_id) return [];
+
+  const { data, error } = await supabase
+    .from('scope_items')
+    .select('product_type, code, title, status, transition_ends_on')
+    .eq('organisation_id', organisationId)
+    .eq('rto_id', organisation.rto_id);
+
+  if (error) throw error;
+  return (data || []) as ScopeLookupItem[];
+};
@@ -0,0 +1,275 @@
+import Papa from 'papaparse';
+import { parseISO, startOfDay } from 'date-fns';
+import { parseImportDate } from '@/lib/recordImport';
+import {
+  ScopeItem,
+  ScopeProductType,
+  ScopeStatus,
+  inferProductType,
+  normaliseCode,
+} from '@/lib/scope';
+
+export const SCOPE_IMPORT_ACCEPT = '.csv,.xml';
+
+type ScopeImportField =
+  | 'code'
+  | 'title'
+  | 'product_type'
+  | 'status'
+  | 'superseded_by'
+  | 'on_scope_from'
+  | 'transition_ends_on'
+  | 'extent';
+
+// A product as it appears in the file, before validation
+export type RawScopeRow = Record<ScopeImportField, string>;
+
+export interface ParsedScopeFile {
+  // The RTO the export was taken for, when the file says
+  rtoCode: string | null;
+  rows: RawScopeRow[];
+}
+
+export interface ScopeImportItem {
+  product_type: ScopeProductType;
+  code: string;
+  title: string;
+  status: ScopeStatus;
+  superseded_by: string | null;
+  transition_ends_on: string | null;
+  on_scope_from: string | null;
+  extent: string | null;
+}
+
+export type ScopeImportChange = 'new' | 'updated' | 'unchanged';
+
+export interface ValidatedScopeRow {
+  rowNumber: number;
+  values: RawScopeRow;
+  item: ScopeImportItem;
+  change: ScopeImportChange;
+  errors: string[];
+}
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+// Column headings and XML element names used by training.gov.au exports and
+// the web services, plus a few obvious alternatives
+const FIELD_ALIASES: Record<ScopeImportField, string[]> = {
+  code: ['code', 'nrtcode', 'nationalcode', 'trainingcomponentcode', 'componentcode', 'productcode'],
+  title: ['title', 'nrttitle', 'name', 'trainingcomponenttitle', 'componenttitle', 'producttitle'],
+  product_type: ['type', 'componenttype', 'trainingcomponenttype', 'producttype', 'nrttype'],
+  status: ['status', 'usagerecommendation', 'scopestatus', 'componentstatus'],
+  superseded_by: ['supersededby', 'replacedby', 'successor', 'equivalentto'],
+  on_scope_from: ['startdate', 'scopestartdate', 'onscopefrom', 'scopefrom'],
+  transition_ends_on: ['enddate', 'scopeenddate', 'transitionenddate', 'teachoutenddate', 'transitionends'],
+  extent: ['extent', 'scopeextent', 'deliveryextent'],
+};
+
+const RTO_CODE_ALIASES = ['rtocode', 'rtoid', 'rtonumber', 'organisationcode', 'providercode'];
+
+const FIELDS = Object.keys(FIELD_ALIASES) as ScopeImportField[];
+
+const findField = (name: string) => {
+  const normalised = normaliseName(name);
+  return FIELDS.find(field => FIELD_ALIASES[field].includes(normalised)) || null;
+};
+
+const emptyRow = (): RawScopeRow =>
+  Object.fromEntries(FIELDS.map(field => [field, ''])) as RawScopeRow;
+
+const readCsv = (text: string): ParsedScopeFile => {
+  const result = Papa.parse<string[]>(text, { skipEmptyLines: true });
+  if (result.errors.length > 0 && result.data.length === 0) {
+    throw new Error(result.errors[0].message);
+  }
+
+  // Exports can open with a title line or two; the header is the first row with a code column
+  const headerIndex = result.data.findIndex(row => row.some(cell => findField(cell) === 'code'));
+  if (headerIndex === -1) {
+    throw new Error('No Code column was found in the file');
+  }
+
+  const headers = result.data[headerIndex];
+  const columns = headers.map(findField);
+  const rtoColumn = headers.findIndex(header => RTO_CODE_ALIASES.includes(normaliseName(header)));
+
+  const rows = result.data.slice(headerIndex + 1)
+    .filter(cells => cells.some(cell => cell.trim() !== ''))
+    .map(cells => {
+      const row = emptyRow();
+      columns.forEach((field, index) => {
+        if (field && !row[field]) row[field] = (cells[index] ?? '').trim();
+      });
+      return row;
+    });
+
+  const rtoCode = rtoColumn === -1 ? null : (result.data[headerIndex + 1]?.[rtoColumn] ?? '').trim() || null;
+  return { rtoCode, rows };
+};
+
+const childText = (element: Element) =>
+  Array.from(element.children).map(child => ({ field: findField(child.localName), text: child.textContent?.trim() || '' }));
+
+// Any element with its own Code and Title children is a product. Elements that
+// contain products themselves (e.g. the RTO, which also has a Code) are skipped.
+const readXml = (text: string): ParsedScopeFile => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+
+  const isProduct = (element: Element) => {
+    const fields = childText(element).filter(child => child.text).map(child => child.field);
+    return fields.includes('code') && fields.includes('title');
+  };
+
+  const candidates = Array.from(xml.getElementsByTagName('*')).filter(isProduct);
+  const products = candidates.filter(element => !candidates.some(other => other !== element && element.contains(other)));
+
+  const rows = products.map(element => {
+    const row = emptyRow();
+    childText(element).forEach(({ field, text: value }) => {
+      if (field && !row[field]) row[field] = value;
+    });
+    return row;
+  });
+
+  const rtoElement = Array.from(xml.getElementsByTagName('*'))
+    .find(element => element.children.length === 0 && RTO_CODE_ALIASES.includes(normaliseName(element.localName)));
+
+  return { rtoCode: rtoElement?.textContent?.trim() || null, rows };
+};
+
+// Reads a scope export saved from training.gov.au, as CSV or XML
+export const parseScopeFile = async (file: File): Promise<ParsedScopeFile> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const text = await file.text();
+  let parsed: ParsedScopeFile;
+  if (extension === 'csv') {
+    parsed = readCsv(text);
+  } else if (extension === 'xml') {
+    parsed = readXml(text);
+  } else {
+    throw new Error('Choose a .csv or .xml file');
+  }
+
+  if (parsed.rows.length === 0) {
+    throw new Error('No training products were found in the file');
+  }
+  return parsed;
+};
+
+const PRODUCT_TYPE_ALIASES: Record<string, ScopeProductType> = {
+  qualification: 'qualification',
+  skillset: 'skill_set',
+  unit: 'unit',
+  unitofcompetency: 'unit',
+  accreditedunit: 'unit',
+  accreditedcourse: 'accredited_course',
+  course: 'accredited_course',
+};
+
+const STATUS_ALIASES: Record<string, ScopeStatus> = {
+  current: 'current',
+  superseded: 'superseded',
+  deleted: 'superseded',
+  expired: 'superseded',
+  noncurrent: 'superseded',
+  teachout: 'teach_out',
+  transition: 'teach_out',
+  intransition: 'teach_out',
+};
+
+// Web service dates carry a time, e.g. 2024-06-30T00:00:00
+const parseScopeDate = (value: string) =>
+  parseImportDate(/^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value);
+
+// Follows import_scope_items: blank optional fields keep what's stored, and a
+// product back to current loses its end date
+const sameItem = (existing: ScopeItem, item: ScopeImportItem) =>
+  existing.product_type === item.product_type &&
+  existing.title === item.title &&
+  existing.status === item.status &&
+  existing.superseded_by === (item.superseded_by ?? existing.superseded_by) &&
+  existing.transition_ends_on === (item.status === 'current' ? null : item.transition_ends_on ?? existing.transition_ends_on) &&
+  existing.on_scope_from === (item.on_scope_from ?? existing.on_scope_from) &&
+  existing.extent === (item.extent ?? existing.extent);
+
+// Checks each product and works out what importing it will change. A superseded
+// product whose end date hasn't passed is still in its teach-out period.
+export const validateScopeRows = (
+  rows: RawScopeRow[],
+  existingItems: ScopeItem[],
+  today: Date = new Date()
+): ValidatedScopeRow[] => {
+  const seen = new Set<string>();
+
+  return rows.map((values, index) => {
+    const errors: string[] = [];
+    const code = normaliseCode(values.code);
+    const title = values.title.trim();
+
+    if (!code) errors.push('Code is required');
+    if (!title) errors.push('Title is required');
+    if (code && seen.has(code)) errors.push(`${code} appears more than once in the file`);
+    if (code) seen.add(code);
+
+    let productType: ScopeProductType = inferProductType(code);
+    if (values.product_type) {
+      const match = PRODUCT_TYPE_ALIASES[normaliseName(values.product_type)];
+      if (match) {
+        productType = match;
+      } else {
+        errors.push(`"${values.product_type}" is not a training product type`);
+      }
+    }
+
+    const onScopeFrom = values.on_scope_from ? parseScopeDate(values.on_scope_from) : null;
+    if (values.on_scope_from && !onScopeFrom) {
+      errors.push(`"${values.on_scope_from}" is not a date`);
+    }
+
+    const endDate = values.transition_ends_on ? parseScopeDate(values.transition_ends_on) : null;
+    if (values.transition_ends_on && !endDate) {
+      errors.push(`"${values.transition_ends_on}" is not a date`);
+    }
+    const endPassed = !!endDate && parseISO(endDate) < startOfDay(today);
+
+    let status: ScopeStatus = endPassed ? 'superseded' : 'current';
+    if (values.status) {
+      const match = STATUS_ALIASES[normaliseName(values.status)];
+      if (match) {
+        status = match;
+      } else {
+        errors.push(`"${values.status}" is not a scope status`);
+      }
+    }
+    if (status === 'superseded' && endDate && !endPassed) status = 'teach_out';
+    if (status === 'teach_out' && !endDate) {
+      errors.push('A teach-out needs an end date');
+    }
+
+    const item: ScopeImportItem = {
+      product_type: productType,
+      code,
+      title,
+      status,
+      superseded_by: values.superseded_by ? normaliseCode(values.superseded_by) : null,
+      // The end date only matters once a product is on its way out
+      transition_ends_on: status === 'current' ? null : endDate,
+      on_scope_from: onScopeFrom,
+      extent: values.extent || null,
+    };
+
+    const existing = existingItems.find(scopeItem => scopeItem.code === code);
+
+    return {
+      rowNumber: index + 1,
+      values,
+      item,
+      change: !existing ? 'new' : sameItem(existing, item) ? 'unchanged' : 'updated',
+      errors,
+    };
+  });
+};
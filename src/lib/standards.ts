@@ -0,0 +1,147 @@
+import { COMPLIANCE_STATUSES } from '@/lib/compliance';
+
+export const STANDARD_LEVELS = {
+  standard: 'Standard',
+  outcome: 'Outcome',
+  clause: 'Clause',
+  sub_clause: 'Sub-clause',
+} as const;
+
+export type StandardLevel = keyof typeof STANDARD_LEVELS;
+
+export interface Standard {
+  id: string;
+  parent_id: string | null;
+  level: string;
+  standard_clause: string;
+  standard_description: string;
+  framework: string | null;
+  created_at: string;
+}
+
+export interface StandardNode<T extends Standard = Standard> {
+  standard: T;
+  children: StandardNode<T>[];
+}
+
+// Compares clause numbers segment by segment so 1.2 sorts before 1.10
+export const compareClauses = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Builds the standards tree with each level sorted by clause number. A standard
+// whose parent isn't in the list (e.g. the parent is in the recycle bin) is shown
+// at the top level rather than hidden.
+export const buildStandardTree = <T extends Standard>(standards: T[]): StandardNode<T>[] => {
+  const nodes = new Map(standards.map(standard => [standard.id, { standard, children: [] as StandardNode<T>[] }]));
+  const roots: StandardNode<T>[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.standard.parent_id ? nodes.get(node.standard.parent_id) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  const sortNodes = (list: StandardNode<T>[]) => {
+    list.sort((a, b) => compareClauses(a.standard.standard_clause, b.standard.standard_clause));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+};
+
+// Ids of the standard and everything nested under it
+export const getDescendantIds = (standards: Standard[], id: string) => {
+  const ids = new Set([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    standards.forEach(standard => {
+      if (standard.parent_id && ids.has(standard.parent_id) && !ids.has(standard.id)) {
+        ids.add(standard.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+// COMPLIANCE_STATUSES runs from best to worst; a parent takes the worst status
+// found anywhere beneath it
+const STATUS_SEVERITY: readonly string[] = COMPLIANCE_STATUSES;
+
+const worstStatus = (statuses: string[]) =>
+  statuses.reduce<string | null>(
+    (worst, status) => worst === null || STATUS_SEVERITY.indexOf(status) > STATUS_SEVERITY.indexOf(worst) ? status : worst,
+    null
+  );
+
+export interface RolledUpStatus {
+  status: string | null;
+  recordCount: number;
+}
+
+// Rolls compliance status up the tree: each standard reports the worst status of
+// the records linked to it and to every descendant, along with the number of
+// records that contributed. A record linked at more than one level is counted
+// once. Standards with no records anywhere below them have no status.
+export const rollUpStatuses = (
+  tree: StandardNode[],
+  records: { id: string; compliance_status: string; standard_ids: string[] }[]
+) => {
+  const recordsByStandard = new Map<string, { id: string; compliance_status: string }[]>();
+  records.forEach(record => {
+    record.standard_ids.forEach(standardId => {
+      const linked = recordsByStandard.get(standardId) || [];
+      linked.push(record);
+      recordsByStandard.set(standardId, linked);
+    });
+  });
+
+  const result = new Map<string, RolledUpStatus>();
+
+  const visit = (node: StandardNode): Map<string, string> => {
+    const statuses = new Map<string, string>();
+    (recordsByStandard.get(node.standard.id) || []).forEach(record => statuses.set(record.id, record.compliance_status));
+    node.children.forEach(child => visit(child).forEach((status, id) => statuses.set(id, status)));
+    result.set(node.standard.id, { status: worstStatus(Array.from(statuses.values())), recordCount: statuses.size });
+    return statuses;
+  };
+  tree.forEach(visit);
+
+  return result;
+};
+
+// The tree in display order, with each standard's depth for indenting
+export const flattenStandardTree = <T extends Standard>(tree: StandardNode<T>[], depth = 0): { standard: T; depth: number }[] =>
+  tree.flatMap(node => [{ standard: node.standard, depth }, ...flattenStandardTree(node.children, depth + 1)]);
+
+// The level a new child of the given standard usually sits at
+export const getChildLevel = (parentLevel: string | undefined): StandardLevel => {
+  const levels = Object.keys(STANDARD_LEVELS) as StandardLevel[];
+  const index = levels.indexOf(parentLevel as StandardLevel);
+  return index === -1 ? 'clause' : levels[Math.min(index + 1, levels.length - 1)];
+};
+
+// Embeds a compliance record's linked standards. Standards in the recycle bin are
+// hidden by RLS and come back as null.
+export const RECORD_STANDARDS_SELECT = 'compliance_record_standards(standards(id, standard_clause, standard_description, framework))';
+
+export interface LinkedStandard {
+  id: string;
+  standard_clause: string;
+  standard_description: string;
+  framework: string | null;
+}
+
+export interface RecordStandardLinks {
+  compliance_record_standards: { standards: LinkedStandard | null }[];
+}
+
+export const getRecordStandards = (record: RecordStandardLinks): LinkedStandard[] =>
+  record.compliance_record_standards
+    .map(link => link.standards)
+    .filter((standard): standard is LinkedStandard => !!standard)
+    .sort((a, b) => compareClauses(a.standard_clause, b.standard_clause));
+
+export const formatRecordClauses = (record: RecordStandardLinks) =>
+  getRecordStandards(record).map(standard => standard.standard_clause).join(', ');
@@ -0,0 +1,198 @@
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { EVIDENCE_BUCKET } from '@/lib/evidence';
+
+const SIGNED_URL_EXPIRY_SECONDS = 60;
+
+export const CREDENTIAL_TYPES = {
+  tae_qualification: 'TAE Qualification',
+  vocational_competency: 'Vocational Competency',
+  industry_currency: 'Industry Currency',
+  other: 'Other',
+} as const;
+
+export type CredentialType = keyof typeof CREDENTIAL_TYPES;
+
+// Credentials expiring within this many days are flagged before they lapse
+export const EXPIRING_WITHIN_DAYS = 60;
+
+export type CredentialStatus = 'current' | 'expiring' | 'expired' | 'missing';
+
+export const CREDENTIAL_STATUSES: Record<CredentialStatus, string> = {
+  current: 'Current',
+  expiring: 'Expiring Soon',
+  expired: 'Expired',
+  missing: 'Missing',
+};
+
+export interface TrainerUnit {
+  id: string;
+  organisation_id: string;
+  member_id: string;
+  unit_code: string;
+  unit_title: string | null;
+}
+
+export interface TrainerCredential {
+  id: string;
+  organisation_id: string;
+  member_id: string;
+  credential_type: CredentialType;
+  title: string;
+  code: string | null;
+  issuer: string | null;
+  achieved_on: string | null;
+  expires_on: string | null;
+  unit_codes: string[];
+  notes: string | null;
+  certificate_name: string | null;
+  certificate_path: string | null;
+  certificate_mime_type: string | null;
+  certificate_size_bytes: number | null;
+  created_at: string;
+}
+
+export const normaliseUnitCode = (code: string) => code.trim().toUpperCase();
+
+export const getCredentialStatus = (
+  credential: Pick<TrainerCredential, 'expires_on'>,
+  today: Date = new Date()
+): CredentialStatus => {
+  if (!credential.expires_on) return 'current';
+  const expiresOn = parseISO(credential.expires_on);
+  if (expiresOn < startOfDay(today)) return 'expired';
+  if (expiresOn <= addDays(startOfDay(today), EXPIRING_WITHIN_DAYS)) return 'expiring';
+  return 'current';
+};
+
+// The requirements every unit a trainer delivers is checked against
+export const MATRIX_REQUIREMENTS = ['tae_qualification', 'vocational_competency', 'industry_currency'] as const;
+
+export type MatrixRequirement = typeof MATRIX_REQUIREMENTS[number];
+
+// The TAE qualification covers everything a trainer delivers. Vocational
+// competency and industry currency cover the units they list, or every unit
+// when they list none.
+const coversUnit = (credential: TrainerCredential, requirement: MatrixRequirement, unitCode: string | null) => {
+  if (credential.credential_type !== requirement) return false;
+  if (requirement === 'tae_qualification' || credential.unit_codes.length === 0) return true;
+  return unitCode !== null && credential.unit_codes.includes(unitCode);
+};
+
+const STATUS_RANK: Record<CredentialStatus, number> = { current: 0, expiring: 1, expired: 2, missing: 3 };
+
+export interface MatrixCell {
+  status: CredentialStatus;
+  // The credential the status comes from; null when missing
+  credential: TrainerCredential | null;
+}
+
+// Picks the best credential meeting a requirement, so one lapsed certificate
+// doesn't flag a trainer who also holds a current one
+export const getMatrixCell = (
+  credentials: TrainerCredential[],
+  requirement: MatrixRequirement,
+  unitCode: string | null,
+  today: Date = new Date()
+): MatrixCell => {
+  const cells = credentials
+    .filter(credential => coversUnit(credential, requirement, unitCode))
+    .map(credential => ({ status: getCredentialStatus(credential, today), credential }))
+    .sort((a, b) =>
+      STATUS_RANK[a.status] - STATUS_RANK[b.status] ||
+      (b.credential.expires_on || '9999-12-31').localeCompare(a.credential.expires_on || '9999-12-31')
+    );
+  return cells[0] || { status: 'missing', credential: null };
+};
+
+export interface MatrixRow {
+  memberId: string;
+  // Null for a trainer with credentials but no units recorded yet
+  unit: TrainerUnit | null;
+  cells: Record<MatrixRequirement, MatrixCell>;
+}
+
+export const buildCredentialsMatrix = (
+  units: TrainerUnit[],
+  credentials: TrainerCredential[],
+  today: Date = new Date()
+): MatrixRow[] => {
+  const memberIds = Array.from(new Set([...units.map(u => u.member_id), ...credentials.map(c => c.member_id)]));
+
+  return memberIds.flatMap(memberId => {
+    const memberCredentials = credentials.filter(c => c.member_id === memberId);
+    const memberUnits: (TrainerUnit | null)[] = units
+      .filter(u => u.member_id === memberId)
+      .sort((a, b) => a.unit_code.localeCompare(b.unit_code));
+
+    return (memberUnits.length > 0 ? memberUnits : [null]).map(unit => ({
+      memberId,
+      unit,
+      cells: Object.fromEntries(
+        MATRIX_REQUIREMENTS.map(requirement => [
+          requirement,
+          getMatrixCell(memberCredentials, requirement, unit?.unit_code ?? null, today),
+        ])
+      ) as Record<MatrixRequirement, MatrixCell>,
+    }));
+  });
+};
+
+// Rows without a unit only show the TAE column, so only that one can flag them
+export const getRowStatuses = (row: MatrixRow) =>
+  (row.unit ? MATRIX_REQUIREMENTS : (['tae_qualification'] as const)).map(requirement => row.cells[requirement].status);
+
+// Uploads a certificate under the trainer's folder in the evidence bucket. The
+// caller stores the returned details on the credential row.
+export const uploadCertificate = async (file: File, organisationId: string, memberId: string) => {
+  const fileExt = file.name.split('.').pop();
+  const storedName = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
+  const filePath = `${organisationId}/trainers/${memberId}/${storedName}`;
+
+  const { error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false
+    });
+
+  if (error) {
+    throw new Error(`Failed to upload certificate ${file.name}: ${error.message}`);
+  }
+
+  return {
+    certificate_name: file.name,
+    certificate_path: filePath,
+    certificate_mime_type: file.type || null,
+    certificate_size_bytes: file.size,
+  };
+};
+
+// A leftover object is only wasted space, so failures are logged rather than thrown
+export const removeCertificate = async (certificatePath: string) => {
+  const { error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .remove([certificatePath]);
+
+  if (error) {
+    console.warn(`Could not delete stored object ${certificatePath}:`, error);
+  }
+};
+
+export const getCertificateSignedUrl = async (credential: TrainerCredential) => {
+  if (!credential.certificate_path) {
+    throw new Error('No certificate has been uploaded for this credential');
+  }
+
+  const { data, error } = await supabase.storage
+    .from(EVIDENCE_BUCKET)
+    .createSignedUrl(credential.certificate_path, SIGNED_URL_EXPIRY_SECONDS, {
+      download: credential.certificate_name || undefined,
+    });
+
+  if (error) {
+    throw new Error(`Failed to open certificate ${credential.certificate_name}: ${error.message}`);
+  }
+
+  return data.signedUrl;
+};
@@ -1,14 +1,326 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DateRange } from 'react-day-picker';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent } from '@/components/ui/card';
+import { BarChart3, Database, AlertTriangle, Paperclip } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AnalyticsFilters, ClauseOption } from '@/components/analytics/AnalyticsFilters';
+import { StatusByClauseChart, ClauseStatusDatum } from '@/components/analytics/StatusByClauseChart';
+import { OverdueByPersonChart, PersonOverdueDatum } from '@/components/analytics/OverdueByPersonChart';
+import { EvidenceCoverageChart } from '@/components/analytics/EvidenceCoverageChart';
+import { ComplianceTrendChart, ComplianceTrendDatum } from '@/components/analytics/ComplianceTrendChart';
+import { CorrectiveActionsPanel, CorrectiveActionDatum } from '@/components/analytics/CorrectiveActionsPanel';
+import { ComplaintsSummary, ComplaintDatum } from '@/components/analytics/ComplaintsSummary';
+import { COMPLIANCE_STATUSES, getComplianceRate, isReviewOverdue } from '@/lib/compliance';
+import { LinkedStandard, RECORD_STANDARDS_SELECT, RecordStandardLinks, compareClauses, getRecordStandards } from '@/lib/standards';
+import { Json } from '@/integrations/supabase/types';
 
-import React from 'react';
-import { BarChart3 } from 'lucide-react';
+interface AnalyticsRecord extends RecordStandardLinks {
+  id: string;
+  compliance_status: string;
+  responsible_person: string;
+  next_review_date: string | null;
+  review_status: string | null;
+  evidence_files: { id: string }[];
+  created_at: string;
+}
+
+interface ComplianceSnapshot {
+  snapshot_date: string;
+  total_records: number;
+  compliant_count: number;
+  at_risk_count: number;
+  non_compliant_count: number;
+  overall_compliance: number;
+  clause_counts: Json;
+}
+
+// Snapshot counts are keyed by standard id
+type ClauseCounts = Record<string, { total: number; 'Compliant': number; 'At Risk': number; 'Non-Compliant': number }>;
+
+// Clause numbers repeat across frameworks (1.1 is in both the 2015 and 2025
+// standards), so clauses are grouped and filtered by standard id
+const getStandardIds = (record: AnalyticsRecord) =>
+  getRecordStandards(record).map(standard => standard.id);
+
+const isOverdue = (record: AnalyticsRecord) =>
+  record.review_status?.toLowerCase() === 'overdue' || isReviewOverdue(record.next_review_date);
 
 export const Analytics = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [records, setRecords] = useState<AnalyticsRecord[]>([]);
+  const [snapshots, setSnapshots] = useState<ComplianceSnapshot[]>([]);
+  const [correctiveActions, setCorrectiveActions] = useState<CorrectiveActionDatum[]>([]);
+  const [complaints, setComplaints] = useState<ComplaintDatum[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [clauseFilter, setClauseFilter] = useState('all');
+  const [personFilter, setPersonFilter] = useState('all');
+
+  const fetchRecords = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const [recordsResult, snapshotsResult, actionsResult, complaintsResult] = await Promise.all([
+        supabase
+          .from('compliance_records')
+          .select(`id, compliance_status, responsible_person, next_review_date, review_status, created_at, evidence_files(id), ${RECORD_STANDARDS_SELECT}`)
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('compliance_snapshots')
+          .select('snapshot_date, total_records, compliant_count, at_risk_count, non_compliant_count, overall_compliance, clause_counts')
+          .eq('organisation_id', organisationMember.organisation_id)
+          .order('snapshot_date', { ascending: true }),
+        // The inner join leaves out actions on records in the recycle bin
+        supabase
+          .from('corrective_actions')
+          .select('id, record_id, planned_action, status, due_date, owner:organisation_members!corrective_actions_owner_id_fkey(full_name, email), compliance_records!inner(compliance_item)')
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('complaints')
+          .select('id, kind, complainant_type, received_on, acknowledge_by, acknowledged_on, resolve_by, resolved_on, status, referred_externally')
+          .eq('organisation_id', organisationMember.organisation_id)
+      ]);
+
+      if (recordsResult.error) throw recordsResult.error;
+      if (snapshotsResult.error) throw snapshotsResult.error;
+      if (actionsResult.error) throw actionsResult.error;
+      if (complaintsResult.error) throw complaintsResult.error;
+      setRecords(recordsResult.data || []);
+      setSnapshots(snapshotsResult.data || []);
+      setCorrectiveActions((actionsResult.data || []) as CorrectiveActionDatum[]);
+      setComplaints((complaintsResult.data || []) as ComplaintDatum[]);
+    } catch (error) {
+      console.error('Error fetching analytics data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch analytics data",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRecords();
+  }, [organisationMember]);
+
+  // Labelled with the framework only where the clause number alone is ambiguous
+  const clauses = useMemo((): ClauseOption[] => {
+    const linked = new Map<string, LinkedStandard>();
+    records.forEach(record => getRecordStandards(record).forEach(standard => linked.set(standard.id, standard)));
+    const standards = Array.from(linked.values());
+
+    return standards
+      .sort((a, b) => compareClauses(a.standard_clause, b.standard_clause) || (a.framework || '').localeCompare(b.framework || ''))
+      .map(standard => ({
+        id: standard.id,
+        label: standards.some(other => other.id !== standard.id && other.standard_clause === standard.standard_clause)
+          ? `${standard.standard_clause} (${standard.framework || 'custom'})`
+          : standard.standard_clause,
+      }));
+  }, [records]);
+
+  const people = useMemo(
+    () => Array.from(new Set(records.map(r => r.responsible_person))).sort(),
+    [records]
+  );
+
+  const filteredRecords = useMemo(() => records.filter(record => {
+    const createdAt = new Date(record.created_at);
+    const matchesFrom = !dateRange?.from || createdAt >= startOfDay(dateRange.from);
+    const matchesTo = !dateRange?.from || createdAt <= endOfDay(dateRange.to || dateRange.from);
+    const matchesClause = clauseFilter === 'all' || getStandardIds(record).includes(clauseFilter);
+    const matchesPerson = personFilter === 'all' || record.responsible_person === personFilter;
+
+    return matchesFrom && matchesTo && matchesClause && matchesPerson;
+  }), [records, dateRange, clauseFilter, personFilter]);
+
+  const statusByClause = useMemo(() => {
+    const byClause = new Map<string, ClauseStatusDatum>();
+    // A record covering several clauses counts towards each of them
+    filteredRecords.forEach(record => {
+      getStandardIds(record).forEach(standardId => {
+        const datum = byClause.get(standardId) || {
+          clause: clauses.find(clause => clause.id === standardId)?.label || '',
+          'Compliant': 0,
+          'At Risk': 0,
+          'Non-Compliant': 0,
+        };
+        if ((COMPLIANCE_STATUSES as readonly string[]).includes(record.compliance_status)) {
+          datum[record.compliance_status as keyof Omit<ClauseStatusDatum, 'clause'>] += 1;
+        }
+        byClause.set(standardId, datum);
+      });
+    });
+    // Follows the order of the clause options
+    return clauses.flatMap(clause => byClause.get(clause.id) || []);
+  }, [filteredRecords, clauses]);
+
+  // Actions follow the filters through the records they were raised against
+  const filteredActions = useMemo(() => {
+    const recordIds = new Set(filteredRecords.map(record => record.id));
+    return correctiveActions.filter(action => recordIds.has(action.record_id));
+  }, [correctiveActions, filteredRecords]);
+
+  // Complaints aren't tied to clauses or people, so only the date range applies
+  const filteredComplaints = useMemo(() => complaints.filter(complaint => {
+    const receivedOn = parseISO(complaint.received_on);
+    const matchesFrom = !dateRange?.from || receivedOn >= startOfDay(dateRange.from);
+    const matchesTo = !dateRange?.from || receivedOn <= endOfDay(dateRange.to || dateRange.from);
+
+    return matchesFrom && matchesTo;
+  }), [complaints, dateRange]);
+
+  const overdueByPerson = useMemo(() => {
+    const byPerson = new Map<string, number>();
+    filteredRecords.filter(isOverdue).forEach(record => {
+      byPerson.set(record.responsible_person, (byPerson.get(record.responsible_person) || 0) + 1);
+    });
+    return Array.from(byPerson.entries())
+      .map(([person, overdue]): PersonOverdueDatum => ({ person, overdue }))
+      .sort((a, b) => b.overdue - a.overdue);
+  }, [filteredRecords]);
+
+  // Snapshots follow the date range and clause filters; they aren't broken down by person
+  const complianceTrend = useMemo(() => {
+    const from = dateRange?.from ? format(dateRange.from, 'yyyy-MM-dd') : null;
+    const to = dateRange?.from ? format(dateRange.to || dateRange.from, 'yyyy-MM-dd') : null;
+
+    return snapshots
+      .filter(snapshot => (!from || snapshot.snapshot_date >= from) && (!to || snapshot.snapshot_date <= to))
+      .map((snapshot): ComplianceTrendDatum => {
+        if (clauseFilter === 'all') {
+          return {
+            date: snapshot.snapshot_date,
+            overall: Number(snapshot.overall_compliance),
+            'Compliant': snapshot.compliant_count,
+            'At Risk': snapshot.at_risk_count,
+            'Non-Compliant': snapshot.non_compliant_count,
+          };
+        }
+
+        const counts = (snapshot.clause_counts as ClauseCounts)?.[clauseFilter];
+        return {
+          date: snapshot.snapshot_date,
+          overall: counts?.total ? Math.round((counts['Compliant'] / counts.total) * 100) : 0,
+          'Compliant': counts?.['Compliant'] || 0,
+          'At Risk': counts?.['At Risk'] || 0,
+          'Non-Compliant': counts?.['Non-Compliant'] || 0,
+        };
+      });
+  }, [snapshots, dateRange, clauseFilter]);
+
+  const withEvidence = filteredRecords.filter(r => r.evidence_files.length > 0).length;
+  const withoutEvidence = filteredRecords.length - withEvidence;
+  const compliantCount = filteredRecords.filter(r => r.compliance_status === 'Compliant').length;
+  const overdueCount = filteredRecords.filter(isOverdue).length;
+
+  const stats = [
+    {
+      label: 'Overall Compliance',
+      value: `${getComplianceRate(filteredRecords)}%`,
+      subtitle: `${compliantCount} of ${filteredRecords.length} items compliant`,
+      icon: BarChart3,
+      iconColor: 'text-green-500'
+    },
+    {
+      label: 'Records',
+      value: filteredRecords.length.toString(),
+      subtitle: 'Matching current filters',
+      icon: Database,
+      iconColor: 'text-blue-500'
+    },
+    {
+      label: 'Overdue Reviews',
+      value: overdueCount.toString(),
+      subtitle: 'Past next review date',
+      icon: AlertTriangle,
+      iconColor: 'text-red-500'
+    },
+    {
+      label: 'Evidence Coverage',
+      value: filteredRecords.length > 0 ?
+        `${Math.round((withEvidence / filteredRecords.length) * 100)}%` :
+        '0%',
+      subtitle: `${withEvidence} of ${filteredRecords.length} records have evidence`,
+      icon: Paperclip,
+      iconColor: 'text-purple-500'
+    }
+  ];
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading analytics...</div>
+      </div>
+    );
+  }
+
   return (
-    <div className="p-6 flex flex-col items-center justify-center min-h-[60vh]">
-      <div className="text-center">
-        <BarChart3 className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Analytics & Reporting</h1>
-        <p className="text-lg text-gray-600">Under Development</p>
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <BarChart3 className="h-8 w-8 text-[#7030a0] mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">Analytics & Reporting</h1>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="p-6">
+          <AnalyticsFilters
+            dateRange={dateRange}
+            onDateRangeChange={setDateRange}
+            clauses={clauses}
+            clauseFilter={clauseFilter}
+            onClauseFilterChange={setClauseFilter}
+            people={people}
+            personFilter={personFilter}
+            onPersonFilterChange={setPersonFilter}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {stats.map((stat, index) => {
+          const Icon = stat.icon;
+          return (
+            <Card key={index} className="bg-white">
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-600">{stat.label}</div>
+                    <div className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</div>
+                    <div className="text-sm text-gray-500 mt-1">{stat.subtitle}</div>
+                  </div>
+                  <div className={`p-3 rounded-full bg-gray-100 ${stat.iconColor}`}>
+                    <Icon className="h-6 w-6" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="space-y-6">
+        <ComplianceTrendChart data={complianceTrend} />
+
+        <StatusByClauseChart data={statusByClause} />
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <OverdueByPersonChart data={overdueByPerson} />
+          <EvidenceCoverageChart withEvidence={withEvidence} withoutEvidence={withoutEvidence} />
+        </div>
+
+        <CorrectiveActionsPanel data={filteredActions} />
+
+        <ComplaintsSummary data={filteredComplaints} />
       </div>
     </div>
   );
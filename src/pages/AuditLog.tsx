@@ -0,0 +1,323 @@
+import React, { useState, useEffect } from 'react';
+import { DateRange } from 'react-day-picker';
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarIcon, Download, History, Search, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import { AuditChangeList } from '@/components/audit/AuditChangeList';
+import { AUDIT_ACTIONS, AUDITED_TABLES, AuditEntry, getAuditActorName, getAuditChanges } from '@/lib/audit';
+import { downloadCsv } from '@/lib/csv';
+
+const PAGE_SIZE = 200;
+const EXPORT_PAGE_SIZE = 1000;
+
+export const AuditLog = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const { teamMembers } = useTeamMembers();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [tableFilter, setTableFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Filters are applied in the query so the export covers every matching entry
+  const buildQuery = () => {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .eq('organisation_id', organisationMember!.organisation_id)
+      .order('created_at', { ascending: false });
+
+    if (dateRange?.from) {
+      query = query
+        .gte('created_at', startOfDay(dateRange.from).toISOString())
+        .lte('created_at', endOfDay(dateRange.to || dateRange.from).toISOString());
+    }
+    if (tableFilter !== 'all') query = query.eq('table_name', tableFilter);
+    if (actionFilter !== 'all') query = query.eq('action', actionFilter);
+    if (actorFilter === 'system') query = query.is('actor_id', null);
+    else if (actorFilter !== 'all') query = query.eq('actor_id', actorFilter);
+    if (searchTerm.trim()) query = query.ilike('record_label', `%${searchTerm.trim()}%`);
+
+    return query;
+  };
+
+  const fetchEntries = async (append = false) => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const from = append ? entries.length : 0;
+      const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      setEntries(prev => append ? [...prev, ...(data || [])] : (data || []));
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [organisationMember, dateRange, tableFilter, actionFilter, actorFilter, searchTerm]);
+
+  const handleExport = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    setExporting(true);
+    try {
+      const allEntries: AuditEntry[] = [];
+      for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+        const { data, error } = await buildQuery().range(from, from + EXPORT_PAGE_SIZE - 1);
+        if (error) throw error;
+        allEntries.push(...(data || []));
+        if (!data || data.length < EXPORT_PAGE_SIZE) break;
+      }
+
+      downloadCsv(
+        `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+        ['Timestamp', 'Actor', 'Action', 'Record Type', 'Record', 'Record ID', 'Field', 'Before', 'After'],
+        allEntries.flatMap(entry => {
+          const base = [
+            new Date(entry.created_at).toISOString(),
+            getAuditActorName(entry),
+            entry.action,
+            AUDITED_TABLES[entry.table_name] || entry.table_name,
+            entry.record_label,
+            entry.record_id,
+          ];
+          // One row per changed field keeps the export easy to filter in a spreadsheet
+          const changes = getAuditChanges(entry);
+          return changes.length > 0
+            ? changes.map(change => [...base, change.label, change.before, change.after])
+            : [[...base, '', '', '']];
+        })
+      );
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export audit log",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const formatRange = (range: DateRange | undefined) => {
+    if (!range?.from) return <span>All dates</span>;
+    if (!range.to) return format(range.from, "PPP");
+    return `${format(range.from, "PPP")} - ${format(range.to, "PPP")}`;
+  };
+
+  const hasFilters = !!dateRange?.from || tableFilter !== 'all' || actionFilter !== 'all' || actorFilter !== 'all' || !!searchTerm;
+
+  const clearFilters = () => {
+    setDateRange(undefined);
+    setTableFilter('all');
+    setActionFilter('all');
+    setActorFilter('all');
+    setSearchTerm('');
+  };
+
+  const getActionBadge = (action: string) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium capitalize";
+    switch (action) {
+      case 'created':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      case 'updated':
+        return `${baseClasses} bg-blue-100 text-blue-800`;
+      case 'deleted':
+      case 'purged':
+        return `${baseClasses} bg-red-100 text-red-800`;
+      case 'restored':
+        return `${baseClasses} bg-purple-100 text-purple-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading audit log...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <History className="h-8 w-8 text-[#7030a0] mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        </div>
+        <Button onClick={handleExport} disabled={exporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {exporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  placeholder="Search by record..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="w-full md:w-64">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant={"outline"}
+                    className={cn(
+                      "w-full justify-start text-left font-normal",
+                      !dateRange?.from && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {formatRange(dateRange)}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={dateRange}
+                    onSelect={setDateRange}
+                    numberOfMonths={2}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="w-full md:w-48">
+              <Select value={tableFilter} onValueChange={setTableFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Record Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Record Types</SelectItem>
+                  {Object.entries(AUDITED_TABLES).map(([table, label]) => (
+                    <SelectItem key={table} value={table}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-full md:w-40">
+              <Select value={actionFilter} onValueChange={setActionFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Action" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actions</SelectItem>
+                  {AUDIT_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action} className="capitalize">{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-full md:w-48">
+              <Select value={actorFilter} onValueChange={setActorFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Actor" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actors</SelectItem>
+                  <SelectItem value="system">System</SelectItem>
+                  {teamMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {member.full_name || member.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {hasFilters && (
+              <Button variant="ghost" onClick={clearFilters}>
+                <X className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">When</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Actor</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Action</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Record</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b hover:bg-gray-50 align-top">
+                    <td className="py-3 px-4 text-gray-600 table-entry whitespace-nowrap">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </td>
+                    <td className="py-3 px-4 table-entry">{getAuditActorName(entry)}</td>
+                    <td className="py-3 px-4 table-entry">
+                      <span className={getActionBadge(entry.action)}>{entry.action}</span>
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <div className="font-medium">{entry.record_label || entry.record_id}</div>
+                      <div className="text-xs text-gray-500">{AUDITED_TABLES[entry.table_name] || entry.table_name}</div>
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <AuditChangeList entry={entry} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {entries.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              {hasFilters ? 'No audit entries found matching your filters.' : 'No changes have been recorded yet.'}
+            </div>
+          )}
+
+          {hasMore && (
+            <div className="flex justify-center mt-6">
+              <Button variant="outline" onClick={() => fetchEntries(true)}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,434 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MessageSquareWarning, Plus, Search, Edit, Trash2, Clock, AlertTriangle, Scale } from 'lucide-react';
+import { ComplaintDialog } from '@/components/complaints/ComplaintDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  COMPLAINANT_TYPES,
+  COMPLAINT_KINDS,
+  COMPLAINT_SELECT,
+  COMPLAINT_STATUSES,
+  Complaint,
+  ComplaintKind,
+  ComplaintStatus,
+  isAcknowledgementOverdue,
+  isComplaintClosed,
+  isResolutionOverdue,
+} from '@/lib/complaints';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const formatDate = (value: string) => format(parseISO(value), 'dd/MM/yyyy');
+
+const isOverdue = (complaint: Complaint) =>
+  isAcknowledgementOverdue(complaint) || isResolutionOverdue(complaint);
+
+interface DeadlineCellProps {
+  deadline: string;
+  doneOn: string | null;
+  overdue: boolean;
+  doneLabel: string;
+}
+
+// Shows when something was done, or when it's due (in red once missed)
+const DeadlineCell = ({ deadline, doneOn, overdue, doneLabel }: DeadlineCellProps) => (
+  <div className="text-sm">
+    <div className={overdue ? 'text-red-600 font-medium' : 'text-gray-600'}>
+      {formatDate(deadline)}{overdue && ' (overdue)'}
+    </div>
+    {doneOn && (
+      <div className={`text-xs ${doneOn <= deadline ? 'text-green-600' : 'text-orange-600'}`}>
+        {doneLabel} {formatDate(doneOn)}
+      </div>
+    )}
+  </div>
+);
+
+export const Complaints = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [kindFilter, setKindFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingComplaint, setEditingComplaint] = useState<Complaint | null>(null);
+  const [loading, setLoading] = useState(true);
+  const highlightedComplaintId = searchParams.get('complaint');
+
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchComplaints = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('complaints')
+        .select(COMPLAINT_SELECT)
+        .eq('organisation_id', organisationMember.organisation_id)
+        .order('received_on', { ascending: false });
+
+      if (error) throw error;
+      setComplaints((data || []) as Complaint[]);
+    } catch (error) {
+      console.error('Error fetching complaints:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch complaints",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchComplaints();
+  }, [organisationMember]);
+
+  // Scroll a complaint linked from a reminder into view
+  useEffect(() => {
+    if (!loading && highlightedComplaintId) {
+      document.getElementById(`complaint-${highlightedComplaintId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [loading, highlightedComplaintId]);
+
+  const openDialog = (complaint: Complaint | null) => {
+    setEditingComplaint(complaint);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (complaint: Complaint) => {
+    try {
+      const { error } = await supabase
+        .from('complaints')
+        .delete()
+        .eq('id', complaint.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${COMPLAINT_KINDS[complaint.kind]} deleted`,
+      });
+
+      fetchComplaints();
+    } catch (error) {
+      console.error('Error deleting complaint:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete complaint",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stats = [
+    {
+      label: 'Open',
+      value: complaints.filter(c => !isComplaintClosed(c)).length,
+      subtitle: 'Open or under investigation',
+      icon: MessageSquareWarning,
+      iconColor: 'text-[#7030a0]',
+      filterType: 'active',
+    },
+    {
+      label: 'Awaiting Acknowledgement',
+      value: complaints.filter(c => !isComplaintClosed(c) && !c.acknowledged_on).length,
+      subtitle: 'Not yet acknowledged',
+      icon: Clock,
+      iconColor: 'text-yellow-500',
+      filterType: 'unacknowledged',
+    },
+    {
+      label: 'Overdue',
+      value: complaints.filter(isOverdue).length,
+      subtitle: 'Past a deadline',
+      icon: AlertTriangle,
+      iconColor: 'text-red-500',
+      filterType: 'overdue',
+    },
+    {
+      label: 'Referred Externally',
+      value: complaints.filter(c => c.referred_externally).length,
+      subtitle: 'Taken to an external body',
+      icon: Scale,
+      iconColor: 'text-blue-500',
+      filterType: 'referred',
+    },
+  ];
+
+  const matchesStatusFilter = (complaint: Complaint) => {
+    switch (statusFilter) {
+      case 'all':
+        return true;
+      case 'active':
+        return !isComplaintClosed(complaint);
+      case 'unacknowledged':
+        return !isComplaintClosed(complaint) && !complaint.acknowledged_on;
+      case 'overdue':
+        return isOverdue(complaint);
+      case 'referred':
+        return complaint.referred_externally;
+      default:
+        return complaint.status === statusFilter;
+    }
+  };
+
+  const filteredComplaints = complaints.filter(complaint => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      complaint.summary.toLowerCase().includes(term) ||
+      (complaint.complainant_name || '').toLowerCase().includes(term) ||
+      (complaint.investigation_notes || '').toLowerCase().includes(term) ||
+      (complaint.outcome || '').toLowerCase().includes(term);
+
+    const matchesKind = kindFilter === 'all' || complaint.kind === kindFilter;
+
+    return matchesSearch && matchesKind && matchesStatusFilter(complaint);
+  });
+
+  const getStatusBadge = (status: ComplaintStatus) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (status) {
+      case 'open':
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+      case 'investigating':
+        return `${baseClasses} bg-blue-100 text-blue-800`;
+      case 'resolved':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading complaints...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-6">
+        <MessageSquareWarning className="h-8 w-8 text-[#7030a0] mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Complaints & Appeals</h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {stats.map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <Card
+              key={stat.filterType}
+              className="bg-white cursor-pointer hover:shadow-lg transition-shadow"
+              onClick={() => setStatusFilter(stat.filterType)}
+            >
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-600">{stat.label}</div>
+                    <div className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</div>
+                    <div className="text-sm text-gray-500 mt-1">{stat.subtitle}</div>
+                  </div>
+                  <div className={`p-3 rounded-full bg-gray-100 ${stat.iconColor}`}>
+                    <Icon className="h-6 w-6" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between items-center mb-6">
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Record Complaint or Appeal
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by summary, complainant, notes or outcome..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={kindFilter} onValueChange={setKindFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Complaints & Appeals</SelectItem>
+                {(Object.keys(COMPLAINT_KINDS) as ComplaintKind[]).map((key) => (
+                  <SelectItem key={key} value={key}>{COMPLAINT_KINDS[key]}s</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {(Object.keys(COMPLAINT_STATUSES) as ComplaintStatus[]).map((key) => (
+                  <SelectItem key={key} value={key}>{COMPLAINT_STATUSES[key]}</SelectItem>
+                ))}
+                <SelectItem value="active">Open (any)</SelectItem>
+                <SelectItem value="unacknowledged">Awaiting Acknowledgement</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="referred">Referred Externally</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Received</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Complainant</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Summary</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Handled By</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Acknowledge By</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Resolve By</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Status</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredComplaints.map((complaint) => (
+                  <tr
+                    key={complaint.id}
+                    id={`complaint-${complaint.id}`}
+                    className={`border-b hover:bg-gray-50 align-top ${highlightedComplaintId === complaint.id ? 'bg-purple-50' : ''}`}
+                  >
+                    <td className="py-3 px-4 table-entry">
+                      <div className="text-sm">{formatDate(complaint.received_on)}</div>
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${complaint.kind === 'appeal' ? 'bg-indigo-100 text-indigo-800' : 'bg-purple-100 text-purple-800'}`}
+                      >
+                        {COMPLAINT_KINDS[complaint.kind]}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <div className="text-sm">{COMPLAINANT_TYPES[complaint.complainant_type]}</div>
+                      {complaint.complainant_name && (
+                        <div className="text-xs text-gray-500">{complaint.complainant_name}</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <div className="font-medium">{complaint.summary}</div>
+                      {complaint.outcome && (
+                        <div className="text-xs text-gray-500 mt-1">Outcome: {complaint.outcome}</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-gray-600 table-entry">
+                      {complaint.handler ? complaint.handler.full_name || complaint.handler.email : 'Unassigned'}
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <DeadlineCell
+                        deadline={complaint.acknowledge_by}
+                        doneOn={complaint.acknowledged_on}
+                        overdue={isAcknowledgementOverdue(complaint)}
+                        doneLabel="Acknowledged"
+                      />
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <DeadlineCell
+                        deadline={complaint.resolve_by}
+                        doneOn={complaint.resolved_on}
+                        overdue={isResolutionOverdue(complaint)}
+                        doneLabel="Resolved"
+                      />
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <span className={getStatusBadge(complaint.status)}>
+                        {COMPLAINT_STATUSES[complaint.status]}
+                      </span>
+                      {complaint.referred_externally && (
+                        <div className="text-xs text-blue-700 mt-1">
+                          Referred{complaint.referral_body ? ` to ${complaint.referral_body}` : ' externally'}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <div className="flex items-center space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => openDialog(complaint)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        {isAdmin && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete this {complaint.kind}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  "{complaint.summary}" will be permanently removed from the register, along with its investigation notes and outcome.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(complaint)}>
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {filteredComplaints.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              {searchTerm || statusFilter !== 'all' || kindFilter !== 'all'
+                ? 'No complaints or appeals found matching your filters.'
+                : 'No complaints or appeals recorded yet.'}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ComplaintDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSuccess={fetchComplaints}
+        complaint={editingComplaint}
+      />
+    </div>
+  );
+};
@@ -6,11 +6,21 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Search, Edit, Trash2, Database, BarChart3, Users, AlertTriangle, Eye } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Plus, Search, Edit, Trash2, Database, BarChart3, Users, AlertTriangle, Eye, MessageSquare, Upload, Download, FileSpreadsheet, FileText, ClipboardCheck } from 'lucide-react';
 import { AddComplianceDialog } from '@/components/compliance/AddComplianceDialog';
 import { EditComplianceDialog } from '@/components/compliance/EditComplianceDialog';
+import { ImportRecordsDialog } from '@/components/compliance/ImportRecordsDialog';
+import { EvidencePreviewDrawer } from '@/components/compliance/EvidencePreviewDrawer';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { getComplianceRate } from '@/lib/compliance';
+import { notifyComplianceRecordChange } from '@/lib/notifications';
+import { EvidenceFileWithUploader, EVIDENCE_FILE_WITH_UPLOADER_SELECT } from '@/lib/evidence';
+import { RECYCLE_BIN_RETENTION_DAYS } from '@/lib/recycleBin';
+import { RECORD_STANDARDS_SELECT, RecordStandardLinks, formatRecordClauses } from '@/lib/standards';
+import { ExportFormat, exportRegister } from '@/lib/registerExport';
+import { isCorrectiveActionOpen, isCorrectiveActionOverdue } from '@/lib/correctiveActions';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,20 +33,27 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-interface ComplianceRecord {
+interface ComplianceRecord extends RecordStandardLinks {
   id: string;
   compliance_item: string;
-  standard_clause: string;
   compliance_status: string;
   responsible_person: string;
   next_review_date: string;
   review_status: string;
   notes: string;
   created_at: string;
-  file_name?: string;
-  file_path?: string;
+  evidence_files: EvidenceFileWithUploader[];
+  corrective_actions: { id: string; status: string; due_date: string }[];
 }
 
+const STATUS_FILTER_LABELS: Record<string, string> = {
+  'compliant': 'Compliant',
+  'at-risk': 'At Risk',
+  'non-compliant': 'Non-Compliant',
+  'overdue': 'Overdue',
+  'open-actions': 'Open Corrective Actions',
+};
+
 export const ComplianceRecords = () => {
   const { organisationMember } = useAuth();
   const { toast } = useToast();
@@ -45,10 +62,18 @@ export const ComplianceRecords = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingRecord, setEditingRecord] = useState<ComplianceRecord | null>(null);
+  const [editInitialTab, setEditInitialTab] = useState<'details' | 'actions'>('details');
+  const [viewingRecord, setViewingRecord] = useState<ComplianceRecord | null>(null);
   const [complianceRecords, setComplianceRecords] = useState<ComplianceRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const highlightedRecordId = searchParams.get('record');
+
+  const isAdmin = organisationMember?.role === 'admin';
 
   // Check if we should filter by overdue items from URL
   useEffect(() => {
@@ -58,13 +83,20 @@ export const ComplianceRecords = () => {
     }
   }, [searchParams]);
 
+  // Scroll a record linked from elsewhere in the app into view
+  useEffect(() => {
+    if (!loading && highlightedRecordId) {
+      document.getElementById(`record-${highlightedRecordId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [loading, highlightedRecordId]);
+
   const fetchComplianceRecords = async () => {
     if (!organisationMember?.organisation_id) return;
 
     try {
       const { data, error } = await supabase
         .from('compliance_records')
-        .select('*')
+        .select(`*, evidence_files(${EVIDENCE_FILE_WITH_UPLOADER_SELECT}), corrective_actions(id, status, due_date), ${RECORD_STANDARDS_SELECT}`)
         .eq('organisation_id', organisationMember.organisation_id)
         .order('created_at', { ascending: false });
 
@@ -87,23 +119,34 @@ export const ComplianceRecords = () => {
     fetchComplianceRecords();
   }, [organisationMember]);
 
-  const handleEditRecord = (record: ComplianceRecord) => {
+  const handleEditRecord = (record: ComplianceRecord, initialTab: 'details' | 'actions' = 'details') => {
     setEditingRecord(record);
+    setEditInitialTab(initialTab);
     setIsEditDialogOpen(true);
   };
 
-  const handleDeleteRecord = async (id: string) => {
+  const handleDeleteRecord = async (record: ComplianceRecord) => {
     try {
-      const { error } = await supabase
-        .from('compliance_records')
-        .delete()
-        .eq('id', id);
+      const { error } = await supabase.rpc('move_to_recycle_bin', {
+        p_table: 'compliance_records',
+        p_id: record.id,
+      });
 
       if (error) throw error;
 
+      if (organisationMember) {
+        await notifyComplianceRecordChange(
+          organisationMember.organisation_id,
+          'deleted',
+          { ...record, clauses: formatRecordClauses(record) },
+          organisationMember.id,
+          organisationMember.full_name || organisationMember.email
+        );
+      }
+
       toast({
         title: "Success",
-        description: "Compliance record deleted successfully",
+        description: "Compliance record moved to the recycle bin",
       });
 
       fetchComplianceRecords();
@@ -117,47 +160,6 @@ export const ComplianceRecords = () => {
     }
   };
 
-  const handleViewFiles = async (filePaths: string[], fileNames: string[]) => {
-    try {
-      for (let i = 0; i < filePaths.length; i++) {
-        const filePath = filePaths[i];
-        const fileName = fileNames[i];
-        
-        if (filePath && fileName) {
-          console.log('Downloading file:', filePath, fileName);
-          
-          const { data, error } = await supabase.storage
-            .from('compliance-evidence')
-            .download(filePath);
-
-          if (error) {
-            console.error('Download error:', error);
-            throw error;
-          }
-
-          // Create a blob URL and open in new tab
-          const url = URL.createObjectURL(data);
-          window.open(url, '_blank');
-          
-          // Clean up the URL after a delay to allow the tab to load
-          setTimeout(() => URL.revokeObjectURL(url), 1000);
-        }
-      }
-      
-      toast({
-        title: "Success",
-        description: "Files opened successfully",
-      });
-    } catch (error) {
-      console.error('Error opening files:', error);
-      toast({
-        title: "Error",
-        description: "Failed to open files",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleStatCardClick = (filterType: string) => {
     setStatusFilter(filterType);
     if (filterType !== 'all') {
@@ -170,9 +172,7 @@ export const ComplianceRecords = () => {
   const stats = [
     { 
       label: 'Overall Compliance', 
-      value: complianceRecords.length > 0 ? 
-        `${Math.round((complianceRecords.filter(r => r.compliance_status === 'Compliant').length / complianceRecords.length) * 100)}%` : 
-        '0%', 
+      value: `${getComplianceRate(complianceRecords)}%`, 
       subtitle: `${complianceRecords.filter(r => r.compliance_status === 'Compliant').length} of ${complianceRecords.length} items compliant`, 
       icon: BarChart3,
       iconColor: 'text-green-500',
@@ -206,12 +206,14 @@ export const ComplianceRecords = () => {
 
   const filteredRecords = complianceRecords.filter(record => {
     const matchesSearch = record.compliance_item.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         record.standard_clause.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         formatRecordClauses(record).toLowerCase().includes(searchTerm.toLowerCase()) ||
                          record.responsible_person.toLowerCase().includes(searchTerm.toLowerCase());
     
     let matchesStatus = true;
     if (statusFilter === 'overdue') {
       matchesStatus = record.review_status?.toLowerCase() === 'overdue';
+    } else if (statusFilter === 'open-actions') {
+      matchesStatus = record.corrective_actions.some(isCorrectiveActionOpen);
     } else if (statusFilter === 'compliant') {
       matchesStatus = record.compliance_status.toLowerCase() === 'compliant';
     } else if (statusFilter === 'non-compliant') {
@@ -225,6 +227,45 @@ export const ComplianceRecords = () => {
     return matchesSearch && matchesStatus;
   });
 
+  // The export holds exactly the rows on screen, and says which filters produced them
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!organisationMember?.organisation_id) return;
+
+    setIsExportMenuOpen(false);
+    setExporting(true);
+    try {
+      const { data: organisation, error } = await supabase
+        .from('organisations')
+        .select('name, rto_id, branding_color')
+        .eq('id', organisationMember.organisation_id)
+        .single();
+
+      if (error) throw error;
+
+      const filters = [
+        statusFilter !== 'all' ? `Status: ${STATUS_FILTER_LABELS[statusFilter] || statusFilter}` : null,
+        searchTerm ? `Search: "${searchTerm}"` : null,
+      ].filter(Boolean);
+
+      await exportRegister(exportFormat, {
+        organisation,
+        records: filteredRecords,
+        filterDescription: filters.length > 0
+          ? `Filtered by ${filters.join(', ')} (${filteredRecords.length} of ${complianceRecords.length} records)`
+          : `All ${complianceRecords.length} records`,
+      });
+    } catch (error) {
+      console.error('Error exporting compliance register:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export compliance register",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
     switch (status.toLowerCase()) {
@@ -239,6 +280,20 @@ export const ComplianceRecords = () => {
     }
   };
 
+  const getReviewStatusBadge = (status: string) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (status.toLowerCase()) {
+      case 'overdue':
+        return `${baseClasses} bg-red-100 text-red-800`;
+      case 'due':
+        return `${baseClasses} bg-orange-100 text-orange-800`;
+      case 'upcoming':
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
   if (loading) {
     return (
       <div className="p-6 flex items-center justify-center">
@@ -285,10 +340,40 @@ export const ComplianceRecords = () => {
 
       {/* Compliance Records Section */}
       <div className="flex justify-between items-center mb-6">
-        <Button onClick={() => setIsAddDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Compliance Item
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={() => setIsAddDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Compliance Item
+          </Button>
+          {isAdmin && (
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          )}
+        </div>
+        <Popover open={isExportMenuOpen} onOpenChange={setIsExportMenuOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" disabled={exporting || filteredRecords.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Export'}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-48 p-1" align="end">
+            <Button variant="ghost" className="w-full justify-start" onClick={() => handleExport('csv')}>
+              <FileText className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button variant="ghost" className="w-full justify-start" onClick={() => handleExport('xlsx')}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Excel (XLSX)
+            </Button>
+            <Button variant="ghost" className="w-full justify-start" onClick={() => handleExport('pdf')}>
+              <FileText className="h-4 w-4 mr-2" />
+              PDF
+            </Button>
+          </PopoverContent>
+        </Popover>
       </div>
 
       <Card>
@@ -316,6 +401,7 @@ export const ComplianceRecords = () => {
                   <SelectItem value="at-risk">At Risk</SelectItem>
                   <SelectItem value="non-compliant">Non-Compliant</SelectItem>
                   <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="open-actions">Open Corrective Actions</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -337,37 +423,51 @@ export const ComplianceRecords = () => {
               </thead>
               <tbody>
                 {filteredRecords.map((record) => {
-                  const fileNames = record.file_name ? record.file_name.split(', ') : [];
-                  const filePaths = record.file_path ? record.file_path.split(', ') : [];
-                  
+                  const openActions = record.corrective_actions.filter(isCorrectiveActionOpen);
+                  const overdueActions = openActions.filter(action => isCorrectiveActionOverdue(action));
                   return (
-                    <tr key={record.id} className="border-b hover:bg-gray-50">
+                    <tr
+                      key={record.id}
+                      id={`record-${record.id}`}
+                      className={`border-b hover:bg-gray-50 ${highlightedRecordId === record.id ? 'bg-purple-50' : ''}`}
+                    >
                       <td className="py-3 px-4 font-medium table-entry">{record.compliance_item}</td>
-                      <td className="py-3 px-4 text-gray-600 table-entry">{record.standard_clause}</td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{formatRecordClauses(record)}</td>
                       <td className="py-3 px-4 table-entry">
                         <span className={getStatusBadge(record.compliance_status)}>
                           {record.compliance_status}
                         </span>
+                        {openActions.length > 0 && (
+                          <button
+                            type="button"
+                            className={`flex items-center mt-2 text-xs hover:underline ${overdueActions.length > 0 ? 'text-red-600' : 'text-gray-500'}`}
+                            onClick={() => handleEditRecord(record, 'actions')}
+                          >
+                            <ClipboardCheck className="h-3 w-3 mr-1" />
+                            {openActions.length} open action{openActions.length === 1 ? '' : 's'}
+                            {overdueActions.length > 0 && ` (${overdueActions.length} overdue)`}
+                          </button>
+                        )}
                       </td>
                       <td className="py-3 px-4 text-gray-600 table-entry">{record.responsible_person}</td>
                       <td className="py-3 px-4 text-gray-600 table-entry">
                         {record.next_review_date ? new Date(record.next_review_date).toLocaleDateString() : 'Not set'}
                       </td>
                       <td className="py-3 px-4 table-entry">
-                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                        <span className={getReviewStatusBadge(record.review_status || 'Scheduled')}>
                           {record.review_status || 'Scheduled'}
                         </span>
                       </td>
                       <td className="py-3 px-4 table-entry">
-                        {fileNames.length > 0 && filePaths.length > 0 ? (
+                        {record.evidence_files.length > 0 ? (
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleViewFiles(filePaths, fileNames)}
+                            onClick={() => setViewingRecord(record)}
                             className="text-blue-600 hover:text-blue-700 border-blue-200 hover:border-blue-300"
                           >
                             <Eye className="h-4 w-4 mr-1" />
-                            View
+                            View ({record.evidence_files.length})
                           </Button>
                         ) : (
                           <span className="text-gray-400 text-sm">No files</span>
@@ -382,6 +482,14 @@ export const ComplianceRecords = () => {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm"
+                            title="Discuss"
+                            onClick={() => navigate(`/messages?record=${record.id}`)}
+                          >
+                            <MessageSquare className="h-4 w-4" />
+                          </Button>
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
@@ -392,12 +500,12 @@ export const ComplianceRecords = () => {
                               <AlertDialogHeader>
                                 <AlertDialogTitle>Are you sure you want to delete this compliance record?</AlertDialogTitle>
                                 <AlertDialogDescription>
-                                  This action cannot be undone. This will permanently delete the compliance record.
+                                  The record will be moved to the recycle bin. An admin can restore it within {RECYCLE_BIN_RETENTION_DAYS} days, after which it and its evidence files are permanently deleted.
                                 </AlertDialogDescription>
                               </AlertDialogHeader>
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => handleDeleteRecord(record.id)}>
+                                <AlertDialogAction onClick={() => handleDeleteRecord(record)}>
                                   Delete
                                 </AlertDialogAction>
                               </AlertDialogFooter>
@@ -428,11 +536,25 @@ export const ComplianceRecords = () => {
         onSuccess={fetchComplianceRecords}
       />
 
+      <ImportRecordsDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onSuccess={fetchComplianceRecords}
+      />
+
       <EditComplianceDialog 
         open={isEditDialogOpen} 
         onOpenChange={setIsEditDialogOpen}
         onSuccess={fetchComplianceRecords}
         record={editingRecord}
+        initialTab={editInitialTab}
+      />
+
+      <EvidencePreviewDrawer
+        open={!!viewingRecord}
+        onOpenChange={(open) => !open && setViewingRecord(null)}
+        title={viewingRecord ? `${formatRecordClauses(viewingRecord)} - ${viewingRecord.compliance_item}` : ''}
+        evidenceFiles={viewingRecord?.evidence_files || []}
       />
     </div>
   );
@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Grid3x3, Search, Plus, FileText, FileX, Paperclip, XCircle } from 'lucide-react';
+import { AddComplianceDialog } from '@/components/compliance/AddComplianceDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { FRAMEWORKS } from '@/lib/frameworks';
+import { Standard } from '@/lib/standards';
+import { COVERAGE_GAPS, CoverageGap, CoverageRecord, buildCoverageMatrix } from '@/lib/coverage';
+
+const CUSTOM_FRAMEWORK = 'custom';
+
+export const Coverage = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [standards, setStandards] = useState<Standard[]>([]);
+  const [records, setRecords] = useState<CoverageRecord[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [gapFilter, setGapFilter] = useState('all');
+  const [frameworkFilter, setFrameworkFilter] = useState('all');
+  const [addForStandardIds, setAddForStandardIds] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchData = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const [standardsResult, recordsResult] = await Promise.all([
+        supabase
+          .from('standards')
+          .select('*')
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('compliance_records')
+          .select('id, compliance_item, compliance_status, evidence_files(id), compliance_record_standards(standard_id)')
+          .eq('organisation_id', organisationMember.organisation_id),
+      ]);
+
+      if (standardsResult.error) throw standardsResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      setStandards(standardsResult.data || []);
+      setRecords((recordsResult.data || []).map(record => ({
+        id: record.id,
+        compliance_item: record.compliance_item,
+        compliance_status: record.compliance_status,
+        evidence_count: record.evidence_files.length,
+        standard_ids: record.compliance_record_standards.map(link => link.standard_id),
+      })));
+    } catch (error) {
+      console.error('Error fetching coverage:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch coverage",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [organisationMember]);
+
+  const frameworkCodes = useMemo(
+    () => Array.from(new Set(standards.map(s => s.framework || CUSTOM_FRAMEWORK))),
+    [standards]
+  );
+
+  const matrix = useMemo(() => {
+    const inFramework = frameworkFilter === 'all'
+      ? standards
+      : standards.filter(s => (s.framework || CUSTOM_FRAMEWORK) === frameworkFilter);
+    return buildCoverageMatrix(inFramework, records);
+  }, [standards, records, frameworkFilter]);
+
+  const gapCounts = useMemo(() => {
+    const counts: Record<CoverageGap, number> = { no_records: 0, missing_evidence: 0, all_non_compliant: 0 };
+    matrix.forEach(row => row.gaps.forEach(gap => { counts[gap] += 1; }));
+    return counts;
+  }, [matrix]);
+
+  const filteredRows = matrix.filter(row => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      row.standard.standard_clause.toLowerCase().includes(term) ||
+      row.standard.standard_description.toLowerCase().includes(term);
+
+    let matchesGap = true;
+    if (gapFilter === 'any') {
+      matchesGap = row.gaps.length > 0;
+    } else if (gapFilter !== 'all') {
+      matchesGap = row.gaps.includes(gapFilter as CoverageGap);
+    }
+
+    return matchesSearch && matchesGap;
+  });
+
+  const stats = [
+    {
+      label: 'Clauses',
+      value: matrix.length,
+      subtitle: `${matrix.filter(row => row.gaps.length > 0).length} with gaps`,
+      icon: FileText,
+      iconColor: 'text-[#7030a0]',
+      filterType: 'any',
+    },
+    {
+      label: COVERAGE_GAPS.no_records,
+      value: gapCounts.no_records,
+      subtitle: 'Clauses nothing covers',
+      icon: FileX,
+      iconColor: 'text-gray-500',
+      filterType: 'no_records',
+    },
+    {
+      label: COVERAGE_GAPS.missing_evidence,
+      value: gapCounts.missing_evidence,
+      subtitle: 'Records without evidence',
+      icon: Paperclip,
+      iconColor: 'text-orange-500',
+      filterType: 'missing_evidence',
+    },
+    {
+      label: COVERAGE_GAPS.all_non_compliant,
+      value: gapCounts.all_non_compliant,
+      subtitle: 'No compliant records',
+      icon: XCircle,
+      iconColor: 'text-red-500',
+      filterType: 'all_non_compliant',
+    },
+  ];
+
+  const getGapBadge = (gap: CoverageGap) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (gap) {
+      case 'no_records':
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+      case 'missing_evidence':
+        return `${baseClasses} bg-orange-100 text-orange-800`;
+      case 'all_non_compliant':
+        return `${baseClasses} bg-red-100 text-red-800`;
+    }
+  };
+
+  const getStatusDot = (status: string) => {
+    switch (status.toLowerCase()) {
+      case 'compliant':
+        return 'bg-green-500';
+      case 'at risk':
+        return 'bg-yellow-500';
+      case 'non-compliant':
+        return 'bg-red-500';
+      default:
+        return 'bg-gray-400';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading coverage...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-6">
+        <Grid3x3 className="h-8 w-8 text-[#7030a0] mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Coverage & Gaps</h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {stats.map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <Card
+              key={stat.filterType}
+              className="bg-white cursor-pointer hover:shadow-lg transition-shadow"
+              onClick={() => setGapFilter(stat.filterType)}
+            >
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-600">{stat.label}</div>
+                    <div className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</div>
+                    <div className="text-sm text-gray-500 mt-1">{stat.subtitle}</div>
+                  </div>
+                  <div className={`p-3 rounded-full bg-gray-100 ${stat.iconColor}`}>
+                    <Icon className="h-6 w-6" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by standard clause or description..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={frameworkFilter} onValueChange={setFrameworkFilter}>
+              <SelectTrigger className="w-full md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All frameworks</SelectItem>
+                {frameworkCodes.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code === CUSTOM_FRAMEWORK
+                      ? 'Custom standards'
+                      : FRAMEWORKS.find(f => f.code === code)?.name || code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={gapFilter} onValueChange={setGapFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All clauses</SelectItem>
+                <SelectItem value="any">Any gap</SelectItem>
+                {(Object.keys(COVERAGE_GAPS) as CoverageGap[]).map((gap) => (
+                  <SelectItem key={gap} value={gap}>{COVERAGE_GAPS[gap]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Standard Clause</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Description</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Compliance Records</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Gaps</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredRows.map(({ standard, depth, records: linked, gaps }) => (
+                  <tr key={standard.id} className="border-b hover:bg-gray-50 align-top">
+                    <td className="py-3 px-4 font-medium table-entry">
+                      {/* Indenting is only meaningful when the whole tree is shown */}
+                      <div style={{ paddingLeft: `${searchTerm || gapFilter !== 'all' ? 0 : depth * 20}px` }}>
+                        {standard.standard_clause}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-gray-600 table-entry">{standard.standard_description}</td>
+                    <td className="py-3 px-4 table-entry">
+                      {linked.length === 0 ? (
+                        <span className="text-gray-400 text-sm">None</span>
+                      ) : (
+                        <ul className="space-y-1 text-sm">
+                          {linked.map((record) => (
+                            <li key={record.id} className="flex items-center">
+                              <span
+                                className={`h-2 w-2 rounded-full mr-2 shrink-0 ${getStatusDot(record.compliance_status)}`}
+                                title={record.compliance_status}
+                              />
+                              <Link to={`/?record=${record.id}`} className="text-gray-700 hover:text-[#7030a0] hover:underline">
+                                {record.compliance_item}
+                              </Link>
+                              <span
+                                className={`ml-2 flex items-center text-xs ${record.evidence_count === 0 ? 'text-orange-600' : 'text-gray-500'}`}
+                                title={`${record.evidence_count} evidence file${record.evidence_count === 1 ? '' : 's'}`}
+                              >
+                                <Paperclip className="h-3 w-3 mr-0.5" />
+                                {record.evidence_count}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <div className="flex flex-wrap gap-1">
+                        {gaps.map((gap) => (
+                          <button
+                            key={gap}
+                            type="button"
+                            className={`${getGapBadge(gap)} hover:opacity-80`}
+                            title="Add a compliance record for this clause"
+                            onClick={() => setAddForStandardIds([standard.id])}
+                          >
+                            {COVERAGE_GAPS[gap]}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 table-entry">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Add a compliance record for this clause"
+                        onClick={() => setAddForStandardIds([standard.id])}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {filteredRows.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              {matrix.length === 0 ? 'No standards found.' : 'No clauses match the current filters.'}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AddComplianceDialog
+        open={addForStandardIds !== null}
+        onOpenChange={(open) => !open && setAddForStandardIds(null)}
+        onSuccess={fetchData}
+        defaultStandardIds={addForStandardIds || undefined}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,520 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ArrowRight, GitCompare, Plus, Wand2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { FRAMEWORKS } from '@/lib/frameworks';
+import { Standard, compareClauses } from '@/lib/standards';
+import {
+  CrosswalkMapping,
+  MigratableRecord,
+  buildMigrationPreview,
+  getSuggestedCrosswalk,
+} from '@/lib/crosswalks';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const getFrameworkName = (code: string) => FRAMEWORKS.find(f => f.code === code)?.name || code;
+
+export const Crosswalk = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [standards, setStandards] = useState<Standard[]>([]);
+  const [mappings, setMappings] = useState<CrosswalkMapping[]>([]);
+  const [records, setRecords] = useState<MigratableRecord[]>([]);
+  const [migratedRecordIds, setMigratedRecordIds] = useState<Set<string>>(new Set());
+  const [fromFramework, setFromFramework] = useState('rto-2015');
+  const [toFramework, setToFramework] = useState('rto-2025');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchData = async () => {
+    if (!organisationMember?.organisation_id || !isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [standardsResult, mappingsResult, recordsResult, migrationsResult] = await Promise.all([
+        supabase
+          .from('standards')
+          .select('*')
+          .eq('organisation_id', organisationMember.organisation_id)
+          .not('framework', 'is', null),
+        supabase
+          .from('standard_crosswalks')
+          .select('id, from_standard_id, to_standard_id')
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('compliance_records')
+          .select('id, compliance_item, compliance_record_standards(standard_id)')
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('crosswalk_migrations')
+          .select('record_id')
+          .eq('organisation_id', organisationMember.organisation_id)
+          .eq('from_framework', fromFramework)
+          .eq('to_framework', toFramework),
+      ]);
+
+      if (standardsResult.error) throw standardsResult.error;
+      if (mappingsResult.error) throw mappingsResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      if (migrationsResult.error) throw migrationsResult.error;
+
+      setStandards(standardsResult.data || []);
+      setMappings(mappingsResult.data || []);
+      setRecords((recordsResult.data || []).map(record => ({
+        id: record.id,
+        compliance_item: record.compliance_item,
+        standard_ids: record.compliance_record_standards.map(link => link.standard_id),
+      })));
+      setMigratedRecordIds(new Set((migrationsResult.data || []).map(m => m.record_id)));
+    } catch (error) {
+      console.error('Error fetching crosswalk:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch crosswalk",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [organisationMember, fromFramework, toFramework]);
+
+  const importedFrameworks = useMemo(
+    () => Array.from(new Set(standards.map(s => s.framework as string))),
+    [standards]
+  );
+
+  const fromStandards = useMemo(
+    () => standards
+      .filter(s => s.framework === fromFramework)
+      .sort((a, b) => compareClauses(a.standard_clause, b.standard_clause)),
+    [standards, fromFramework]
+  );
+  const toStandards = useMemo(
+    () => standards
+      .filter(s => s.framework === toFramework)
+      .sort((a, b) => compareClauses(a.standard_clause, b.standard_clause)),
+    [standards, toFramework]
+  );
+
+  const preview = useMemo(
+    () => buildMigrationPreview({ records, fromStandards, toStandards, mappings }),
+    [records, fromStandards, toStandards, mappings]
+  );
+
+  const suggested = getSuggestedCrosswalk(fromFramework, toFramework);
+
+  const isMapped = (fromId: string, toId: string) =>
+    mappings.some(m => m.from_standard_id === fromId && m.to_standard_id === toId);
+
+  const addMappings = async (pairs: { from_standard_id: string; to_standard_id: string }[]) => {
+    if (!organisationMember?.organisation_id || pairs.length === 0) return 0;
+
+    const { data, error } = await supabase
+      .from('standard_crosswalks')
+      .insert(pairs.map(pair => ({
+        ...pair,
+        organisation_id: organisationMember.organisation_id,
+        created_by: organisationMember.id,
+      })))
+      .select('id, from_standard_id, to_standard_id');
+
+    if (error) throw error;
+    setMappings(prev => [...prev, ...(data || [])]);
+    return data?.length || 0;
+  };
+
+  const handleToggleMapping = async (from: Standard, to: Standard, checked: boolean) => {
+    try {
+      if (checked) {
+        await addMappings([{ from_standard_id: from.id, to_standard_id: to.id }]);
+      } else {
+        const mapping = mappings.find(m => m.from_standard_id === from.id && m.to_standard_id === to.id);
+        if (!mapping) return;
+
+        const { error } = await supabase
+          .from('standard_crosswalks')
+          .delete()
+          .eq('id', mapping.id);
+
+        if (error) throw error;
+        setMappings(prev => prev.filter(m => m.id !== mapping.id));
+      }
+    } catch (error) {
+      console.error('Error updating crosswalk:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update mapping",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Adds the bundled suggestions on top of whatever has already been mapped
+  const handleApplySuggested = async () => {
+    if (!suggested) return;
+
+    setSaving(true);
+    try {
+      const pairs = fromStandards.flatMap(from =>
+        (suggested.mappings[from.standard_clause] || [])
+          .map(clause => toStandards.find(to => to.standard_clause === clause))
+          .filter((to): to is Standard => !!to && !isMapped(from.id, to.id))
+          .map(to => ({ from_standard_id: from.id, to_standard_id: to.id }))
+      );
+
+      const added = await addMappings(pairs);
+
+      toast({
+        title: "Success",
+        description: added > 0 ? `${added} suggested mapping${added === 1 ? '' : 's'} added` : 'All suggested mappings are already in place',
+      });
+    } catch (error) {
+      console.error('Error applying suggested crosswalk:', error);
+      toast({
+        title: "Error",
+        description: "Failed to apply suggested mappings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('apply_crosswalk_migration', {
+        p_from_framework: fromFramework,
+        p_to_framework: toFramework,
+        p_changes: preview.changes.map(change => ({
+          record_id: change.record.id,
+          from_standard_id: change.from.id,
+          to_standard_ids: change.targets.map(target => target.id),
+        })),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${data} compliance record${data === 1 ? '' : 's'} migrated to ${getFrameworkName(toFramework)}`,
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error migrating compliance records:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to migrate compliance records",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading crosswalk...</div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="p-6 text-center text-gray-500">
+        Only organisation admins can manage the standards crosswalk.
+      </div>
+    );
+  }
+
+  const frameworkSelect = (value: string, onChange: (value: string) => void, id: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select framework" />
+      </SelectTrigger>
+      <SelectContent>
+        {FRAMEWORKS.map((f) => (
+          <SelectItem key={f.code} value={f.code}>
+            {f.name}{importedFrameworks.includes(f.code) ? '' : ' (not imported)'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-2">
+        <GitCompare className="h-8 w-8 text-[#7030a0] mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Standards Crosswalk</h1>
+      </div>
+      <p className="text-gray-600 mb-6">
+        Map each clause of an outgoing framework to its replacements, then move existing compliance records across.
+        Frameworks are added from the <Link to="/standards" className="text-[#7030a0] hover:underline">Standards</Link> page.
+      </p>
+
+      <div className="flex flex-col md:flex-row md:items-end gap-4 mb-6">
+        <div className="flex-1">
+          <Label htmlFor="fromFramework">From</Label>
+          {frameworkSelect(fromFramework, setFromFramework, 'fromFramework')}
+        </div>
+        <ArrowRight className="hidden md:block h-5 w-5 text-gray-400 mb-2.5" />
+        <div className="flex-1">
+          <Label htmlFor="toFramework">To</Label>
+          {frameworkSelect(toFramework, setToFramework, 'toFramework')}
+        </div>
+      </div>
+
+      {fromFramework === toFramework || fromStandards.length === 0 || toStandards.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            {fromFramework === toFramework
+              ? 'Choose two different frameworks.'
+              : 'Import both frameworks into your standards before mapping them.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs defaultValue="mapping">
+          <TabsList className="mb-4">
+            <TabsTrigger value="mapping">Mapping</TabsTrigger>
+            <TabsTrigger value="migrate">Migrate Records</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="mapping">
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex justify-between items-center mb-4">
+                  <div className="text-sm text-gray-600">
+                    {fromStandards.length - preview.unmappedClauses.length} of {fromStandards.length} clauses mapped
+                  </div>
+                  {suggested && (
+                    <Button variant="outline" onClick={handleApplySuggested} disabled={saving}>
+                      <Wand2 className="h-4 w-4 mr-2" />
+                      Apply Suggested Mapping
+                    </Button>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-3 px-4 font-medium text-gray-500">Clause</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500">Description</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500">Maps To</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fromStandards.map((from) => {
+                        const mapped = toStandards.filter(to => isMapped(from.id, to.id));
+                        return (
+                          <tr key={from.id} className="border-b hover:bg-gray-50 align-top">
+                            <td className="py-3 px-4 font-medium table-entry">{from.standard_clause}</td>
+                            <td className="py-3 px-4 text-gray-600 table-entry">{from.standard_description}</td>
+                            <td className="py-3 px-4 table-entry">
+                              <div className="flex flex-wrap items-center gap-1">
+                                {mapped.map((to) => (
+                                  <span
+                                    key={to.id}
+                                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                                    title={to.standard_description}
+                                  >
+                                    {to.standard_clause}
+                                    <button
+                                      type="button"
+                                      className="ml-1 hover:text-purple-950"
+                                      onClick={() => handleToggleMapping(from, to, false)}
+                                      aria-label={`Remove mapping to ${to.standard_clause}`}
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </span>
+                                ))}
+                                <Popover>
+                                  <PopoverTrigger asChild>
+                                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                                      <Plus className="h-3 w-3 mr-1" />
+                                      Map
+                                    </Button>
+                                  </PopoverTrigger>
+                                  <PopoverContent className="w-96 p-0" align="start">
+                                    <div className="max-h-72 overflow-y-auto divide-y">
+                                      {toStandards.map((to) => (
+                                        <label
+                                          key={to.id}
+                                          className="flex items-start gap-2 p-2 text-sm hover:bg-gray-50 cursor-pointer"
+                                        >
+                                          <Checkbox
+                                            className="mt-0.5"
+                                            checked={isMapped(from.id, to.id)}
+                                            onCheckedChange={(checked) => handleToggleMapping(from, to, checked === true)}
+                                          />
+                                          <span>
+                                            <span className="font-medium">{to.standard_clause}</span>{' '}
+                                            <span className="text-gray-600">{to.standard_description}</span>
+                                          </span>
+                                        </label>
+                                      ))}
+                                    </div>
+                                  </PopoverContent>
+                                </Popover>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="migrate">
+            <Card className="mb-6">
+              <CardContent className="p-6">
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">Changes</h2>
+                    <p className="text-sm text-gray-600">
+                      {preview.changes.length} clause link{preview.changes.length === 1 ? '' : 's'} will be moved.
+                      {migratedRecordIds.size > 0 && ` ${migratedRecordIds.size} already migrated.`}
+                    </p>
+                  </div>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button disabled={saving || preview.changes.length === 0}>
+                        {saving ? 'Migrating...' : 'Migrate Records'}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Migrate {preview.changes.length} clause links?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Each record will be linked to the new clauses shown in place of the old one. Every change is recorded in the audit log.
+                          {preview.unmappedRecords.length > 0 && ` ${preview.unmappedRecords.length} unmapped link(s) will be left as they are.`}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleMigrate}>
+                          Migrate
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-3 px-4 font-medium text-gray-500">Compliance Item</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500">Current Clause</th>
+                        <th className="text-left py-3 px-4 font-medium text-gray-500">New Clause</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.changes.map((change) => (
+                        <tr key={`${change.record.id}:${change.from.id}`} className="border-b hover:bg-gray-50">
+                          <td className="py-3 px-4 font-medium table-entry">{change.record.compliance_item}</td>
+                          <td className="py-3 px-4 table-entry">
+                            <span className="line-through text-red-600">{change.from.standard_clause}</span>
+                          </td>
+                          <td className="py-3 px-4 table-entry">
+                            <span className="text-green-700">
+                              {change.targets.map(target => target.standard_clause).join(', ')}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {preview.changes.length === 0 && (
+                  <div className="text-center py-8 text-gray-500">
+                    No compliance records are waiting to be migrated.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">Unmapped</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  These won't be changed. Map the clauses first, or update the records by hand.
+                </p>
+
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="font-medium text-gray-900 mb-2">
+                      Records ({preview.unmappedRecords.length})
+                    </h3>
+                    {preview.unmappedRecords.length === 0 ? (
+                      <div className="text-sm text-gray-500">Every record has a mapping.</div>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {preview.unmappedRecords.map(({ record, from }) => (
+                          <li key={`${record.id}:${from.id}`} className="text-gray-700">
+                            <span className="font-medium">{from.standard_clause}</span> · {record.compliance_item}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div>
+                    <h3 className="font-medium text-gray-900 mb-2">
+                      Clauses ({preview.unmappedClauses.length})
+                    </h3>
+                    {preview.unmappedClauses.length === 0 ? (
+                      <div className="text-sm text-gray-500">Every clause has a mapping.</div>
+                    ) : (
+                      <ul className="space-y-1 text-sm">
+                        {preview.unmappedClauses.map((standard) => (
+                          <li key={standard.id} className="text-gray-700">
+                            <span className="font-medium">{standard.standard_clause}</span> · {standard.standard_description}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Package, Download, Loader2, Trash2 } from 'lucide-react';
+import { StandardMultiSelect } from '@/components/compliance/StandardMultiSelect';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatFileSize } from '@/lib/evidence';
+import {
+  EVIDENCE_PACK_SELECT,
+  EVIDENCE_PACK_STATUSES,
+  EvidencePack,
+  EvidencePackStatus,
+  canDeleteEvidencePack,
+  deleteEvidencePack,
+  getEvidencePackSignedUrl,
+  requestEvidencePack,
+} from '@/lib/evidencePacks';
+import { Standard, getDescendantIds } from '@/lib/standards';
+
+export const EvidencePacks = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [standards, setStandards] = useState<Standard[]>([]);
+  const [packs, setPacks] = useState<EvidencePack[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includeSubClauses, setIncludeSubClauses] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchPacks = useCallback(async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    const { data, error } = await supabase
+      .from('evidence_packs')
+      .select(EVIDENCE_PACK_SELECT)
+      .eq('organisation_id', organisationMember.organisation_id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) throw error;
+    setPacks((data || []) as EvidencePack[]);
+  }, [organisationMember?.organisation_id]);
+
+  const fetchData = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('standards')
+        .select('*')
+        .eq('organisation_id', organisationMember.organisation_id);
+
+      if (error) throw error;
+      setStandards(data || []);
+      await fetchPacks();
+    } catch (error) {
+      console.error('Error fetching evidence packs:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch evidence packs",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [organisationMember]);
+
+  // Packs are built in the background, so follow their progress as it's written
+  useEffect(() => {
+    if (!organisationMember?.organisation_id) return;
+
+    const channel = supabase
+      .channel(`evidence-packs-${organisationMember.organisation_id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'evidence_packs',
+          filter: `organisation_id=eq.${organisationMember.organisation_id}`,
+        },
+        () => {
+          fetchPacks().catch(error => console.error('Error refreshing evidence packs:', error));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [organisationMember?.organisation_id, fetchPacks]);
+
+  const getPackStandardIds = () => {
+    if (!includeSubClauses) return selectedIds;
+    const ids = new Set<string>();
+    selectedIds.forEach(id => getDescendantIds(standards, id).forEach(descendant => ids.add(descendant)));
+    return Array.from(ids);
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      await requestEvidencePack(getPackStandardIds());
+      await fetchPacks();
+      setSelectedIds([]);
+      toast({
+        title: "Evidence pack queued",
+        description: "You'll be notified when it's ready to download.",
+      });
+    } catch (error) {
+      console.error('Error generating evidence pack:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate evidence pack",
+        variant: "destructive",
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDownload = async (pack: EvidencePack) => {
+    setDownloadingId(pack.id);
+    try {
+      window.location.href = await getEvidencePackSignedUrl(pack);
+    } catch (error) {
+      console.error('Error downloading evidence pack:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to download evidence pack",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleDelete = async (pack: EvidencePack) => {
+    try {
+      await deleteEvidencePack(pack);
+      toast({
+        title: "Success",
+        description: "Evidence pack deleted",
+      });
+      await fetchPacks();
+    } catch (error) {
+      console.error('Error deleting evidence pack:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete evidence pack",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getPackClauses = (pack: EvidencePack) => {
+    const clauses = pack.standard_ids
+      .map(id => standards.find(standard => standard.id === id)?.standard_clause)
+      .filter((clause): clause is string => !!clause)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const missing = pack.standard_ids.length - clauses.length;
+    if (missing > 0) clauses.push(`${missing} removed`);
+    return clauses.join(', ');
+  };
+
+  const getStatusBadge = (status: EvidencePackStatus) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (status) {
+      case 'completed':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      case 'failed':
+        return `${baseClasses} bg-red-100 text-red-800`;
+      case 'processing':
+        return `${baseClasses} bg-blue-100 text-blue-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading evidence packs...</div>
+      </div>
+    );
+  }
+
+  const packStandardCount = getPackStandardIds().length;
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-6">
+        <Package className="h-8 w-8 text-[#7030a0] mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Audit Evidence Packs</h1>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Generate a Pack</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Choose the standard clauses under audit. The pack is a zip with a folder per clause holding a
+            summary of each linked compliance record and its evidence files, plus an index of where everything is.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="pack-standards">Standard Clauses</Label>
+            <StandardMultiSelect
+              id="pack-standards"
+              standards={standards}
+              value={selectedIds}
+              onChange={setSelectedIds}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="include-sub-clauses"
+              checked={includeSubClauses}
+              onCheckedChange={(checked) => setIncludeSubClauses(checked === true)}
+            />
+            <Label htmlFor="include-sub-clauses" className="font-normal">
+              Include sub-clauses of the chosen clauses
+            </Label>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-500">
+              {packStandardCount === 0
+                ? 'No clauses chosen'
+                : `${packStandardCount} clause${packStandardCount === 1 ? '' : 's'} will be included`}
+            </span>
+            <Button
+              onClick={handleGenerate}
+              disabled={generating || packStandardCount === 0}
+            >
+              {generating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Package className="h-4 w-4 mr-2" />
+              )}
+              Generate Pack
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Packs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {packs.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No evidence packs have been generated yet</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Requested</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Standard Clauses</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Status</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Contents</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {packs.map((pack) => (
+                    <tr key={pack.id} className="border-b hover:bg-gray-50 align-top">
+                      <td className="py-3 px-4 table-entry">
+                        <div>{new Date(pack.created_at).toLocaleString('en-AU')}</div>
+                        <div className="text-xs text-gray-500">
+                          {pack.requester?.full_name || pack.requester?.email || 'Unknown'}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{getPackClauses(pack)}</td>
+                      <td className="py-3 px-4 table-entry">
+                        <span className={getStatusBadge(pack.status)}>{EVIDENCE_PACK_STATUSES[pack.status]}</span>
+                        {pack.error && <div className="text-xs text-red-600 mt-1">{pack.error}</div>}
+                      </td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">
+                        {pack.status === 'completed' ? (
+                          <div className="text-sm">
+                            {pack.record_count} record{pack.record_count === 1 ? '' : 's'} · {pack.file_count} file{pack.file_count === 1 ? '' : 's'}
+                            <div className="text-xs text-gray-500">
+                              {formatFileSize(pack.size_bytes)}
+                              {pack.expires_at && ` · available until ${new Date(pack.expires_at).toLocaleDateString('en-AU')}`}
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-gray-400 text-sm">—</span>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 table-entry">
+                        <div className="flex items-center space-x-2">
+                          {pack.status === 'completed' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDownload(pack)}
+                              disabled={downloadingId === pack.id}
+                            >
+                              <Download className="h-4 w-4 mr-2" />
+                              Download
+                            </Button>
+                          )}
+                          {canDeleteEvidencePack(pack) && (isAdmin || pack.requested_by === organisationMember?.id) && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete this evidence pack?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The pack and its zip will be permanently removed. The records and evidence files it was built from are not affected.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(pack)}>
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
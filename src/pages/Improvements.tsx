@@ -0,0 +1,386 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TrendingUp, Plus, Search, Edit, Trash2, Lightbulb, Clock, CheckCircle } from 'lucide-react';
+import { ImprovementDialog } from '@/components/improvements/ImprovementDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  IMPROVEMENT_SELECT,
+  IMPROVEMENT_SOURCES,
+  IMPROVEMENT_STATUSES,
+  Improvement,
+  ImprovementSource,
+  ImprovementStatus,
+  getImprovementRecords,
+  getImprovementStandards,
+} from '@/lib/improvements';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+// Implemented and closed entries both count as done for the stat cards
+const isDone = (improvement: Improvement) =>
+  improvement.status === 'implemented' || improvement.status === 'closed';
+
+export const Improvements = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [improvements, setImprovements] = useState<Improvement[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [sourceFilter, setSourceFilter] = useState('all');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingImprovement, setEditingImprovement] = useState<Improvement | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchImprovements = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('improvements')
+        .select(IMPROVEMENT_SELECT)
+        .eq('organisation_id', organisationMember.organisation_id)
+        .order('identified_on', { ascending: false });
+
+      if (error) throw error;
+      setImprovements((data || []) as Improvement[]);
+    } catch (error) {
+      console.error('Error fetching improvements:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch improvements",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchImprovements();
+  }, [organisationMember]);
+
+  const openDialog = (improvement: Improvement | null) => {
+    setEditingImprovement(improvement);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (improvement: Improvement) => {
+    try {
+      const { error } = await supabase
+        .from('improvements')
+        .delete()
+        .eq('id', improvement.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Improvement deleted",
+      });
+
+      fetchImprovements();
+    } catch (error) {
+      console.error('Error deleting improvement:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete improvement",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stats = [
+    {
+      label: 'Total Improvements',
+      value: improvements.length,
+      subtitle: 'In the register',
+      icon: TrendingUp,
+      iconColor: 'text-[#7030a0]',
+      filterType: 'all',
+    },
+    {
+      label: 'Identified',
+      value: improvements.filter(i => i.status === 'identified').length,
+      subtitle: 'Awaiting action',
+      icon: Lightbulb,
+      iconColor: 'text-yellow-500',
+      filterType: 'identified',
+    },
+    {
+      label: 'In Progress',
+      value: improvements.filter(i => i.status === 'in_progress').length,
+      subtitle: 'Being actioned',
+      icon: Clock,
+      iconColor: 'text-blue-500',
+      filterType: 'in_progress',
+    },
+    {
+      label: 'Completed',
+      value: improvements.filter(isDone).length,
+      subtitle: 'Implemented or closed',
+      icon: CheckCircle,
+      iconColor: 'text-green-500',
+      filterType: 'done',
+    },
+  ];
+
+  const filteredImprovements = improvements.filter(improvement => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      improvement.title.toLowerCase().includes(term) ||
+      (improvement.action_taken || '').toLowerCase().includes(term) ||
+      (improvement.outcome || '').toLowerCase().includes(term) ||
+      getImprovementStandards(improvement).some(s => s.standard_clause.toLowerCase().includes(term));
+
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'done' ? isDone(improvement) : improvement.status === statusFilter);
+    const matchesSource = sourceFilter === 'all' || improvement.source === sourceFilter;
+
+    return matchesSearch && matchesStatus && matchesSource;
+  });
+
+  const getStatusBadge = (status: ImprovementStatus) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (status) {
+      case 'identified':
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+      case 'in_progress':
+        return `${baseClasses} bg-blue-100 text-blue-800`;
+      case 'implemented':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading improvements...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-6">
+        <TrendingUp className="h-8 w-8 text-[#7030a0] mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Continuous Improvement</h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {stats.map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <Card
+              key={stat.filterType}
+              className="bg-white cursor-pointer hover:shadow-lg transition-shadow"
+              onClick={() => setStatusFilter(stat.filterType)}
+            >
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-600">{stat.label}</div>
+                    <div className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</div>
+                    <div className="text-sm text-gray-500 mt-1">{stat.subtitle}</div>
+                  </div>
+                  <div className={`p-3 rounded-full bg-gray-100 ${stat.iconColor}`}>
+                    <Icon className="h-6 w-6" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-between items-center mb-6">
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Improvement
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by improvement, action, outcome or clause..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={sourceFilter} onValueChange={setSourceFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Sources</SelectItem>
+                {(Object.keys(IMPROVEMENT_SOURCES) as ImprovementSource[]).map((key) => (
+                  <SelectItem key={key} value={key}>{IMPROVEMENT_SOURCES[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                {(Object.keys(IMPROVEMENT_STATUSES) as ImprovementStatus[]).map((key) => (
+                  <SelectItem key={key} value={key}>{IMPROVEMENT_STATUSES[key]}</SelectItem>
+                ))}
+                <SelectItem value="done">Completed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Improvement</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Source</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Action Taken</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Owner</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Status</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Outcome</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Linked To</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredImprovements.map((improvement) => {
+                  const linkedStandards = getImprovementStandards(improvement);
+                  const linkedRecords = getImprovementRecords(improvement);
+                  return (
+                    <tr key={improvement.id} className="border-b hover:bg-gray-50 align-top">
+                      <td className="py-3 px-4 table-entry">
+                        <div className="font-medium">{improvement.title}</div>
+                        <div className="text-xs text-gray-500">
+                          Identified {format(parseISO(improvement.identified_on), 'dd/MM/yyyy')}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 table-entry">
+                        <div className="text-sm">{IMPROVEMENT_SOURCES[improvement.source]}</div>
+                        {improvement.source_details && (
+                          <div className="text-xs text-gray-500">{improvement.source_details}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{improvement.action_taken || '—'}</td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">
+                        {improvement.owner ? improvement.owner.full_name || improvement.owner.email : 'Unassigned'}
+                      </td>
+                      <td className="py-3 px-4 table-entry">
+                        <span className={getStatusBadge(improvement.status)}>
+                          {IMPROVEMENT_STATUSES[improvement.status]}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{improvement.outcome || '—'}</td>
+                      <td className="py-3 px-4 table-entry">
+                        {linkedStandards.length === 0 && linkedRecords.length === 0 ? (
+                          <span className="text-gray-400 text-sm">None</span>
+                        ) : (
+                          <div className="space-y-1 text-sm">
+                            {linkedStandards.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {linkedStandards.map((standard) => (
+                                  <span
+                                    key={standard.id}
+                                    className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+                                    title={standard.standard_description}
+                                  >
+                                    {standard.standard_clause}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                            {linkedRecords.map((record) => (
+                              <Link
+                                key={record.id}
+                                to={`/?record=${record.id}`}
+                                className="block text-gray-700 hover:text-[#7030a0] hover:underline"
+                              >
+                                {record.compliance_item}
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 table-entry">
+                        <div className="flex items-center space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(improvement)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {isAdmin && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete this improvement?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    "{improvement.title}" will be permanently removed from the register. Linked clauses and records are not affected.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(improvement)}>
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {filteredImprovements.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              {searchTerm || statusFilter !== 'all' || sourceFilter !== 'all'
+                ? 'No improvements found matching your filters.'
+                : 'No improvements yet. Click "Add Improvement" to start the register.'}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ImprovementDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSuccess={fetchImprovements}
+        improvement={editingImprovement}
+      />
+    </div>
+  );
+};
@@ -1,15 +1,111 @@
-
-import React from 'react';
-import { MessageSquare } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { MessageSquare, Plus } from 'lucide-react';
+import { ThreadList } from '@/components/messages/ThreadList';
+import { MessageThreadView } from '@/components/messages/MessageThreadView';
+import { NewThreadDialog } from '@/components/messages/NewThreadDialog';
+import { useMessageThreads } from '@/hooks/useMessageThreads';
+import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 
 export const Messages = () => {
+  const { organisationMember } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { threads, loading, refreshThreads } = useMessageThreads();
+  const { unreadCounts, refreshUnreadCounts } = useUnreadMessages();
+  const [isNewThreadDialogOpen, setIsNewThreadDialogOpen] = useState(false);
+
+  const selectedThreadId = searchParams.get('thread');
+  const linkRecordId = searchParams.get('record');
+  const selectedThread = threads.find(thread => thread.id === selectedThreadId) || null;
+
+  // Coming from a compliance record opens a new conversation linked to it
+  useEffect(() => {
+    if (linkRecordId) {
+      setIsNewThreadDialogOpen(true);
+    }
+  }, [linkRecordId]);
+
+  // New messages in other threads bump them to the top of the list
+  useEffect(() => {
+    refreshThreads();
+  }, [unreadCounts, refreshThreads]);
+
+  const handleSelectThread = (threadId: string) => {
+    setSearchParams({ thread: threadId });
+  };
+
+  const handleThreadCreated = async (threadId: string) => {
+    await refreshThreads();
+    setSearchParams({ thread: threadId });
+  };
+
+  const handleNewThreadDialogChange = (open: boolean) => {
+    setIsNewThreadDialogOpen(open);
+    if (!open && linkRecordId) {
+      setSearchParams(selectedThreadId ? { thread: selectedThreadId } : {});
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading messages...</div>
+      </div>
+    );
+  }
+
   return (
-    <div className="p-6 flex flex-col items-center justify-center min-h-[60vh]">
-      <div className="text-center">
-        <MessageSquare className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Message Center</h1>
-        <p className="text-lg text-gray-600">Under Development</p>
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div className="flex items-center">
+          <MessageSquare className="h-8 w-8 text-[#7030a0] mr-3" />
+          <h1 className="text-3xl font-bold text-gray-900">Message Center</h1>
+        </div>
+        <Button onClick={() => setIsNewThreadDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Conversation
+        </Button>
       </div>
+
+      <Card className="flex h-[calc(100vh-12rem)] overflow-hidden">
+        {/* Thread sidebar */}
+        <div className="w-72 border-r overflow-y-auto shrink-0">
+          <ThreadList
+            threads={threads}
+            selectedThreadId={selectedThreadId}
+            unreadCounts={unreadCounts}
+            currentMemberId={organisationMember?.id}
+            onSelect={handleSelectThread}
+          />
+        </div>
+
+        {/* Conversation */}
+        <div className="flex-1 min-w-0">
+          {selectedThread && organisationMember ? (
+            <MessageThreadView
+              key={selectedThread.id}
+              thread={selectedThread}
+              currentMemberId={organisationMember.id}
+              onRead={refreshUnreadCounts}
+            />
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center text-gray-500">
+              <MessageSquare className="h-12 w-12 text-gray-300 mb-3" />
+              Select a conversation or start a new one.
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <NewThreadDialog
+        open={isNewThreadDialogOpen}
+        onOpenChange={handleNewThreadDialogChange}
+        onCreated={handleThreadCreated}
+        defaultRecordId={linkRecordId}
+      />
     </div>
   );
 };
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { differenceInCalendarDays } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { RotateCcw, Trash } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AUDITED_TABLES } from '@/lib/audit';
+import { RECYCLE_BIN_RETENTION_DAYS, RecycleBinItem, RecycleBinTable } from '@/lib/recycleBin';
+
+export const RecycleBin = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [items, setItems] = useState<RecycleBinItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchItems = async () => {
+    if (!organisationMember?.organisation_id || !isAdmin) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_recycle_bin');
+
+      if (error) throw error;
+      setItems(data || []);
+    } catch (error) {
+      console.error('Error fetching recycle bin:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch recycle bin",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems();
+  }, [organisationMember]);
+
+  const handleRestore = async (item: RecycleBinItem) => {
+    setRestoringId(item.id);
+    try {
+      const { error } = await supabase.rpc('restore_from_recycle_bin', {
+        p_table: item.item_type as RecycleBinTable,
+        p_id: item.id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${item.label} restored`,
+      });
+
+      fetchItems();
+    } catch (error) {
+      console.error('Error restoring item:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore item",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading recycle bin...</div>
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="p-6 text-center text-gray-500">
+        Only organisation admins can view the recycle bin.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-2">
+        <Trash className="h-8 w-8 text-[#7030a0] mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Recycle Bin</h1>
+      </div>
+      <p className="text-gray-600 mb-6">
+        Deleted compliance records and standards can be restored for {RECYCLE_BIN_RETENTION_DAYS} days.
+        After that they are permanently deleted, along with their evidence files.
+      </p>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Item</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Type</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Deleted By</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Deleted</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Permanently Deleted In</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item) => {
+                  const daysLeft = Math.max(0, differenceInCalendarDays(new Date(item.purge_after), new Date()));
+
+                  return (
+                    <tr key={`${item.item_type}-${item.id}`} className="border-b hover:bg-gray-50">
+                      <td className="py-3 px-4 font-medium table-entry">{item.label}</td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{AUDITED_TABLES[item.item_type] || item.item_type}</td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{item.deleted_by_name || 'Unknown'}</td>
+                      <td className="py-3 px-4 text-gray-600 table-entry">{new Date(item.deleted_at).toLocaleString()}</td>
+                      <td className="py-3 px-4 table-entry">
+                        <span className={daysLeft <= 7 ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                          {daysLeft === 0 ? 'Today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 table-entry">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={restoringId === item.id}
+                          onClick={() => handleRestore(item)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {items.length === 0 && (
+            <div className="text-center py-8 text-gray-500">
+              The recycle bin is empty.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,411 @@
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Plus, Upload, Search, Edit, Trash2, CheckCircle, Clock, AlertTriangle, Archive } from 'lucide-react';
+import { ScopeItemDialog } from '@/components/scope/ScopeItemDialog';
+import { ImportScopeDialog } from '@/components/scope/ImportScopeDialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  SCOPE_PRODUCT_TYPES,
+  SCOPE_STATUSES,
+  TRANSITION_WARNING_DAYS,
+  ScopeItem,
+  ScopeProductType,
+  ScopeStatus,
+  getDaysToTransition,
+  isTransitionDue,
+} from '@/lib/scope';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const describeTransition = (days: number) => {
+  if (days < 0) return `Ended ${-days} day${days === -1 ? '' : 's'} ago`;
+  if (days === 0) return 'Ends today';
+  return `${days} day${days === 1 ? '' : 's'} left`;
+};
+
+export const Scope = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const [rtoId, setRtoId] = useState<string | null>(null);
+  const [items, setItems] = useState<ScopeItem[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<ScopeItem | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchScope = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const { data: organisation, error: organisationError } = await supabase
+        .from('organisations')
+        .select('rto_id')
+        .eq('id', organisationMember.organisation_id)
+        .single();
+
+      if (organisationError) throw organisationError;
+      setRtoId(organisation.rto_id);
+
+      // The register belongs to the RTO ID, so items from a previous ID aren't shown
+      if (!organisation.rto_id) {
+        setItems([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('scope_items')
+        .select('*')
+        .eq('organisation_id', organisationMember.organisation_id)
+        .eq('rto_id', organisation.rto_id)
+        .order('code');
+
+      if (error) throw error;
+      setItems((data || []) as ScopeItem[]);
+    } catch (error) {
+      console.error('Error fetching scope of registration:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch scope of registration",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchScope();
+  }, [organisationMember]);
+
+  const openDialog = (item: ScopeItem | null) => {
+    setEditingItem(item);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (item: ScopeItem) => {
+    try {
+      const { error } = await supabase
+        .from('scope_items')
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${item.code} removed from scope`,
+      });
+
+      fetchScope();
+    } catch (error) {
+      console.error('Error deleting scope item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove scope item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const stats = [
+    {
+      label: 'Current',
+      value: items.filter(i => i.status === 'current').length,
+      subtitle: 'On scope and current',
+      icon: CheckCircle,
+      iconColor: 'text-green-500',
+      filterType: 'current',
+    },
+    {
+      label: 'Teach-Out',
+      value: items.filter(i => i.status === 'teach_out').length,
+      subtitle: 'Superseded, still in transition',
+      icon: Clock,
+      iconColor: 'text-yellow-500',
+      filterType: 'teach_out',
+    },
+    {
+      label: 'Transitions Due',
+      value: items.filter(i => isTransitionDue(i)).length,
+      subtitle: `Ending within ${TRANSITION_WARNING_DAYS} days`,
+      icon: AlertTriangle,
+      iconColor: 'text-red-500',
+      filterType: 'due',
+    },
+    {
+      label: 'Superseded',
+      value: items.filter(i => i.status === 'superseded').length,
+      subtitle: 'No longer deliverable',
+      icon: Archive,
+      iconColor: 'text-gray-500',
+      filterType: 'superseded',
+    },
+  ];
+
+  const filteredItems = items.filter(item => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      item.code.toLowerCase().includes(term) ||
+      item.title.toLowerCase().includes(term) ||
+      (item.superseded_by || '').toLowerCase().includes(term);
+
+    const matchesType = typeFilter === 'all' || item.product_type === typeFilter;
+    const matchesStatus = statusFilter === 'all' ||
+      (statusFilter === 'due' ? isTransitionDue(item) : item.status === statusFilter);
+
+    return matchesSearch && matchesType && matchesStatus;
+  });
+
+  const getStatusBadge = (status: ScopeStatus) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (status) {
+      case 'current':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      case 'teach_out':
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading scope of registration...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-6">
+        <BookOpen className="h-8 w-8 text-[#7030a0] mr-3" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Scope of Registration</h1>
+          {rtoId && <div className="text-sm text-gray-500">RTO {rtoId}</div>}
+        </div>
+      </div>
+
+      {!rtoId ? (
+        <Card>
+          <CardContent className="p-6 text-center text-gray-500">
+            Your organisation has no RTO ID recorded. The scope register is keyed to your RTO ID, so one needs to be
+            added to your organisation before products can be recorded or imported.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            {stats.map((stat) => {
+              const Icon = stat.icon;
+              return (
+                <Card
+                  key={stat.filterType}
+                  className="bg-white cursor-pointer hover:shadow-lg transition-shadow"
+                  onClick={() => setStatusFilter(stat.filterType)}
+                >
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-gray-600">{stat.label}</div>
+                        <div className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</div>
+                        <div className="text-sm text-gray-500 mt-1">{stat.subtitle}</div>
+                      </div>
+                      <div className={`p-3 rounded-full bg-gray-100 ${stat.iconColor}`}>
+                        <Icon className="h-6 w-6" />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          {isAdmin && (
+            <div className="flex items-center gap-2 mb-6">
+              <Button onClick={() => openDialog(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add to Scope
+              </Button>
+              <Button variant="outline" onClick={() => setImportOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import from training.gov.au
+              </Button>
+            </div>
+          )}
+
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex flex-col md:flex-row gap-4 mb-6">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <Input
+                    placeholder="Search by code or title..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={typeFilter} onValueChange={setTypeFilter}>
+                  <SelectTrigger className="w-full md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Types</SelectItem>
+                    {(Object.keys(SCOPE_PRODUCT_TYPES) as ScopeProductType[]).map((key) => (
+                      <SelectItem key={key} value={key}>{SCOPE_PRODUCT_TYPES[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <SelectTrigger className="w-full md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {(Object.keys(SCOPE_STATUSES) as ScopeStatus[]).map((key) => (
+                      <SelectItem key={key} value={key}>{SCOPE_STATUSES[key]}</SelectItem>
+                    ))}
+                    <SelectItem value="due">Transitions Due</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Code</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Title</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Status</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Superseded By</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Transition Ends</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">On Scope From</th>
+                      {isAdmin && <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredItems.map((item) => {
+                      const daysLeft = item.status === 'teach_out' ? getDaysToTransition(item) : null;
+                      return (
+                        <tr key={item.id} className="border-b hover:bg-gray-50 align-top">
+                          <td className="py-3 px-4 table-entry">
+                            <div className="font-medium">{item.code}</div>
+                            <div className="text-xs text-gray-500">{SCOPE_PRODUCT_TYPES[item.product_type]}</div>
+                          </td>
+                          <td className="py-3 px-4 table-entry">
+                            <div>{item.title}</div>
+                            {item.extent && <div className="text-xs text-gray-500">{item.extent}</div>}
+                            {item.notes && <div className="text-xs text-gray-500 mt-1">{item.notes}</div>}
+                          </td>
+                          <td className="py-3 px-4 table-entry">
+                            <span className={getStatusBadge(item.status)}>
+                              {SCOPE_STATUSES[item.status]}
+                            </span>
+                          </td>
+                          <td className="py-3 px-4 text-gray-600 table-entry">{item.superseded_by || '—'}</td>
+                          <td className="py-3 px-4 table-entry">
+                            {item.transition_ends_on ? (
+                              <>
+                                <div className="text-sm text-gray-600">{format(parseISO(item.transition_ends_on), 'dd/MM/yyyy')}</div>
+                                {daysLeft !== null && (
+                                  <div className={`text-xs ${daysLeft < 0 ? 'text-red-600 font-medium' : isTransitionDue(item) ? 'text-orange-600' : 'text-gray-500'}`}>
+                                    {describeTransition(daysLeft)}
+                                  </div>
+                                )}
+                              </>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-gray-600 table-entry">
+                            {item.on_scope_from ? format(parseISO(item.on_scope_from), 'dd/MM/yyyy') : '—'}
+                          </td>
+                          {isAdmin && (
+                            <td className="py-3 px-4 table-entry">
+                              <div className="flex items-center space-x-2">
+                                <Button variant="ghost" size="sm" onClick={() => openDialog(item)}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Remove {item.code} from scope?</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        "{item.title}" will be removed from the register. To keep a record of a product that has
+                                        left scope, mark it as superseded instead.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction onClick={() => handleDelete(item)}>
+                                        Remove
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </div>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {filteredItems.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                  {searchTerm || statusFilter !== 'all' || typeFilter !== 'all'
+                    ? 'No training products found matching your filters.'
+                    : 'Nothing is on the register yet. Import your scope from training.gov.au to get started.'}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <ScopeItemDialog
+            open={dialogOpen}
+            onOpenChange={setDialogOpen}
+            onSuccess={fetchScope}
+            rtoId={rtoId}
+            item={editingItem}
+          />
+
+          <ImportScopeDialog
+            open={importOpen}
+            onOpenChange={setImportOpen}
+            onSuccess={fetchScope}
+            rtoId={rtoId}
+            existingItems={items}
+          />
+        </>
+      )}
+    </div>
+  );
+};
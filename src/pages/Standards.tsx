@@ -1,14 +1,26 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { Plus, Search, Edit, Trash2, FileText } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, FileText, ChevronDown, ChevronRight, Library, GitCompare } from 'lucide-react';
 import { AddStandardDialog } from '@/components/standards/AddStandardDialog';
 import { EditStandardDialog } from '@/components/standards/EditStandardDialog';
+import { ImportFrameworkDialog } from '@/components/standards/ImportFrameworkDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { RECYCLE_BIN_RETENTION_DAYS } from '@/lib/recycleBin';
+import { FRAMEWORKS } from '@/lib/frameworks';
+import {
+  STANDARD_LEVELS,
+  Standard,
+  StandardLevel,
+  StandardNode,
+  buildStandardTree,
+  rollUpStatuses,
+} from '@/lib/standards';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,35 +33,47 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-interface Standard {
-  id: string;
-  standard_clause: string;
-  standard_description: string;
-  created_at: string;
-}
-
 export const Standards = () => {
   const { organisationMember } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
   const [searchTerm, setSearchTerm] = useState('');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [editingStandard, setEditingStandard] = useState<Standard | null>(null);
+  const [addParentId, setAddParentId] = useState<string | null>(null);
   const [standards, setStandards] = useState<Standard[]>([]);
+  const [records, setRecords] = useState<{ id: string; compliance_status: string; standard_ids: string[] }[]>([]);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
 
+  const isAdmin = organisationMember?.role === 'admin';
+
   const fetchStandards = async () => {
     if (!organisationMember?.organisation_id) return;
 
     try {
-      const { data, error } = await supabase
-        .from('standards')
-        .select('*')
-        .eq('organisation_id', organisationMember.organisation_id)
-        .order('created_at', { ascending: false });
+      // Records are only needed for their status, which rolls up the tree
+      const [standardsResult, recordsResult] = await Promise.all([
+        supabase
+          .from('standards')
+          .select('*')
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('compliance_records')
+          .select('id, compliance_status, compliance_record_standards(standard_id)')
+          .eq('organisation_id', organisationMember.organisation_id),
+      ]);
 
-      if (error) throw error;
-      setStandards(data || []);
+      if (standardsResult.error) throw standardsResult.error;
+      if (recordsResult.error) throw recordsResult.error;
+      setStandards(standardsResult.data || []);
+      setRecords((recordsResult.data || []).map(record => ({
+        id: record.id,
+        compliance_status: record.compliance_status,
+        standard_ids: record.compliance_record_standards.map(link => link.standard_id),
+      })));
     } catch (error) {
       console.error('Error fetching standards:', error);
       toast({
@@ -66,6 +90,11 @@ export const Standards = () => {
     fetchStandards();
   }, [organisationMember]);
 
+  const handleAddStandard = (parentId: string | null = null) => {
+    setAddParentId(parentId);
+    setIsAddDialogOpen(true);
+  };
+
   const handleEditStandard = (standard: Standard) => {
     setEditingStandard(standard);
     setIsEditDialogOpen(true);
@@ -73,16 +102,16 @@ export const Standards = () => {
 
   const handleDeleteStandard = async (id: string) => {
     try {
-      const { error } = await supabase
-        .from('standards')
-        .delete()
-        .eq('id', id);
+      const { error } = await supabase.rpc('move_to_recycle_bin', {
+        p_table: 'standards',
+        p_id: id,
+      });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Standard deleted successfully",
+        description: "Standard moved to the recycle bin",
       });
 
       fetchStandards();
@@ -96,10 +125,151 @@ export const Standards = () => {
     }
   };
 
-  const filteredStandards = standards.filter(standard =>
-    standard.standard_clause.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    standard.standard_description.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const tree = useMemo(() => buildStandardTree(standards), [standards]);
+  const statuses = useMemo(() => rollUpStatuses(tree, records), [tree, records]);
+
+  // While searching, matches are shown with the path down to them
+  const visibleTree = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    if (!term) return tree;
+
+    const filterNodes = (nodes: StandardNode[]): StandardNode[] =>
+      nodes.flatMap(node => {
+        const children = filterNodes(node.children);
+        const matches =
+          node.standard.standard_clause.toLowerCase().includes(term) ||
+          node.standard.standard_description.toLowerCase().includes(term);
+        return matches || children.length > 0 ? [{ ...node, children }] : [];
+      });
+
+    return filterNodes(tree);
+  }, [tree, searchTerm]);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const collapseAll = () => {
+    setCollapsedIds(new Set(standards.filter(s => standards.some(c => c.parent_id === s.id)).map(s => s.id)));
+  };
+
+  const getStatusBadge = (status: string) => {
+    const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
+    switch (status.toLowerCase()) {
+      case 'compliant':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      case 'at risk':
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+      case 'non-compliant':
+        return `${baseClasses} bg-red-100 text-red-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
+  const renderNode = (node: StandardNode, depth: number): React.ReactNode => {
+    const { standard, children } = node;
+    const hasChildren = children.length > 0;
+    // Search results are always shown expanded so every match is visible
+    const isExpanded = !!searchTerm || !collapsedIds.has(standard.id);
+    const rolledUp = statuses.get(standard.id);
+
+    return (
+      <React.Fragment key={standard.id}>
+        <tr className="border-b hover:bg-gray-50">
+          <td className="py-3 px-4 font-medium table-entry">
+            <div className="flex items-center" style={{ paddingLeft: `${depth * 20}px` }}>
+              {hasChildren ? (
+                <button
+                  type="button"
+                  onClick={() => toggleCollapsed(standard.id)}
+                  className="mr-1 text-gray-500 hover:text-gray-700"
+                  aria-label={isExpanded ? 'Collapse' : 'Expand'}
+                >
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                </button>
+              ) : (
+                <span className="w-4 mr-1" />
+              )}
+              {standard.standard_clause}
+            </div>
+          </td>
+          <td className="py-3 px-4 text-gray-600 table-entry">
+            {standard.standard_description}
+            {standard.framework && (
+              <div className="text-xs text-gray-400 mt-1">
+                {FRAMEWORKS.find(f => f.code === standard.framework)?.name || standard.framework}
+              </div>
+            )}
+          </td>
+          <td className="py-3 px-4 text-gray-600 table-entry">
+            {STANDARD_LEVELS[standard.level as StandardLevel] || standard.level}
+          </td>
+          <td className="py-3 px-4 table-entry">
+            {rolledUp?.status ? (
+              <span className={getStatusBadge(rolledUp.status)}>
+                {rolledUp.status}
+              </span>
+            ) : (
+              <span className="text-gray-400 text-sm">No records</span>
+            )}
+            {rolledUp?.status && (
+              <span className="text-xs text-gray-500 ml-2">
+                {rolledUp.recordCount} record{rolledUp.recordCount === 1 ? '' : 's'}
+              </span>
+            )}
+          </td>
+          <td className="py-3 px-4 table-entry">
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Add child"
+                onClick={() => handleAddStandard(standard.id)}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              <Button 
+                variant="ghost" 
+                size="sm"
+                onClick={() => handleEditStandard(standard)}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Are you sure you want to delete this standard?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The standard will be moved to the recycle bin. An admin can restore it within {RECYCLE_BIN_RETENTION_DAYS} days, after which it is permanently deleted.
+                      {hasChildren && ' Its child clauses will stay and move to the top level.'}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => handleDeleteStandard(standard.id)}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </td>
+        </tr>
+        {hasChildren && isExpanded && children.map(child => renderNode(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
 
   if (loading) {
     return (
@@ -116,16 +286,30 @@ export const Standards = () => {
           <FileText className="h-8 w-8 text-[#7030a0] mr-3" />
           <h1 className="text-3xl font-bold text-gray-900">Standards Management</h1>
         </div>
-        <Button onClick={() => setIsAddDialogOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Standard
-        </Button>
+        <div className="flex gap-2">
+          {isAdmin && (
+            <>
+              <Button variant="outline" onClick={() => navigate('/standards/crosswalk')}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Crosswalk
+              </Button>
+              <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                <Library className="h-4 w-4 mr-2" />
+                Import Framework
+              </Button>
+            </>
+          )}
+          <Button onClick={() => handleAddStandard()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Standard
+          </Button>
+        </div>
       </div>
 
       <Card>
         <CardContent className="p-6">
-          <div className="mb-6">
-            <div className="relative">
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
               <Input
                 placeholder="Search by standard clause or description..."
@@ -134,6 +318,14 @@ export const Standards = () => {
                 className="pl-10"
               />
             </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setCollapsedIds(new Set())}>
+                Expand All
+              </Button>
+              <Button variant="outline" onClick={collapseAll}>
+                Collapse All
+              </Button>
+            </div>
           </div>
 
           <div className="overflow-x-auto">
@@ -142,61 +334,22 @@ export const Standards = () => {
                 <tr className="border-b">
                   <th className="text-left py-3 px-4 font-medium text-gray-500">Standard Clause</th>
                   <th className="text-left py-3 px-4 font-medium text-gray-500">Standard Description</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-500">Created Date</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Level</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-500">Status</th>
                   <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>
                 </tr>
               </thead>
               <tbody>
-                {filteredStandards.map((standard) => (
-                  <tr key={standard.id} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4 font-medium table-entry">{standard.standard_clause}</td>
-                    <td className="py-3 px-4 text-gray-600 table-entry">{standard.standard_description}</td>
-                    <td className="py-3 px-4 text-gray-600 table-entry">
-                      {new Date(standard.created_at).toLocaleDateString()}
-                    </td>
-                    <td className="py-3 px-4 table-entry">
-                      <div className="flex items-center space-x-2">
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => handleEditStandard(standard)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Are you sure you want to delete this standard?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                This action cannot be undone. This will permanently delete the standard.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => handleDeleteStandard(standard.id)}>
-                                Delete
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
+                {visibleTree.map(node => renderNode(node, 0))}
               </tbody>
             </table>
           </div>
 
-          {filteredStandards.length === 0 && (
+          {visibleTree.length === 0 && (
             <div className="text-center py-8 text-gray-500">
               {searchTerm 
                 ? 'No standards found matching your search.' 
-                : 'No standards yet. Click "Add Standard" to get started.'}
+                : 'No standards yet. Click "Add Standard" or import a framework to get started.'}
             </div>
           )}
         </CardContent>
@@ -206,6 +359,15 @@ export const Standards = () => {
         open={isAddDialogOpen} 
         onOpenChange={setIsAddDialogOpen}
         onSuccess={fetchStandards}
+        standards={standards}
+        defaultParentId={addParentId}
+      />
+
+      <ImportFrameworkDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onSuccess={fetchStandards}
+        standards={standards}
       />
 
       <EditStandardDialog 
@@ -213,6 +375,7 @@ export const Standards = () => {
         onOpenChange={setIsEditDialogOpen}
         onSuccess={fetchStandards}
         standard={editingStandard}
+        standards={standards}
       />
     </div>
   );
@@ -4,10 +4,13 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Search, Users, Trash2, UserCheck, Crown, Building2, Hash, Mail, Phone } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { InviteMemberDialog } from '@/components/team/InviteMemberDialog';
+import { InvitationsTable } from '@/components/team/InvitationsTable';
+import { Invitation, getInvitationStatus } from '@/lib/invitations';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -43,6 +46,7 @@ export const TeamMembers = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [organisation, setOrganisation] = useState<Organisation | null>(null);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [loading, setLoading] = useState(true);
 
   const isAdmin = organisationMember?.role === 'admin';
@@ -93,9 +97,32 @@ export const TeamMembers = () => {
     }
   };
 
+  const fetchInvitations = async () => {
+    if (!organisationMember?.organisation_id || !isAdmin) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('id, email, created_at, updated_at, expires_at, accepted_at, inviter:organisation_members!invitations_invited_by_fkey(full_name, email)')
+        .eq('organisation_id', organisationMember.organisation_id)
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invitations",
+        variant: "destructive",
+      });
+    }
+  };
+
   useEffect(() => {
     fetchOrganisation();
     fetchTeamMembers();
+    fetchInvitations();
   }, [organisationMember]);
 
   const handleRoleUpdate = async (memberId: string, newRole: 'admin' | 'member') => {
@@ -162,6 +189,12 @@ export const TeamMembers = () => {
     (member.full_name && member.full_name.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  const filteredInvitations = invitations.filter(invitation =>
+    invitation.email.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const openInvitationCount = invitations.filter(invitation => getInvitationStatus(invitation) !== 'Accepted').length;
+
   const getRoleBadge = (role: string) => {
     const baseClasses = "px-2 py-1 rounded-full text-xs font-medium";
     switch (role) {
@@ -213,7 +246,7 @@ export const TeamMembers = () => {
           <Users className="h-8 w-8 text-[#7030a0] mr-3" />
           <h1 className="text-3xl font-bold text-gray-900">Team Members</h1>
         </div>
-        {isAdmin && <InviteMemberDialog />}
+        {isAdmin && <InviteMemberDialog organisationName={organisation?.name} onInvited={fetchInvitations} />}
       </div>
 
       {/* Organisation Information Card */}
@@ -302,89 +335,106 @@ export const TeamMembers = () => {
             </div>
           </div>
 
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b">
-                  <th className="text-left py-3 px-4 font-medium text-gray-500">Name</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-500">Email</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-500">Phone</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-500">Role</th>
-                  <th className="text-left py-3 px-4 font-medium text-gray-500">Joined</th>
-                  {isAdmin && <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>}
-                </tr>
-              </thead>
-              <tbody>
-                {filteredMembers.map((member) => (
-                  <tr key={member.id} className="border-b hover:bg-gray-50">
-                    <td className="py-3 px-4 font-medium table-entry">
-                      {member.full_name || 'No name provided'}
-                    </td>
-                    <td className="py-3 px-4 text-gray-600 table-entry">{member.email}</td>
-                    <td className="py-3 px-4 text-gray-600 table-entry">
-                      {member.phone_number || 'Not provided'}
-                    </td>
-                    <td className="py-3 px-4 table-entry">
-                      <span className={getRoleBadge(member.role)}>
-                        {member.role}
-                      </span>
-                    </td>
-                    <td className="py-3 px-4 text-gray-600 table-entry">
-                      {new Date(member.created_at).toLocaleDateString()}
-                    </td>
-                    {isAdmin && (
-                      <td className="py-3 px-4 table-entry">
-                        <div className="flex items-center space-x-2">
-                          <Select
-                            value={member.role}
-                            onValueChange={(newRole: 'admin' | 'member') => 
-                              handleRoleUpdate(member.id, newRole)
-                            }
-                          >
-                            <SelectTrigger className="w-24">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="admin">Admin</SelectItem>
-                              <SelectItem value="member">Member</SelectItem>
-                            </SelectContent>
-                          </Select>
+          <Tabs defaultValue="members">
+            {isAdmin && (
+              <TabsList className="mb-4">
+                <TabsTrigger value="members">Members ({teamMembers.length})</TabsTrigger>
+                <TabsTrigger value="invitations">Invitations ({openInvitationCount})</TabsTrigger>
+              </TabsList>
+            )}
+
+            <TabsContent value="members" className="mt-0">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Name</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Email</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Phone</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Role</th>
+                      <th className="text-left py-3 px-4 font-medium text-gray-500">Joined</th>
+                      {isAdmin && <th className="text-left py-3 px-4 font-medium text-gray-500">Actions</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredMembers.map((member) => (
+                      <tr key={member.id} className="border-b hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium table-entry">
+                          {member.full_name || 'No name provided'}
+                        </td>
+                        <td className="py-3 px-4 text-gray-600 table-entry">{member.email}</td>
+                        <td className="py-3 px-4 text-gray-600 table-entry">
+                          {member.phone_number || 'Not provided'}
+                        </td>
+                        <td className="py-3 px-4 table-entry">
+                          <span className={getRoleBadge(member.role)}>
+                            {member.role}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-gray-600 table-entry">
+                          {new Date(member.created_at).toLocaleDateString()}
+                        </td>
+                        {isAdmin && (
+                          <td className="py-3 px-4 table-entry">
+                            <div className="flex items-center space-x-2">
+                              <Select
+                                value={member.role}
+                                onValueChange={(newRole: 'admin' | 'member') => 
+                                  handleRoleUpdate(member.id, newRole)
+                                }
+                              >
+                                <SelectTrigger className="w-24">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="admin">Admin</SelectItem>
+                                  <SelectItem value="member">Member</SelectItem>
+                                </SelectContent>
+                              </Select>
                           
-                          <AlertDialog>
-                            <AlertDialogTrigger asChild>
-                              <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>Are you sure you want to delete this user?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  This action cannot be undone. This will permanently delete the user account and remove them from the organization.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => handleDeleteMember(member.id)}>
-                                  Delete
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
-                      </td>
-                    )}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="sm" className="text-red-600 hover:text-red-700">
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Are you sure you want to delete this user?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      This action cannot be undone. This will permanently delete the user account and remove them from the organization.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction onClick={() => handleDeleteMember(member.id)}>
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
 
-          {filteredMembers.length === 0 && (
-            <div className="text-center py-8 text-gray-500">
-              No team members found matching your search.
-            </div>
-          )}
+              {filteredMembers.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                  No team members found matching your search.
+                </div>
+              )}
+            </TabsContent>
+
+            {isAdmin && (
+              <TabsContent value="invitations" className="mt-0">
+                <InvitationsTable invitations={filteredInvitations} onChanged={fetchInvitations} />
+              </TabsContent>
+            )}
+          </Tabs>
         </CardContent>
       </Card>
     </div>
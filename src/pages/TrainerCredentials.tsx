@@ -0,0 +1,283 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { GraduationCap, Search, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { CredentialsMatrix } from '@/components/trainers/CredentialsMatrix';
+import { TrainerProfile } from '@/components/trainers/TrainerProfile';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTeamMembers } from '@/hooks/useTeamMembers';
+import {
+  EXPIRING_WITHIN_DAYS,
+  MatrixRow,
+  TrainerCredential,
+  TrainerUnit,
+  buildCredentialsMatrix,
+  getCredentialStatus,
+  getRowStatuses,
+} from '@/lib/trainerCredentials';
+import { ScopeLookupItem, fetchScopeLookup } from '@/lib/scope';
+
+const hasGap = (row: MatrixRow) =>
+  getRowStatuses(row).some(status => status === 'expired' || status === 'missing');
+
+const isExpiring = (row: MatrixRow) =>
+  getRowStatuses(row).includes('expiring');
+
+export const TrainerCredentials = () => {
+  const { organisationMember } = useAuth();
+  const { toast } = useToast();
+  const { teamMembers } = useTeamMembers();
+  const [units, setUnits] = useState<TrainerUnit[]>([]);
+  const [credentials, setCredentials] = useState<TrainerCredential[]>([]);
+  const [scopeItems, setScopeItems] = useState<ScopeLookupItem[]>([]);
+  const [activeTab, setActiveTab] = useState('matrix');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [matrixFilter, setMatrixFilter] = useState('all');
+  const [selectedMemberId, setSelectedMemberId] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const isAdmin = organisationMember?.role === 'admin';
+
+  const fetchCredentials = async () => {
+    if (!organisationMember?.organisation_id) return;
+
+    try {
+      const [unitsResult, credentialsResult, scope] = await Promise.all([
+        supabase
+          .from('trainer_units')
+          .select('*')
+          .eq('organisation_id', organisationMember.organisation_id),
+        supabase
+          .from('trainer_credentials')
+          .select('*')
+          .eq('organisation_id', organisationMember.organisation_id),
+        fetchScopeLookup(organisationMember.organisation_id)
+      ]);
+
+      if (unitsResult.error) throw unitsResult.error;
+      if (credentialsResult.error) throw credentialsResult.error;
+      setUnits(unitsResult.data || []);
+      setCredentials((credentialsResult.data || []) as TrainerCredential[]);
+      setScopeItems(scope);
+    } catch (error) {
+      console.error('Error fetching trainer credentials:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch trainer credentials",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCredentials();
+    setSelectedMemberId(current => current || organisationMember?.id || '');
+  }, [organisationMember]);
+
+  const getMemberName = (memberId: string) => {
+    const member = teamMembers.find(m => m.id === memberId);
+    return member ? member.full_name || member.email : 'Former member';
+  };
+
+  const matrix = useMemo(
+    () => buildCredentialsMatrix(units, credentials)
+      .sort((a, b) => getMemberName(a.memberId).localeCompare(getMemberName(b.memberId))),
+    [units, credentials, teamMembers]
+  );
+
+  const trainerIds = Array.from(new Set(matrix.map(row => row.memberId)));
+
+  const stats = [
+    {
+      label: 'Trainers',
+      value: trainerIds.length,
+      subtitle: 'With units or credentials recorded',
+      icon: GraduationCap,
+      iconColor: 'text-[#7030a0]',
+      filterType: 'all',
+    },
+    {
+      label: 'Fully Credentialed',
+      value: trainerIds.filter(id => !matrix.some(row => row.memberId === id && hasGap(row))).length,
+      subtitle: 'Current for every unit',
+      icon: CheckCircle,
+      iconColor: 'text-green-500',
+      filterType: 'complete',
+    },
+    {
+      label: 'Expiring Soon',
+      value: credentials.filter(c => getCredentialStatus(c) === 'expiring').length,
+      subtitle: `Credentials due within ${EXPIRING_WITHIN_DAYS} days`,
+      icon: Clock,
+      iconColor: 'text-yellow-500',
+      filterType: 'expiring',
+    },
+    {
+      label: 'Gaps',
+      value: matrix.filter(hasGap).length,
+      subtitle: 'Units with expired or missing credentials',
+      icon: AlertTriangle,
+      iconColor: 'text-red-500',
+      filterType: 'gaps',
+    },
+  ];
+
+  const filteredMatrix = matrix.filter(row => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      getMemberName(row.memberId).toLowerCase().includes(term) ||
+      (row.unit?.unit_code || '').toLowerCase().includes(term) ||
+      (row.unit?.unit_title || '').toLowerCase().includes(term);
+
+    const matchesFilter = matrixFilter === 'all' ||
+      (matrixFilter === 'complete' && !hasGap(row)) ||
+      (matrixFilter === 'expiring' && isExpiring(row)) ||
+      (matrixFilter === 'gaps' && hasGap(row));
+
+    return matchesSearch && matchesFilter;
+  });
+
+  const showTrainer = (memberId: string) => {
+    setSelectedMemberId(memberId);
+    setActiveTab('profiles');
+  };
+
+  // Admins can start a profile for anyone; other members see existing trainers and themselves
+  const selectableMembers = isAdmin
+    ? teamMembers
+    : teamMembers.filter(member => member.id === organisationMember?.id || trainerIds.includes(member.id));
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="text-lg">Loading trainer credentials...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex items-center mb-6">
+        <GraduationCap className="h-8 w-8 text-[#7030a0] mr-3" />
+        <h1 className="text-3xl font-bold text-gray-900">Trainer Credentials</h1>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        {stats.map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <Card
+              key={stat.filterType}
+              className="bg-white cursor-pointer hover:shadow-lg transition-shadow"
+              onClick={() => {
+                setMatrixFilter(stat.filterType);
+                setActiveTab('matrix');
+              }}
+            >
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-600">{stat.label}</div>
+                    <div className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</div>
+                    <div className="text-sm text-gray-500 mt-1">{stat.subtitle}</div>
+                  </div>
+                  <div className={`p-3 rounded-full bg-gray-100 ${stat.iconColor}`}>
+                    <Icon className="h-6 w-6" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="mb-6">
+          <TabsTrigger value="matrix">Credentials Matrix</TabsTrigger>
+          <TabsTrigger value="profiles">Trainer Profiles</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="matrix">
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex flex-col md:flex-row gap-4 mb-6">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                  <Input
+                    placeholder="Search by trainer or unit..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={matrixFilter} onValueChange={setMatrixFilter}>
+                  <SelectTrigger className="w-full md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Units</SelectItem>
+                    <SelectItem value="complete">Fully Credentialed</SelectItem>
+                    <SelectItem value="expiring">Expiring Soon</SelectItem>
+                    <SelectItem value="gaps">Expired or Missing</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <CredentialsMatrix
+                rows={filteredMatrix}
+                scopeItems={scopeItems}
+                getMemberName={getMemberName}
+                onSelectTrainer={showTrainer}
+              />
+
+              {filteredMatrix.length === 0 && (
+                <div className="text-center py-8 text-gray-500">
+                  {searchTerm || matrixFilter !== 'all'
+                    ? 'No trainers found matching your filters.'
+                    : 'No trainers yet. Add units and credentials under Trainer Profiles to build the matrix.'}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="profiles">
+          <div className="mb-6 max-w-sm">
+            <Label>Trainer</Label>
+            <Select value={selectedMemberId} onValueChange={setSelectedMemberId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a trainer" />
+              </SelectTrigger>
+              <SelectContent>
+                {selectableMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.full_name || member.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedMemberId && (
+            <TrainerProfile
+              memberId={selectedMemberId}
+              memberName={getMemberName(selectedMemberId)}
+              units={units.filter(unit => unit.member_id === selectedMemberId)}
+              credentials={credentials.filter(credential => credential.member_id === selectedMemberId)}
+              scopeItems={scopeItems}
+              canEdit={isAdmin || selectedMemberId === organisationMember?.id}
+              onChange={fetchCredentials}
+            />
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+// Scheduled functions are called by pg_cron with the secret stored in Vault as
+// 'cron_secret' (see the compliance_snapshots migration). The same value is set
+// as CRON_SECRET in the functions' environment. Anything else is turned away,
+// including requests carrying the public anon key.
+export const isCronRequest = (req: Request) => {
+  const secret = Deno.env.get("CRON_SECRET");
+  if (!secret) {
+    console.error("CRON_SECRET is not set; refusing scheduled call");
+    return false;
+  }
+
+  const authorization = req.headers.get("Authorization") || "";
+  const expected = `Bearer ${secret}`;
+  if (authorization.length !== expected.length) return false;
+
+  // Compare in constant time so the secret can't be guessed a character at a time
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= authorization.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+export const unauthorisedResponse = (headers: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Unauthorised" }),
+    {
+      status: 401,
+      headers: { "Content-Type": "application/json", ...headers },
+    }
+  );
@@ -0,0 +1,109 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailAdapter {
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+const getFromAddress = () =>
+  Deno.env.get("EMAIL_FROM") || Deno.env.get("SMTP_FROM") || "ComplyHub <no-reply@complyhub.local>";
+
+// SMTP settings come from the function's environment. Locally these point at the
+// Inbucket mail catcher started by `supabase start` (see supabase/functions/.env.example).
+const createSmtpAdapter = (): EmailAdapter | null => {
+  const hostname = Deno.env.get("SMTP_HOST");
+  if (!hostname) return null;
+
+  const username = Deno.env.get("SMTP_USER");
+  const password = Deno.env.get("SMTP_PASS");
+  const secure = Deno.env.get("SMTP_SECURE") !== "false";
+
+  const connection = {
+    hostname,
+    port: Number(Deno.env.get("SMTP_PORT") || (secure ? 465 : 587)),
+    tls: secure,
+    auth: username && password ? { username, password } : undefined,
+  };
+  const debug = secure ? undefined : { allowUnsecure: true, noStartTLS: true };
+
+  return {
+    send: async (message) => {
+      const client = new SMTPClient({ connection, debug });
+      try {
+        await client.send({
+          from: getFromAddress(),
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+};
+
+const createResendAdapter = (): EmailAdapter | null => {
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  if (!apiKey) return null;
+
+  return {
+    send: async (message) => {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: getFromAddress(),
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend rejected the email: ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+};
+
+// EMAIL_PROVIDER picks the adapter explicitly; otherwise whichever one is configured is used
+const getEmailAdapter = (): EmailAdapter | null => {
+  switch (Deno.env.get("EMAIL_PROVIDER")) {
+    case "smtp":
+      return createSmtpAdapter();
+    case "resend":
+      return createResendAdapter();
+    default:
+      return createResendAdapter() || createSmtpAdapter();
+  }
+};
+
+export const isEmailConfigured = () => getEmailAdapter() !== null;
+
+export const sendEmail = async (message: EmailMessage) => {
+  const adapter = getEmailAdapter();
+  if (!adapter) {
+    throw new Error("Email is not configured: set SMTP_HOST or RESEND_API_KEY");
+  }
+  await adapter.send(message);
+};
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
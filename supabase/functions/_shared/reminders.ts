@@ -0,0 +1,102 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+
+// Helpers shared by the scheduled reminder functions (review-reminders,
+// complaint-reminders). Each keeps a *_reminders_sent table with one row per
+// reminder so that re-runs never double-send, and an emailed flag so that a
+// failed email is tried again on the next run.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const ID_CHUNK_SIZE = 200;
+
+// Links in emails always point at the configured app. The request's Origin is
+// never used: anyone can call the function and would choose where links go.
+export const getAppUrl = () => {
+  const appUrl = Deno.env.get("APP_URL");
+  if (!appUrl) {
+    throw new Error("APP_URL is not set; it's needed for links in reminder emails");
+  }
+  return appUrl.replace(/\/+$/, "");
+};
+
+// Dates are compared in Sydney time, matching the date shown in the app.
+// fakeNowVariable names an env var that can fake today's date for local testing.
+export const getToday = (fakeNowVariable: string) => {
+  const fakeNow = Deno.env.get(fakeNowVariable);
+  const now = fakeNow ? new Date(fakeNow) : new Date();
+  if (isNaN(now.getTime())) {
+    throw new Error(`Invalid ${fakeNowVariable}: ${fakeNow}`);
+  }
+  return now.toLocaleDateString("en-CA", { timeZone: "Australia/Sydney" });
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / MS_PER_DAY);
+
+// The most urgent reminder a deadline has reached, as days before it, or null
+// when it's further off than any of them. Reminders fire once the deadline is
+// at or under a threshold rather than exactly on it, so a missed run or a
+// record created late still gets reminded; only the latest threshold is sent.
+export const getReminderThreshold = (daysUntil: number, thresholds: number[]) => {
+  const reached = thresholds.filter((days) => daysUntil <= days);
+  return reached.length > 0 ? Math.min(...reached) : null;
+};
+
+export const describeDue = (daysUntil: number) => {
+  if (daysUntil < 0) return `is ${-daysUntil} ${daysUntil === -1 ? "day" : "days"} overdue`;
+  if (daysUntil === 0) return "is due today";
+  if (daysUntil === 1) return "is due tomorrow";
+  return `is due in ${daysUntil} days`;
+};
+
+// Reads the reminders already recorded for the given ids, in chunks small
+// enough to fit in the request URL
+export const fetchSentReminders = async <T>(
+  supabase: SupabaseClient,
+  table: string,
+  idColumn: string,
+  ids: string[],
+  columns: string
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .in(idColumn, ids.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to fetch sent reminders: ${error.message}`);
+    }
+    rows.push(...((data || []) as T[]));
+  }
+  return rows;
+};
+
+// Records a new reminder before its notification goes out, so overlapping runs
+// can't both send it. Returns false when another run got there first.
+export const claimReminder = async (
+  supabase: SupabaseClient,
+  table: string,
+  row: Record<string, unknown>
+) => {
+  const { error } = await supabase.from(table).insert(row);
+  if (!error) return true;
+  if (error.code === "23505") return false;
+  throw new Error(`Failed to record reminder: ${error.message}`);
+};
+
+// Flags a reminder's email as delivered; until then each run tries it again
+export const markReminderEmailed = async (
+  supabase: SupabaseClient,
+  table: string,
+  key: Record<string, string | number>
+) => {
+  let query = supabase.from(table).update({ emailed: true });
+  for (const [column, value] of Object.entries(key)) {
+    query = query.eq(column, value);
+  }
+  const { error } = await query;
+  if (error) {
+    console.error(`Failed to record emailed reminder in ${table}:`, error);
+  }
+};
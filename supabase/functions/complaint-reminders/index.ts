@@ -0,0 +1,271 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { escapeHtml, isEmailConfigured, sendEmail } from "../_shared/email.ts";
+import { isCronRequest, unauthorisedResponse } from "../_shared/cron.ts";
+import {
+  claimReminder,
+  daysBetween,
+  describeDue,
+  fetchSentReminders,
+  getAppUrl,
+  getReminderThreshold,
+  getToday,
+  markReminderEmailed,
+} from "../_shared/reminders.ts";
+
+// Reminds whoever is handling a complaint or appeal, in-app and by email, as its
+// acknowledgement and resolution deadlines approach. Complaints with no handler
+// go to the organisation's admins, each of whom gets their own reminder.
+//
+// Local testing: set COMPLAINT_REMINDERS_NOW (e.g. 2026-11-01) to fake today's date;
+// see supabase/functions/.env.example.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE_SIZE = 1000;
+const SENT_TABLE = "complaint_reminders_sent";
+
+type Deadline = "acknowledge" | "resolve";
+
+// Acknowledgement windows are only a few days long, so those reminders start late
+const REMINDER_DAYS: Record<Deadline, number[]> = {
+  acknowledge: [1, 0],
+  resolve: [14, 7, 0],
+};
+
+const DEADLINE_LABELS: Record<Deadline, string> = {
+  acknowledge: "Acknowledgement",
+  resolve: "Resolution",
+};
+
+interface Complaint {
+  id: string;
+  organisation_id: string;
+  kind: string;
+  summary: string;
+  acknowledge_by: string;
+  acknowledged_on: string | null;
+  resolve_by: string;
+  resolved_on: string | null;
+  handler_id: string | null;
+  status: string;
+}
+
+interface SentReminder {
+  complaint_id: string;
+  deadline: Deadline;
+  deadline_date: string;
+  days_before: number;
+  member_id: string;
+  emailed: boolean;
+}
+
+interface Member {
+  id: string;
+  organisation_id: string;
+  full_name: string | null;
+  email: string;
+  role: string;
+}
+
+const getDeadlineDate = (complaint: Complaint, deadline: Deadline) =>
+  deadline === "acknowledge" ? complaint.acknowledge_by : complaint.resolve_by;
+
+// A deadline stops mattering once it's been met or the complaint is closed off
+const isPending = (complaint: Complaint, deadline: Deadline) => {
+  if (complaint.status === "resolved" || complaint.status === "withdrawn") return false;
+  return deadline === "acknowledge" ? !complaint.acknowledged_on : !complaint.resolved_on;
+};
+
+const sentKey = (complaintId: string, deadline: Deadline, deadlineDate: string, daysBefore: number, memberId: string) =>
+  `${complaintId}|${deadline}|${deadlineDate}|${daysBefore}|${memberId}`;
+
+const buildReminderEmail = (
+  complaint: Complaint,
+  member: Member,
+  deadline: Deadline,
+  daysUntil: number,
+  appUrl: string
+) => {
+  const link = `${appUrl}/complaints?complaint=${complaint.id}`;
+  const what = `${DEADLINE_LABELS[deadline]} of the ${complaint.kind}`;
+  const subject = `${what} ${describeDue(daysUntil)}: ${complaint.summary}`;
+  const text = [
+    `Hi ${member.full_name || member.email},`,
+    "",
+    `${what} "${complaint.summary}" ${describeDue(daysUntil)} (due ${getDeadlineDate(complaint, deadline)}).`,
+    "",
+    `Open the register: ${link}`,
+  ].join("\n");
+  const html = `
+    <p>Hi ${escapeHtml(member.full_name || member.email)},</p>
+    <p>${what} <strong>${escapeHtml(complaint.summary)}</strong> ${describeDue(daysUntil)} (due ${getDeadlineDate(complaint, deadline)}).</p>
+    <p><a href="${escapeHtml(link)}">Open the complaints register in ComplyHub</a></p>
+  `;
+  return { subject, text, html };
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return unauthorisedResponse(corsHeaders);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const appUrl = getAppUrl();
+
+    const today = getToday("COMPLAINT_REMINDERS_NOW");
+
+    const complaints: Complaint[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("complaints")
+        .select("id, organisation_id, kind, summary, acknowledge_by, acknowledged_on, resolve_by, resolved_on, handler_id, status")
+        .is("resolved_on", null)
+        .in("status", ["open", "investigating"])
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch complaints: ${error.message}`);
+      }
+
+      complaints.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    // Reminders for deadlines that have reached one of their thresholds
+    const due = complaints.flatMap((complaint) =>
+      (Object.keys(REMINDER_DAYS) as Deadline[])
+        .filter((deadline) => isPending(complaint, deadline))
+        .flatMap((deadline) => {
+          const daysUntil = daysBetween(today, getDeadlineDate(complaint, deadline));
+          const daysBefore = getReminderThreshold(daysUntil, REMINDER_DAYS[deadline]);
+          return daysBefore === null ? [] : [{ complaint, deadline, daysUntil, daysBefore }];
+        })
+    );
+
+    let remindersSent = 0;
+    let emailsSent = 0;
+    const emailEnabled = isEmailConfigured();
+
+    if (due.length > 0) {
+      const sent = await fetchSentReminders<SentReminder>(
+        supabase,
+        SENT_TABLE,
+        "complaint_id",
+        [...new Set(due.map(({ complaint }) => complaint.id))],
+        "complaint_id, deadline, deadline_date, days_before, member_id, emailed"
+      );
+      const sentReminders = new Map(sent.map((r) => [sentKey(r.complaint_id, r.deadline, r.deadline_date, r.days_before, r.member_id), r]));
+
+      const { data: members, error: membersError } = await supabase
+        .from("organisation_members")
+        .select("id, organisation_id, full_name, email, role")
+        .in("organisation_id", [...new Set(due.map(({ complaint }) => complaint.organisation_id))]);
+
+      if (membersError) {
+        throw new Error(`Failed to fetch organisation members: ${membersError.message}`);
+      }
+
+      for (const { complaint, deadline, daysUntil, daysBefore } of due) {
+        const deadlineDate = getDeadlineDate(complaint, deadline);
+        const handlerMember = (members || []).find((m: Member) =>
+          m.id === complaint.handler_id && m.organisation_id === complaint.organisation_id
+        );
+        const recipients: Member[] = handlerMember
+          ? [handlerMember]
+          : (members || []).filter((m: Member) => m.organisation_id === complaint.organisation_id && m.role === "admin");
+
+        if (recipients.length === 0) {
+          console.warn(`No handler or admin to remind about complaint ${complaint.id}`);
+          continue;
+        }
+
+        for (const member of recipients) {
+          const key = {
+            complaint_id: complaint.id,
+            deadline,
+            deadline_date: deadlineDate,
+            days_before: daysBefore,
+            member_id: member.id,
+          };
+          const existing = sentReminders.get(sentKey(complaint.id, deadline, deadlineDate, daysBefore, member.id));
+
+          // Sent already; only an email that never went out is worth another go
+          if (existing && (existing.emailed || !emailEnabled)) continue;
+
+          if (!existing) {
+            const claimed = await claimReminder(supabase, SENT_TABLE, key);
+            if (!claimed) continue;
+
+            const { error: notifyError } = await supabase
+              .from("notifications")
+              .insert({
+                organisation_id: complaint.organisation_id,
+                user_id: member.id,
+                created_by: member.id,
+                type: "complaint_reminder",
+                action: `${deadline}_due_in_${daysBefore}_days`,
+                title: `${DEADLINE_LABELS[deadline]} ${describeDue(daysUntil)}`,
+                message: `The ${complaint.kind} "${complaint.summary}" must be ${deadline === "acknowledge" ? "acknowledged" : "resolved"} by ${deadlineDate}`,
+                record_id: complaint.id,
+              });
+
+            if (notifyError) {
+              console.error(`Failed to create reminder notification for complaint ${complaint.id}:`, notifyError);
+            } else {
+              remindersSent++;
+            }
+          }
+
+          if (emailEnabled) {
+            try {
+              await sendEmail({ to: member.email, ...buildReminderEmail(complaint, member, deadline, daysUntil, appUrl) });
+              await markReminderEmailed(supabase, SENT_TABLE, key);
+              emailsSent++;
+            } catch (emailError) {
+              console.error(`Failed to email reminder for complaint ${complaint.id}:`, emailError);
+            }
+          }
+        }
+      }
+    }
+
+    console.log(`Complaint reminders for ${today}: ${remindersSent} reminders, ${emailsSent} emails`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        today,
+        remindersSent,
+        emailsSent,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error in complaint-reminders function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to process complaint reminders" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { isCronRequest, unauthorisedResponse } from "../_shared/cron.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE_SIZE = 1000;
+
+interface SnapshotRecord {
+  organisation_id: string;
+  compliance_status: string;
+  compliance_record_standards: {
+    standards: { id: string; deleted_at: string | null } | null;
+  }[];
+}
+
+interface StatusCounts {
+  total: number;
+  "Compliant": number;
+  "At Risk": number;
+  "Non-Compliant": number;
+}
+
+const emptyCounts = (): StatusCounts => ({
+  total: 0,
+  "Compliant": 0,
+  "At Risk": 0,
+  "Non-Compliant": 0,
+});
+
+const addToCounts = (counts: StatusCounts, status: string) => {
+  counts.total += 1;
+  if (status in counts && status !== "total") {
+    counts[status as keyof Omit<StatusCounts, "total">] += 1;
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return unauthorisedResponse(corsHeaders);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Snapshots are dated in Sydney time, matching the date shown in the app
+    const snapshotDate = new Date().toLocaleDateString("en-CA", { timeZone: "Australia/Sydney" });
+
+    const { data: organisations, error: orgError } = await supabase
+      .from("organisations")
+      .select("id");
+
+    if (orgError) {
+      throw new Error(`Failed to fetch organisations: ${orgError.message}`);
+    }
+
+    // Page through every record so large organisations aren't truncated at the API row limit
+    const records: SnapshotRecord[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("compliance_records")
+        .select("organisation_id, compliance_status, compliance_record_standards(standards(id, deleted_at))")
+        .not("organisation_id", "is", null)
+        .is("deleted_at", null)
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch compliance records: ${error.message}`);
+      }
+
+      records.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const snapshots = (organisations || []).map((organisation) => {
+      const orgRecords = records.filter((r) => r.organisation_id === organisation.id);
+      const totals = emptyCounts();
+      const clauseCounts: Record<string, StatusCounts> = {};
+
+      // A record covering several clauses counts towards each of them. Counts are
+      // keyed by standard id, as clause numbers repeat across frameworks. The
+      // service role sees binned standards too, so those are skipped here.
+      orgRecords.forEach((record) => {
+        addToCounts(totals, record.compliance_status);
+        record.compliance_record_standards.forEach(({ standards }) => {
+          if (!standards || standards.deleted_at) return;
+          clauseCounts[standards.id] = clauseCounts[standards.id] || emptyCounts();
+          addToCounts(clauseCounts[standards.id], record.compliance_status);
+        });
+      });
+
+      // Same calculation as the "Overall Compliance" card on the Compliance Records page
+      const overallCompliance = totals.total > 0
+        ? Math.round((totals["Compliant"] / totals.total) * 10000) / 100
+        : 0;
+
+      return {
+        organisation_id: organisation.id,
+        snapshot_date: snapshotDate,
+        total_records: totals.total,
+        compliant_count: totals["Compliant"],
+        at_risk_count: totals["At Risk"],
+        non_compliant_count: totals["Non-Compliant"],
+        overall_compliance: overallCompliance,
+        clause_counts: clauseCounts,
+      };
+    });
+
+    if (snapshots.length > 0) {
+      const { error: upsertError } = await supabase
+        .from("compliance_snapshots")
+        .upsert(snapshots, { onConflict: "organisation_id,snapshot_date" });
+
+      if (upsertError) {
+        throw new Error(`Failed to save snapshots: ${upsertError.message}`);
+      }
+    }
+
+    console.log(`Saved ${snapshots.length} compliance snapshots for ${snapshotDate}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        snapshotDate,
+        organisations: snapshots.length,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error in compliance-snapshot function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to take compliance snapshots" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
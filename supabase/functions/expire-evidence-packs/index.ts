@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { isCronRequest, unauthorisedResponse } from "../_shared/cron.ts";
+
+// Removes the zips of evidence packs past their expires_at and marks the packs
+// expired. Packs hold copies of evidence files, so they aren't kept for good.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PACK_BUCKET = "evidence-packs";
+const PAGE_SIZE = 1000;
+const CHUNK_SIZE = 100; // keeps the id lists within URL length limits
+
+interface ExpiredPack {
+  id: string;
+  file_path: string | null;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return unauthorisedResponse(corsHeaders);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date().toISOString();
+
+    const packs: ExpiredPack[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("evidence_packs")
+        .select("id, file_path")
+        .eq("status", "completed")
+        .lt("expires_at", now)
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch expired evidence packs: ${error.message}`);
+      }
+
+      packs.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    // Zips go first, so a storage failure leaves the packs to be retried on the next run
+    let packsExpired = 0;
+    for (let i = 0; i < packs.length; i += CHUNK_SIZE) {
+      const chunk = packs.slice(i, i + CHUNK_SIZE);
+
+      const paths = chunk.map((pack) => pack.file_path).filter((path): path is string => !!path);
+      if (paths.length > 0) {
+        const { error: removeError } = await supabase.storage.from(PACK_BUCKET).remove(paths);
+        if (removeError) {
+          console.error("Failed to remove evidence pack objects; leaving packs for the next run:", removeError);
+          continue;
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from("evidence_packs")
+        .update({ status: "expired", file_path: null })
+        .in("id", chunk.map((pack) => pack.id));
+
+      if (updateError) {
+        throw new Error(`Failed to mark evidence packs expired: ${updateError.message}`);
+      }
+      packsExpired += chunk.length;
+    }
+
+    console.log(`Evidence pack expiry at ${now}: ${packsExpired} packs expired`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        packsExpired,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error in expire-evidence-packs function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to expire evidence packs" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,371 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import {
+  buildIndexPdf,
+  buildRecordSummaryPdf,
+  IndexEntry,
+  PackEvidenceFile,
+  PackOrganisation,
+  PackRecord,
+} from "./pdf.ts";
+
+// Builds an audit evidence pack: a zip with a folder per chosen standard clause,
+// each holding a PDF summary and the evidence files of every record linked to
+// that clause, plus an index PDF mapping clause -> record -> file. The request
+// returns as soon as the pack is queued; the zip is built in the background and
+// the requester is notified when it's ready to download.
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EVIDENCE_BUCKET = "compliance-evidence";
+const PACK_BUCKET = "evidence-packs";
+const CHUNK_SIZE = 100; // keeps the id lists within URL length limits
+// Every evidence file stays in memory until the zip is generated, and the zip
+// then sits alongside them, so a pack needs about twice this much memory. Much
+// more and the worker is stopped rather than failing cleanly.
+const MAX_PACK_BYTES = 50 * 1024 * 1024;
+
+// How long a finished zip can be downloaded before expire-evidence-packs removes it
+const PACK_RETENTION_DAYS = 30;
+
+const toMegabytes = (bytes: number) => Math.ceil(bytes / (1024 * 1024));
+
+const tooLargeError = (bytes: number) =>
+  new Error(`The evidence for these clauses comes to ${toMegabytes(bytes)} MB, over the ${toMegabytes(MAX_PACK_BYTES)} MB a pack can hold. Choose fewer clauses.`);
+
+interface PackRequest {
+  standardIds?: string[];
+}
+
+interface PackStandard {
+  id: string;
+  standard_clause: string;
+  standard_description: string;
+}
+
+interface RecordRow extends Omit<PackRecord, "clauses"> {
+  compliance_record_standards: {
+    standards: { standard_clause: string; deleted_at: string | null } | null;
+  }[];
+}
+
+const compareClauses = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+
+// Zip entry names can't contain path separators, and Windows rejects a few more
+const toFolderName = (value: string) =>
+  value.replace(/[\\/:*?"<>|\r\n]+/g, "-").replace(/\s+/g, " ").trim().slice(0, 80) || "Untitled";
+
+// Adds " (2)", " (3)" and so on when a name is already taken in a folder
+const claimName = (taken: Set<string>, name: string) => {
+  let candidate = name;
+  const dot = name.lastIndexOf(".");
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const fetchInChunks = async <T>(ids: string[], query: (chunk: string[]) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>) => {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+    const { data, error } = await query(ids.slice(i, i + CHUNK_SIZE));
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+  }
+  return rows;
+};
+
+const buildPack = async (
+  supabase: SupabaseClient,
+  packId: string,
+  organisationId: string,
+  standards: PackStandard[]
+) => {
+  const generatedAt = new Date();
+
+  const { data: organisation, error: orgError } = await supabase
+    .from("organisations")
+    .select("name, rto_id, branding_color")
+    .eq("id", organisationId)
+    .single();
+
+  if (orgError || !organisation) {
+    throw new Error("Organisation not found");
+  }
+
+  const links = await fetchInChunks<{ record_id: string; standard_id: string }>(
+    standards.map((standard) => standard.id),
+    (chunk) => supabase.from("compliance_record_standards").select("record_id, standard_id").in("standard_id", chunk)
+  );
+
+  // The service role sees the recycle bin too, so binned records are left out here
+  const recordRows = await fetchInChunks<RecordRow>(
+    Array.from(new Set(links.map((link) => link.record_id))),
+    (chunk) => supabase
+      .from("compliance_records")
+      .select("id, compliance_item, compliance_status, responsible_person, next_review_date, review_status, notes, created_at, evidence_files(id, file_name, file_path, mime_type, size_bytes, checksum, uploaded_at), compliance_record_standards(standards(standard_clause, deleted_at))")
+      .in("id", chunk)
+      .eq("organisation_id", organisationId)
+      .is("deleted_at", null)
+  );
+
+  const records = new Map<string, PackRecord>(recordRows.map((row) => [row.id, {
+    ...row,
+    clauses: row.compliance_record_standards
+      .map(({ standards }) => standards && !standards.deleted_at ? standards.standard_clause : null)
+      .filter((clause): clause is string => !!clause)
+      .sort(compareClauses),
+    evidence_files: [...row.evidence_files].sort((a, b) => a.file_name.localeCompare(b.file_name)),
+  }]));
+
+  // Checked before anything is downloaded; files without a recorded size are
+  // counted as they arrive instead
+  const expectedBytes = Array.from(
+    new Map([...records.values()].flatMap((record) => record.evidence_files).map((file) => [file.id, file.size_bytes || 0])).values()
+  ).reduce((total, size) => total + size, 0);
+
+  if (expectedBytes > MAX_PACK_BYTES) {
+    throw tooLargeError(expectedBytes);
+  }
+
+  const zip = new JSZip();
+  const rootNames = new Set<string>(["index.pdf"]);
+  const index: IndexEntry[] = [];
+  // A record linked to several chosen clauses appears under each; files are fetched once
+  const fileContents = new Map<string, Uint8Array | null>();
+  let fileCount = 0;
+  let downloadedBytes = 0;
+
+  const getFileContents = async (file: PackEvidenceFile) => {
+    if (!fileContents.has(file.id)) {
+      const { data, error } = await supabase.storage.from(EVIDENCE_BUCKET).download(file.file_path);
+      if (error || !data) {
+        console.error(`Failed to download evidence file ${file.id} for pack ${packId}:`, error);
+        fileContents.set(file.id, null);
+      } else {
+        const contents = new Uint8Array(await data.arrayBuffer());
+        downloadedBytes += contents.byteLength;
+        if (downloadedBytes > MAX_PACK_BYTES) {
+          throw tooLargeError(downloadedBytes);
+        }
+        fileContents.set(file.id, contents);
+      }
+    }
+    return fileContents.get(file.id) || null;
+  };
+
+  for (const standard of [...standards].sort((a, b) => compareClauses(a.standard_clause, b.standard_clause))) {
+    const clauseFolder = claimName(rootNames, toFolderName(`${standard.standard_clause} ${standard.standard_description}`));
+    const clauseRecords = links
+      .filter((link) => link.standard_id === standard.id)
+      .map((link) => records.get(link.record_id))
+      .filter((record): record is PackRecord => !!record)
+      .sort((a, b) => a.compliance_item.localeCompare(b.compliance_item));
+
+    zip.folder(clauseFolder);
+    if (clauseRecords.length === 0) {
+      index.push({ clause: standard.standard_clause, description: standard.standard_description, record: null, status: null, file: null, path: null });
+      continue;
+    }
+
+    const recordNames = new Set<string>();
+    for (const record of clauseRecords) {
+      const recordFolder = `${clauseFolder}/${claimName(recordNames, toFolderName(record.compliance_item))}`;
+      const fileNames = new Set<string>(["record summary.pdf"]);
+      const base = { clause: standard.standard_clause, description: standard.standard_description, record: record.compliance_item, status: record.compliance_status };
+
+      zip.file(`${recordFolder}/Record Summary.pdf`, buildRecordSummaryPdf(organisation as PackOrganisation, record, generatedAt));
+      index.push({ ...base, file: "Record Summary.pdf", path: `${recordFolder}/Record Summary.pdf` });
+
+      for (const file of record.evidence_files) {
+        const contents = await getFileContents(file);
+        if (!contents) {
+          index.push({ ...base, file: `${file.file_name} (could not be retrieved)`, path: null });
+          continue;
+        }
+        const path = `${recordFolder}/${claimName(fileNames, toFolderName(file.file_name))}`;
+        zip.file(path, contents);
+        index.push({ ...base, file: file.file_name, path });
+        fileCount++;
+      }
+    }
+  }
+
+  zip.file("Index.pdf", buildIndexPdf(organisation as PackOrganisation, index, generatedAt));
+
+  const content = await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+  const filePath = `${organisationId}/${packId}.zip`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(PACK_BUCKET)
+    .upload(filePath, content, { contentType: "application/zip", upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Failed to store evidence pack: ${uploadError.message}`);
+  }
+
+  return { filePath, sizeBytes: content.byteLength, recordCount: records.size, fileCount };
+};
+
+const runPack = async (
+  supabase: SupabaseClient,
+  packId: string,
+  organisationId: string,
+  requestedBy: string,
+  standards: PackStandard[]
+) => {
+  let succeeded = false;
+  let message: string;
+  try {
+    const { error: startError } = await supabase
+      .from("evidence_packs")
+      .update({ status: "processing" })
+      .eq("id", packId);
+
+    if (startError) throw new Error(`Failed to update evidence pack: ${startError.message}`);
+
+    const result = await buildPack(supabase, packId, organisationId, standards);
+    const completedAt = new Date();
+    const { error } = await supabase
+      .from("evidence_packs")
+      .update({
+        status: "completed",
+        file_path: result.filePath,
+        size_bytes: result.sizeBytes,
+        record_count: result.recordCount,
+        file_count: result.fileCount,
+        completed_at: completedAt.toISOString(),
+        expires_at: new Date(completedAt.getTime() + PACK_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .eq("id", packId);
+
+    if (error) throw new Error(`Failed to update evidence pack: ${error.message}`);
+
+    succeeded = true;
+    message = `Your evidence pack for ${standards.length} clause${standards.length === 1 ? "" : "s"} is ready to download`;
+    console.log(`Evidence pack ${packId}: ${result.recordCount} records, ${result.fileCount} files, ${result.sizeBytes} bytes`);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Failed to build evidence pack";
+    console.error(`Evidence pack ${packId} failed:`, error);
+    await supabase
+      .from("evidence_packs")
+      .update({ status: "failed", error: reason, completed_at: new Date().toISOString() })
+      .eq("id", packId);
+    message = `Your evidence pack could not be built: ${reason}`;
+  }
+
+  const { error: notifyError } = await supabase
+    .from("notifications")
+    .insert({
+      organisation_id: organisationId,
+      user_id: requestedBy,
+      created_by: requestedBy,
+      type: "evidence_pack",
+      action: succeeded ? "completed" : "failed",
+      title: succeeded ? "Evidence pack ready" : "Evidence pack failed",
+      message,
+    });
+
+  if (notifyError) {
+    console.error(`Failed to create notification for evidence pack ${packId}:`, notifyError);
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { standardIds = [] }: PackRequest = await req.json();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get("authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header");
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { data: member, error: memberError } = await supabase
+      .from("organisation_members")
+      .select("id, organisation_id")
+      .eq("id", userData.user.id)
+      .single();
+
+    if (memberError || !member) {
+      throw new Error("Organisation member not found");
+    }
+
+    if (standardIds.length === 0) {
+      throw new Error("Choose at least one standard clause");
+    }
+
+    const standards = await fetchInChunks<PackStandard>(
+      Array.from(new Set(standardIds)),
+      (chunk) => supabase
+        .from("standards")
+        .select("id, standard_clause, standard_description")
+        .in("id", chunk)
+        .eq("organisation_id", member.organisation_id)
+        .is("deleted_at", null)
+    );
+
+    if (standards.length !== new Set(standardIds).size) {
+      throw new Error("Some of the chosen clauses no longer exist");
+    }
+
+    const { data: pack, error: packError } = await supabase
+      .from("evidence_packs")
+      .insert({
+        organisation_id: member.organisation_id,
+        requested_by: member.id,
+        standard_ids: standards.map((standard) => standard.id),
+      })
+      .select("id")
+      .single();
+
+    if (packError || !pack) {
+      throw new Error(`Failed to queue evidence pack: ${packError?.message}`);
+    }
+
+    EdgeRuntime.waitUntil(runPack(supabase, pack.id, member.organisation_id, member.id, standards));
+
+    return new Response(
+      JSON.stringify({ success: true, packId: pack.id }),
+      {
+        status: 202,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error in generate-evidence-pack function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to generate evidence pack" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
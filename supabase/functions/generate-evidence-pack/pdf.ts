@@ -0,0 +1,162 @@
+import { jsPDF } from "https://esm.sh/jspdf@4.2.1";
+import autoTable from "https://esm.sh/jspdf-autotable@5.0.8?deps=jspdf@4.2.1";
+
+const DEFAULT_BRANDING_COLOR = "#7030a0";
+
+export interface PackOrganisation {
+  name: string;
+  rto_id: string | null;
+  branding_color: string | null;
+}
+
+export interface PackEvidenceFile {
+  id: string;
+  file_name: string;
+  file_path: string;
+  mime_type: string | null;
+  size_bytes: number | null;
+  checksum: string | null;
+  uploaded_at: string;
+}
+
+export interface PackRecord {
+  id: string;
+  compliance_item: string;
+  compliance_status: string;
+  responsible_person: string;
+  next_review_date: string | null;
+  review_status: string | null;
+  notes: string | null;
+  created_at: string;
+  clauses: string[];
+  evidence_files: PackEvidenceFile[];
+}
+
+// One line of the index: where a record's file sits in the zip for a clause
+export interface IndexEntry {
+  clause: string;
+  description: string;
+  record: string | null;
+  status: string | null;
+  file: string | null;
+  path: string | null;
+}
+
+const toRgb = (color: string | null): [number, number, number] => {
+  const hex = color && /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_BRANDING_COLOR;
+  return [parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16)];
+};
+
+const formatDate = (value: string | null) => {
+  if (!value) return "Not set";
+  const [year, month, day] = value.slice(0, 10).split("-");
+  return `${day}/${month}/${year}`;
+};
+
+const formatSize = (bytes: number | null) => {
+  if (bytes === null) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Branded heading shared by every PDF in the pack. Returns where content can start.
+const drawHeader = (doc: jsPDF, organisation: PackOrganisation, title: string, generatedAt: Date) => {
+  const brandingRgb = toRgb(organisation.branding_color);
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFillColor(...brandingRgb);
+  doc.rect(0, 0, pageWidth, 6, "F");
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.setTextColor(...brandingRgb);
+  doc.text(organisation.name, 14, 18);
+
+  doc.setFontSize(12);
+  doc.setTextColor(17, 24, 39);
+  doc.text(doc.splitTextToSize(title, pageWidth - 28), 14, 26);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(107, 114, 128);
+  const details = [
+    organisation.rto_id ? `RTO ID: ${organisation.rto_id}` : null,
+    `Generated ${generatedAt.toLocaleDateString("en-AU", { timeZone: "Australia/Sydney" })}`,
+  ].filter(Boolean).join(" · ");
+  doc.text(details, 14, 38);
+
+  return 44;
+};
+
+export const buildRecordSummaryPdf = (
+  organisation: PackOrganisation,
+  record: PackRecord,
+  generatedAt: Date
+) => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const startY = drawHeader(doc, organisation, record.compliance_item, generatedAt);
+
+  autoTable(doc, {
+    startY,
+    theme: "plain",
+    styles: { fontSize: 10, cellPadding: 2 },
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 50 } },
+    body: [
+      ["Standard Clauses", record.clauses.join(", ") || "None"],
+      ["Compliance Status", record.compliance_status],
+      ["Responsible Person", record.responsible_person],
+      ["Next Review Date", formatDate(record.next_review_date)],
+      ["Review Status", record.review_status || "Not set"],
+      ["Created", formatDate(record.created_at)],
+      ["Notes", record.notes || ""],
+    ],
+  });
+
+  autoTable(doc, {
+    startY: (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8,
+    head: [["Evidence File", "Size", "Uploaded", "SHA-256"]],
+    body: record.evidence_files.length > 0
+      ? record.evidence_files.map((file) => [
+        file.file_name,
+        formatSize(file.size_bytes),
+        formatDate(file.uploaded_at),
+        file.checksum || "",
+      ])
+      : [["No evidence files", "", "", ""]],
+    styles: { fontSize: 8, cellPadding: 2, overflow: "linebreak" },
+    headStyles: { fillColor: toRgb(organisation.branding_color), textColor: 255 },
+    columnStyles: { 3: { cellWidth: 60, fontSize: 6 } },
+  });
+
+  return new Uint8Array(doc.output("arraybuffer"));
+};
+
+export const buildIndexPdf = (
+  organisation: PackOrganisation,
+  entries: IndexEntry[],
+  generatedAt: Date
+) => {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const startY = drawHeader(doc, organisation, "Audit Evidence Pack - Index", generatedAt);
+
+  autoTable(doc, {
+    startY,
+    head: [["Clause", "Compliance Record", "Status", "Evidence File", "Location in Pack"]],
+    body: entries.map((entry) => [
+      `${entry.clause}\n${entry.description}`,
+      entry.record || "No compliance records",
+      entry.status || "",
+      entry.file || (entry.record ? "No evidence files" : ""),
+      entry.path || "",
+    ]),
+    styles: { fontSize: 8, cellPadding: 2, overflow: "linebreak", valign: "top" },
+    headStyles: { fillColor: toRgb(organisation.branding_color), textColor: 255 },
+    columnStyles: {
+      0: { cellWidth: 60 },
+      4: { cellWidth: 80 },
+    },
+  });
+
+  return new Uint8Array(doc.output("arraybuffer"));
+};
@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { isCronRequest, unauthorisedResponse } from "../_shared/cron.ts";
+
+// Permanently removes compliance records and standards that have been in the
+// recycle bin longer than recycle_bin_retention_days(), together with the
+// storage objects behind their evidence files.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EVIDENCE_BUCKET = "compliance-evidence";
+const PAGE_SIZE = 1000;
+const CHUNK_SIZE = 100; // keeps the id lists within URL length limits
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return unauthorisedResponse(corsHeaders);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: retentionDays, error: retentionError } = await supabase.rpc("recycle_bin_retention_days");
+    if (retentionError) {
+      throw new Error(`Failed to read retention period: ${retentionError.message}`);
+    }
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const fetchExpiredIds = async (table: string) => {
+      const ids: string[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from(table)
+          .select("id")
+          .lt("deleted_at", cutoff)
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+          throw new Error(`Failed to fetch expired ${table}: ${error.message}`);
+        }
+
+        ids.push(...(data || []).map((row: { id: string }) => row.id));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return ids;
+    };
+
+    // Records go one chunk at a time: storage objects first, then the rows, so a
+    // storage failure leaves the rows in the bin to be retried on the next run
+    const recordIds = await fetchExpiredIds("compliance_records");
+    let recordsPurged = 0;
+    let filesRemoved = 0;
+
+    for (let i = 0; i < recordIds.length; i += CHUNK_SIZE) {
+      const chunk = recordIds.slice(i, i + CHUNK_SIZE);
+
+      const { data: files, error: filesError } = await supabase
+        .from("evidence_files")
+        .select("file_path")
+        .in("record_id", chunk);
+
+      if (filesError) {
+        throw new Error(`Failed to fetch evidence files: ${filesError.message}`);
+      }
+
+      const paths = (files || []).map((file: { file_path: string }) => file.file_path);
+      if (paths.length > 0) {
+        const { error: removeError } = await supabase.storage.from(EVIDENCE_BUCKET).remove(paths);
+        if (removeError) {
+          console.error("Failed to remove evidence objects; leaving records for the next run:", removeError);
+          continue;
+        }
+        filesRemoved += paths.length;
+      }
+
+      const { error: deleteError } = await supabase
+        .from("compliance_records")
+        .delete()
+        .in("id", chunk);
+
+      if (deleteError) {
+        throw new Error(`Failed to purge compliance records: ${deleteError.message}`);
+      }
+      recordsPurged += chunk.length;
+    }
+
+    const standardIds = await fetchExpiredIds("standards");
+    for (let i = 0; i < standardIds.length; i += CHUNK_SIZE) {
+      const { error } = await supabase
+        .from("standards")
+        .delete()
+        .in("id", standardIds.slice(i, i + CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to purge standards: ${error.message}`);
+      }
+    }
+
+    console.log(`Recycle bin purge before ${cutoff}: ${recordsPurged} records, ${filesRemoved} files, ${standardIds.length} standards`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        cutoff,
+        recordsPurged,
+        filesRemoved,
+        standardsPurged: standardIds.length,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error in purge-recycle-bin function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to purge recycle bin" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,279 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { escapeHtml, isEmailConfigured, sendEmail } from "../_shared/email.ts";
+import { isCronRequest, unauthorisedResponse } from "../_shared/cron.ts";
+import {
+  claimReminder,
+  daysBetween,
+  describeDue,
+  fetchSentReminders,
+  getAppUrl,
+  getReminderThreshold,
+  getToday,
+  markReminderEmailed,
+} from "../_shared/reminders.ts";
+
+// Recalculates compliance_records.review_status from next_review_date and reminds the
+// responsible person in-app and by email once the review is within 30 and 7 days,
+// and again when it falls due.
+//
+// Local testing: set REVIEW_REMINDERS_NOW (e.g. 2026-11-01) to fake today's date and
+// point SMTP_* at Inbucket; see supabase/functions/.env.example.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PAGE_SIZE = 1000;
+const REMINDER_DAYS = [30, 7, 0];
+const DUE_WITHIN_DAYS = 7;
+const UPCOMING_WITHIN_DAYS = 30;
+const SENT_TABLE = "review_reminders_sent";
+
+interface ReviewRecord {
+  id: string;
+  organisation_id: string;
+  compliance_item: string;
+  responsible_person: string;
+  next_review_date: string;
+  review_status: string | null;
+  compliance_record_standards: {
+    standards: { standard_clause: string; deleted_at: string | null } | null;
+  }[];
+}
+
+interface SentReminder {
+  record_id: string;
+  review_date: string;
+  days_before: number;
+  emailed: boolean;
+}
+
+interface Member {
+  id: string;
+  organisation_id: string;
+  full_name: string | null;
+  email: string;
+}
+
+const getReviewStatus = (daysUntil: number) => {
+  if (daysUntil < 0) return "Overdue";
+  if (daysUntil <= DUE_WITHIN_DAYS) return "Due";
+  if (daysUntil <= UPCOMING_WITHIN_DAYS) return "Upcoming";
+  return "Scheduled";
+};
+
+// The service role sees binned standards too, so those are left out here
+const formatClauses = (record: ReviewRecord) =>
+  record.compliance_record_standards
+    .map(({ standards }) => standards && !standards.deleted_at ? standards.standard_clause : null)
+    .filter((clause): clause is string => !!clause)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .join(", ") || "no clause";
+
+const sentKey = (recordId: string, reviewDate: string, daysBefore: number) =>
+  `${recordId}|${reviewDate}|${daysBefore}`;
+
+const buildReminderEmail = (record: ReviewRecord, member: Member, daysUntil: number, appUrl: string) => {
+  const link = `${appUrl}/?record=${record.id}`;
+  const subject = `Review ${describeDue(daysUntil)}: ${record.compliance_item}`;
+  const text = [
+    `Hi ${member.full_name || member.email},`,
+    "",
+    `The review of "${record.compliance_item}" (${formatClauses(record)}) ${describeDue(daysUntil)} (due ${record.next_review_date}).`,
+    "",
+    `Open the record: ${link}`,
+  ].join("\n");
+  const html = `
+    <p>Hi ${escapeHtml(member.full_name || member.email)},</p>
+    <p>The review of <strong>${escapeHtml(record.compliance_item)}</strong> (${escapeHtml(formatClauses(record))}) ${describeDue(daysUntil)} (due ${record.next_review_date}).</p>
+    <p><a href="${escapeHtml(link)}">Open the record in ComplyHub</a></p>
+  `;
+  return { subject, text, html };
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isCronRequest(req)) {
+    return unauthorisedResponse(corsHeaders);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const appUrl = getAppUrl();
+
+    const today = getToday("REVIEW_REMINDERS_NOW");
+
+    const records: ReviewRecord[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from("compliance_records")
+        .select("id, organisation_id, compliance_item, responsible_person, next_review_date, review_status, compliance_record_standards(standards(standard_clause, deleted_at))")
+        .not("next_review_date", "is", null)
+        .not("organisation_id", "is", null)
+        .is("deleted_at", null)
+        .order("id")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch compliance records: ${error.message}`);
+      }
+
+      records.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    // Update review statuses, one query per status
+    const idsByStatus: Record<string, string[]> = {};
+    records.forEach((record) => {
+      const status = getReviewStatus(daysBetween(today, record.next_review_date));
+      if (status !== record.review_status) {
+        (idsByStatus[status] = idsByStatus[status] || []).push(record.id);
+      }
+    });
+
+    let statusesUpdated = 0;
+    for (const [status, ids] of Object.entries(idsByStatus)) {
+      for (let i = 0; i < ids.length; i += PAGE_SIZE) {
+        const chunk = ids.slice(i, i + PAGE_SIZE);
+        const { error } = await supabase
+          .from("compliance_records")
+          .update({ review_status: status })
+          .in("id", chunk);
+
+        if (error) {
+          throw new Error(`Failed to update review statuses: ${error.message}`);
+        }
+        statusesUpdated += chunk.length;
+      }
+    }
+
+    // Reminders for records that have reached one of the reminder thresholds
+    const dueRecords = records.flatMap((record) => {
+      const daysUntil = daysBetween(today, record.next_review_date);
+      const daysBefore = getReminderThreshold(daysUntil, REMINDER_DAYS);
+      return daysBefore === null ? [] : [{ record, daysUntil, daysBefore }];
+    });
+
+    let remindersSent = 0;
+    let emailsSent = 0;
+    const emailEnabled = isEmailConfigured();
+
+    if (dueRecords.length > 0) {
+      const sent = await fetchSentReminders<SentReminder>(
+        supabase,
+        SENT_TABLE,
+        "record_id",
+        dueRecords.map(({ record }) => record.id),
+        "record_id, review_date, days_before, emailed"
+      );
+      const sentReminders = new Map(sent.map((r) => [sentKey(r.record_id, r.review_date, r.days_before), r]));
+
+      const { data: members, error: membersError } = await supabase
+        .from("organisation_members")
+        .select("id, organisation_id, full_name, email")
+        .in("organisation_id", [...new Set(dueRecords.map(({ record }) => record.organisation_id))]);
+
+      if (membersError) {
+        throw new Error(`Failed to fetch organisation members: ${membersError.message}`);
+      }
+
+      for (const { record, daysUntil, daysBefore } of dueRecords) {
+        const existing = sentReminders.get(sentKey(record.id, record.next_review_date, daysBefore));
+
+        // Sent already; only an email that never went out is worth another go
+        if (existing && (existing.emailed || !emailEnabled)) continue;
+
+        // responsible_person holds the member's name, or their email when no name is set
+        const member = (members || []).find((m: Member) =>
+          m.organisation_id === record.organisation_id &&
+          (m.full_name === record.responsible_person || m.email === record.responsible_person)
+        );
+
+        if (!existing) {
+          const claimed = await claimReminder(supabase, SENT_TABLE, {
+            record_id: record.id,
+            review_date: record.next_review_date,
+            days_before: daysBefore,
+            member_id: member?.id || null,
+          });
+          if (!claimed) continue;
+
+          if (member) {
+            const { error: notifyError } = await supabase
+              .from("notifications")
+              .insert({
+                organisation_id: record.organisation_id,
+                user_id: member.id,
+                created_by: member.id,
+                type: "review_reminder",
+                action: `due_in_${daysBefore}_days`,
+                title: `Review ${describeDue(daysUntil)}`,
+                message: `"${record.compliance_item}" (${formatClauses(record)}) ${describeDue(daysUntil)}`,
+                record_id: record.id,
+              });
+
+            if (notifyError) {
+              console.error(`Failed to create reminder notification for record ${record.id}:`, notifyError);
+            } else {
+              remindersSent++;
+            }
+          }
+        }
+
+        if (!member) {
+          console.warn(`No member found for responsible person "${record.responsible_person}" on record ${record.id}`);
+          continue;
+        }
+
+        if (emailEnabled) {
+          try {
+            await sendEmail({ to: member.email, ...buildReminderEmail(record, member, daysUntil, appUrl) });
+            await markReminderEmailed(supabase, SENT_TABLE, {
+              record_id: record.id,
+              review_date: record.next_review_date,
+              days_before: daysBefore,
+            });
+            emailsSent++;
+          } catch (emailError) {
+            console.error(`Failed to email reminder for record ${record.id}:`, emailError);
+          }
+        }
+      }
+    }
+
+    console.log(`Review reminders for ${today}: ${statusesUpdated} statuses updated, ${remindersSent} reminders, ${emailsSent} emails`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        today,
+        statusesUpdated,
+        remindersSent,
+        emailsSent,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+
+  } catch (error) {
+    console.error("Error in review-reminders function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to process review reminders" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -1,16 +1,25 @@
 
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.50.0";
+import { isEmailConfigured, sendEmail } from "../_shared/email.ts";
+import { buildInvitationEmail } from "./template.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const INVITATION_EXPIRY_DAYS = 7;
+
+// Case-insensitive exact match; emails may contain the LIKE wildcard "_"
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
 interface InvitationRequest {
-  email: string;
+  action?: "send" | "resend" | "revoke";
+  email?: string;
+  invitationId?: string;
   organisationId: string;
-  organisationName: string;
+  organisationName?: string;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -19,7 +28,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { email, organisationId, organisationName }: InvitationRequest = await req.json();
+    const { action = "send", email: requestEmail, invitationId, organisationId, organisationName }: InvitationRequest = await req.json();
 
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
@@ -40,41 +49,183 @@ const handler = async (req: Request): Promise<Response> => {
       throw new Error("Unauthorized");
     }
 
+    // Only admins of the organisation can manage its invitations
+    const { data: inviter, error: inviterError } = await supabase
+      .from('organisation_members')
+      .select('full_name, email, role')
+      .eq('id', userData.user.id)
+      .eq('organisation_id', organisationId)
+      .single();
+
+    if (inviterError || !inviter || inviter.role !== 'admin') {
+      throw new Error("Only organisation admins can manage invitations");
+    }
+
+    if (action === "revoke") {
+      const { data: revoked, error: revokeError } = await supabase
+        .from('invitations')
+        .delete()
+        .eq('id', invitationId)
+        .eq('organisation_id', organisationId)
+        .is('accepted_at', null)
+        .select('id');
+
+      if (revokeError) {
+        throw new Error(`Failed to revoke invitation: ${revokeError.message}`);
+      }
+      if (!revoked || revoked.length === 0) {
+        throw new Error("Invitation not found or already accepted");
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, message: "Invitation revoked" }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    const { data: organisation, error: orgError } = await supabase
+      .from('organisations')
+      .select('name, branding_color')
+      .eq('id', organisationId)
+      .single();
+
+    if (orgError || !organisation) {
+      throw new Error("Organisation not found");
+    }
+
+    const baseUrl = Deno.env.get("APP_URL") || req.headers.get("origin");
+    if (!baseUrl) {
+      throw new Error("Cannot build invitation link: set APP_URL");
+    }
+
+    // Find the invitation being resent, or any outstanding one for this email
+    let existing: { id: string; email: string; expires_at: string } | null = null;
+    if (action === "resend") {
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('id, email, expires_at')
+        .eq('id', invitationId)
+        .eq('organisation_id', organisationId)
+        .is('accepted_at', null)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to find invitation: ${error.message}`);
+      }
+      if (!data) {
+        throw new Error("Invitation not found or already accepted");
+      }
+      existing = data;
+    } else {
+      if (!requestEmail) {
+        throw new Error("Email is required");
+      }
+
+      const { data: member } = await supabase
+        .from('organisation_members')
+        .select('id')
+        .eq('organisation_id', organisationId)
+        .ilike('email', escapeLike(requestEmail))
+        .maybeSingle();
+
+      if (member) {
+        throw new Error(`${requestEmail} is already a member of this organisation`);
+      }
+
+      const { data, error } = await supabase
+        .from('invitations')
+        .select('id, email, expires_at')
+        .eq('organisation_id', organisationId)
+        .ilike('email', escapeLike(requestEmail))
+        .is('accepted_at', null)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to check existing invitations: ${error.message}`);
+      }
+
+      // An expired invitation is simply refreshed; a live one must be resent explicitly
+      if (data && new Date(data.expires_at) > new Date()) {
+        throw new Error(`An invitation is already pending for ${requestEmail}. Resend it from the Invitations tab instead.`);
+      }
+      existing = data;
+    }
+
+    const email = existing?.email || requestEmail!;
+
     // Generate unique invite token
     const inviteToken = crypto.randomUUID();
     const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days expiry
-
-    // Create invitation record
-    const { data: invitation, error: inviteError } = await supabase
-      .from('invitations')
-      .insert({
-        email,
-        organisation_id: organisationId,
-        invited_by: userData.user.id,
-        invite_token: inviteToken,
-        expires_at: expiresAt.toISOString()
-      })
-      .select()
-      .single();
+    expiresAt.setDate(expiresAt.getDate() + INVITATION_EXPIRY_DAYS);
+
+    // Create the invitation record, or give the existing one a fresh token and expiry
+    const { data: invitation, error: inviteError } = existing
+      ? await supabase
+        .from('invitations')
+        .update({
+          invite_token: inviteToken,
+          expires_at: expiresAt.toISOString(),
+          invited_by: userData.user.id,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existing.id)
+        .select()
+        .single()
+      : await supabase
+        .from('invitations')
+        .insert({
+          email,
+          organisation_id: organisationId,
+          invited_by: userData.user.id,
+          invite_token: inviteToken,
+          expires_at: expiresAt.toISOString()
+        })
+        .select()
+        .single();
 
     if (inviteError) {
       throw new Error(`Failed to create invitation: ${inviteError.message}`);
     }
 
     // Create the invitation URL
-    const baseUrl = req.headers.get("origin") || "https://your-app.com";
     const invitationUrl = `${baseUrl}/accept-invitation?token=${inviteToken}`;
 
-    // For now, we'll just return the invitation URL
-    // In production, you would send an email here using a service like Resend
-    console.log(`Invitation created for ${email}. URL: ${invitationUrl}`);
+    // Without a configured email provider the link is handed back for the admin to share
+    let emailSent = false;
+    if (isEmailConfigured()) {
+      try {
+        await sendEmail({
+          to: email,
+          ...buildInvitationEmail({
+            organisationName: organisation.name || organisationName || "your organisation",
+            brandingColor: organisation.branding_color,
+            inviterName: inviter.full_name || inviter.email,
+            invitationUrl,
+            expiresAt,
+          }),
+        });
+      } catch (emailError) {
+        // Remove a brand new invitation so the admin can simply try again
+        if (!existing) {
+          await supabase.from('invitations').delete().eq('id', invitation.id);
+        }
+        throw new Error(`Failed to send invitation email: ${emailError instanceof Error ? emailError.message : emailError}`);
+      }
+      emailSent = true;
+      console.log(`Invitation emailed to ${email}`);
+    } else {
+      console.warn(`Email is not configured; invitation for ${email} was created but not emailed`);
+    }
 
     return new Response(
       JSON.stringify({ 
         success: true, 
-        invitationUrl,
-        message: "Invitation created successfully" 
+        emailSent,
+        invitationUrl: emailSent ? undefined : invitationUrl,
+        message: emailSent ? "Invitation sent successfully" : "Invitation created successfully" 
       }),
       {
         status: 200,
@@ -0,0 +1,78 @@
+import { escapeHtml } from "../_shared/email.ts";
+
+const DEFAULT_BRANDING_COLOR = "#7030a0";
+
+interface InvitationEmailOptions {
+  organisationName: string;
+  brandingColor: string | null;
+  inviterName: string;
+  invitationUrl: string;
+  expiresAt: Date;
+}
+
+// Only accept hex colours so a stored value can't break out of the style attribute
+const getBrandingColor = (color: string | null) =>
+  color && /^#[0-9a-fA-F]{3}([0-9a-fA-F]{3})?$/.test(color) ? color : DEFAULT_BRANDING_COLOR;
+
+export const buildInvitationEmail = ({
+  organisationName,
+  brandingColor,
+  inviterName,
+  invitationUrl,
+  expiresAt,
+}: InvitationEmailOptions) => {
+  const color = getBrandingColor(brandingColor);
+  const expiry = expiresAt.toLocaleDateString("en-AU", {
+    timeZone: "Australia/Sydney",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+  const org = escapeHtml(organisationName);
+  const inviter = escapeHtml(inviterName);
+  const url = escapeHtml(invitationUrl);
+
+  const subject = `You're invited to join ${organisationName} on ComplyHub`;
+
+  const text = [
+    `${inviterName} has invited you to join ${organisationName} on ComplyHub.`,
+    "",
+    `Accept your invitation: ${invitationUrl}`,
+    "",
+    `This invitation expires on ${expiry}.`,
+  ].join("\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background-color:#f9fafb;font-family:Arial,Helvetica,sans-serif;">
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color:#f9fafb;padding:32px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="560" cellspacing="0" cellpadding="0" style="background-color:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background-color:${color};padding:24px 32px;color:#ffffff;font-size:20px;font-weight:bold;">
+                ${org}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:32px;color:#111827;font-size:15px;line-height:1.6;">
+                <p style="margin:0 0 16px;">Hello,</p>
+                <p style="margin:0 0 24px;"><strong>${inviter}</strong> has invited you to join <strong>${org}</strong> on ComplyHub.</p>
+                <p style="margin:0 0 24px;">
+                  <a href="${url}" style="display:inline-block;background-color:${color};color:#ffffff;text-decoration:none;padding:12px 24px;border-radius:6px;font-weight:bold;">
+                    Accept Invitation
+                  </a>
+                </p>
+                <p style="margin:0 0 8px;color:#6b7280;font-size:13px;">This invitation expires on ${expiry}.</p>
+                <p style="margin:0;color:#6b7280;font-size:13px;">If the button doesn't work, copy this link into your browser:<br /><a href="${url}" style="color:${color};">${url}</a></p>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+};
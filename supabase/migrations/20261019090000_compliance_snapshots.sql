@@ -0,0 +1,66 @@
+-- Daily per-organisation snapshot of compliance status counts
+CREATE TABLE public.compliance_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  total_records INTEGER NOT NULL DEFAULT 0,
+  compliant_count INTEGER NOT NULL DEFAULT 0,
+  at_risk_count INTEGER NOT NULL DEFAULT 0,
+  non_compliant_count INTEGER NOT NULL DEFAULT 0,
+  overall_compliance NUMERIC(5,2) NOT NULL DEFAULT 0,
+  clause_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, snapshot_date)
+);
+
+-- Clause numbers repeat across frameworks, so per-clause counts are keyed by standard id
+COMMENT ON COLUMN public.compliance_snapshots.clause_counts IS 'Status counts per standard, keyed by standard id';
+
+CREATE INDEX idx_compliance_snapshots_org_date
+  ON public.compliance_snapshots (organisation_id, snapshot_date);
+
+ALTER TABLE public.compliance_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are written by the compliance-snapshot edge function with the service role;
+-- members can only read their own organisation's history
+CREATE POLICY "Members can view their organisation's snapshots"
+  ON public.compliance_snapshots
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+-- Scheduled functions authenticate with a dedicated secret kept in Vault rather
+-- than a key that ships to the browser. It's generated once here; copy it into
+-- the functions' environment as CRON_SECRET:
+--   SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret';
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'cron_secret') THEN
+    PERFORM vault.create_secret(
+      encode(extensions.gen_random_bytes(32), 'hex'),
+      'cron_secret',
+      'Bearer token pg_cron sends to scheduled edge functions'
+    );
+  END IF;
+END;
+$$;
+
+-- Run the snapshot once a day just after midnight AEST
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'daily-compliance-snapshot',
+  '5 14 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://vmtfiuhvwgtpgaswowgu.supabase.co/functions/v1/compliance-snapshot',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,241 @@
+-- Message threads: direct messages between two members or named group channels
+CREATE TABLE public.message_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  thread_type TEXT NOT NULL CHECK (thread_type IN ('direct', 'channel')),
+  name TEXT,
+  compliance_record_id UUID REFERENCES public.compliance_records(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL REFERENCES public.organisation_members(id),
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (thread_type = 'direct' OR name IS NOT NULL)
+);
+
+CREATE TABLE public.message_thread_members (
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.organisation_members(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (thread_id, member_id)
+);
+
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.organisation_members(id),
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_threads_org ON public.message_threads (organisation_id, last_message_at DESC);
+CREATE INDEX idx_message_threads_record ON public.message_threads (compliance_record_id);
+CREATE INDEX idx_message_thread_members_member ON public.message_thread_members (member_id);
+CREATE INDEX idx_messages_thread_created ON public.messages (thread_id, created_at);
+
+-- Security definer so policies on message_thread_members don't recurse into themselves
+CREATE OR REPLACE FUNCTION public.is_thread_member(p_thread_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.message_thread_members
+    WHERE thread_id = p_thread_id AND member_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_thread_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their threads"
+  ON public.message_threads
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id() AND public.is_thread_member(id));
+
+-- Only the name and linked record are meant to change; guard_message_thread
+-- below keeps everything else as it was
+CREATE POLICY "Members can rename or relink their threads"
+  ON public.message_threads
+  FOR UPDATE
+  USING (organisation_id = public.get_user_organisation_id() AND public.is_thread_member(id))
+  WITH CHECK (organisation_id = public.get_user_organisation_id() AND public.is_thread_member(id));
+
+CREATE POLICY "Members can view members of their threads"
+  ON public.message_thread_members
+  FOR SELECT
+  USING (public.is_thread_member(thread_id));
+
+CREATE POLICY "Members can read messages in their threads"
+  ON public.messages
+  FOR SELECT
+  USING (public.is_thread_member(thread_id));
+
+CREATE POLICY "Members can post to their threads"
+  ON public.messages
+  FOR INSERT
+  WITH CHECK (sender_id = auth.uid() AND public.is_thread_member(thread_id));
+
+-- Creates a thread with the caller and the given members. Direct messages between
+-- the same two people reuse the existing thread rather than creating a duplicate.
+CREATE OR REPLACE FUNCTION public.create_message_thread(
+  p_thread_type TEXT,
+  p_member_ids UUID[],
+  p_name TEXT DEFAULT NULL,
+  p_compliance_record_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+  v_thread_id UUID;
+  v_requested_ids UUID[];
+  v_member_ids UUID[];
+BEGIN
+  v_org_id := public.get_user_organisation_id();
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'Organisation not found';
+  END IF;
+
+  v_requested_ids := ARRAY(SELECT DISTINCT unnest(p_member_ids || auth.uid()));
+
+  v_member_ids := ARRAY(
+    SELECT id FROM public.organisation_members
+    WHERE organisation_id = v_org_id AND id = ANY(v_requested_ids)
+  );
+
+  IF cardinality(v_member_ids) <> cardinality(v_requested_ids) THEN
+    RAISE EXCEPTION 'All thread members must belong to your organisation';
+  END IF;
+
+  IF p_compliance_record_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.compliance_records
+    WHERE id = p_compliance_record_id AND organisation_id = v_org_id
+  ) THEN
+    RAISE EXCEPTION 'Compliance record not found';
+  END IF;
+
+  IF p_thread_type = 'direct' THEN
+    IF cardinality(v_member_ids) <> 2 THEN
+      RAISE EXCEPTION 'A direct message needs exactly one other member';
+    END IF;
+
+    SELECT t.id INTO v_thread_id
+    FROM public.message_threads t
+    WHERE t.organisation_id = v_org_id
+      AND t.thread_type = 'direct'
+      AND t.compliance_record_id IS NOT DISTINCT FROM p_compliance_record_id
+      AND (SELECT array_agg(m.member_id ORDER BY m.member_id) FROM public.message_thread_members m WHERE m.thread_id = t.id)
+        = (SELECT array_agg(x ORDER BY x) FROM unnest(v_member_ids) x)
+    LIMIT 1;
+
+    IF v_thread_id IS NOT NULL THEN
+      RETURN v_thread_id;
+    END IF;
+  ELSIF p_thread_type = 'channel' THEN
+    IF coalesce(trim(p_name), '') = '' THEN
+      RAISE EXCEPTION 'Channels need a name';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown thread type %', p_thread_type;
+  END IF;
+
+  INSERT INTO public.message_threads (organisation_id, thread_type, name, compliance_record_id, created_by)
+  VALUES (v_org_id, p_thread_type, nullif(trim(p_name), ''), p_compliance_record_id, auth.uid())
+  RETURNING id INTO v_thread_id;
+
+  INSERT INTO public.message_thread_members (thread_id, member_id)
+  SELECT v_thread_id, unnest(v_member_ids);
+
+  RETURN v_thread_id;
+END;
+$$;
+
+-- Unread message count per thread for the current user
+CREATE OR REPLACE FUNCTION public.get_unread_message_counts()
+RETURNS TABLE (thread_id UUID, unread_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.thread_id, count(msg.id)::INTEGER
+  FROM public.message_thread_members m
+  JOIN public.messages msg
+    ON msg.thread_id = m.thread_id
+   AND msg.created_at > m.last_read_at
+   AND msg.sender_id <> m.member_id
+  WHERE m.member_id = auth.uid()
+  GROUP BY m.thread_id;
+$$;
+
+-- Marks a thread read for the current user. Membership rows have no UPDATE
+-- policy, so this is the only way to change them and it only touches last_read_at.
+CREATE OR REPLACE FUNCTION public.mark_thread_read(p_thread_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.message_thread_members
+  SET last_read_at = now()
+  WHERE thread_id = p_thread_id AND member_id = auth.uid();
+$$;
+
+-- A thread keeps its type, organisation and creator for good, and can only be
+-- linked to a record in its own organisation; the foreign key alone would
+-- accept any organisation's record.
+CREATE OR REPLACE FUNCTION public.guard_message_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.organisation_id := OLD.organisation_id;
+  NEW.thread_type := OLD.thread_type;
+  NEW.created_by := OLD.created_by;
+  NEW.created_at := OLD.created_at;
+
+  IF NEW.compliance_record_id IS DISTINCT FROM OLD.compliance_record_id
+    AND NEW.compliance_record_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.compliance_records
+      WHERE id = NEW.compliance_record_id AND organisation_id = NEW.organisation_id
+    ) THEN
+    RAISE EXCEPTION 'Compliance record not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_message_thread
+  BEFORE UPDATE ON public.message_threads
+  FOR EACH ROW EXECUTE FUNCTION public.guard_message_thread();
+
+-- Keep thread ordering in step with the latest message
+CREATE OR REPLACE FUNCTION public.touch_message_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.message_threads
+  SET last_message_at = NEW.created_at, updated_at = now()
+  WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_message_created
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_message_thread();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
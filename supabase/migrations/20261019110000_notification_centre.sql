@@ -0,0 +1,63 @@
+-- Lets the header bell update live as notifications arrive
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications (organisation_id, user_id, created_at DESC);
+
+-- Read state is kept per member. Org-wide notifications (no user_id) are shared
+-- by everyone, so a single is_read flag on them would clear them for the whole
+-- organisation the first time anyone opened the bell.
+CREATE TABLE public.notification_reads (
+  notification_id UUID NOT NULL REFERENCES public.notifications(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.organisation_members(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (notification_id, member_id)
+);
+
+CREATE INDEX idx_notification_reads_member ON public.notification_reads (member_id);
+
+ALTER TABLE public.notification_reads ENABLE ROW LEVEL SECURITY;
+
+-- Written only through mark_notifications_read
+CREATE POLICY "Members can view their own notification reads"
+  ON public.notification_reads
+  FOR SELECT
+  USING (member_id = auth.uid());
+
+-- Carry over what has already been read. Org-wide notifications that were
+-- already cleared are treated as read by everyone, as they appeared before.
+INSERT INTO public.notification_reads (notification_id, member_id)
+SELECT n.id, n.user_id
+FROM public.notifications n
+WHERE n.is_read AND n.user_id IS NOT NULL
+  AND EXISTS (SELECT 1 FROM public.organisation_members m WHERE m.id = n.user_id)
+UNION
+SELECT n.id, m.id
+FROM public.notifications n
+JOIN public.organisation_members m ON m.organisation_id = n.organisation_id
+WHERE n.is_read AND n.user_id IS NULL
+ON CONFLICT DO NOTHING;
+
+-- Marks the given notifications (or all of them when no ids are passed) as read
+-- for the current user. Org-wide notifications have no user_id.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_notification_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  INSERT INTO public.notification_reads (notification_id, member_id)
+  SELECT n.id, auth.uid()
+  FROM public.notifications n
+  WHERE n.organisation_id = public.get_user_organisation_id()
+    AND (n.user_id = auth.uid() OR n.user_id IS NULL)
+    AND (p_notification_ids IS NULL OR n.id = ANY(p_notification_ids))
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- One row per reminder sent, so re-running the job never double-sends. days_before
+-- is the threshold reached (30, 7 or 0); emailed stays false until the email goes
+-- out, and the next run tries it again.
+CREATE TABLE public.review_reminders_sent (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  record_id UUID NOT NULL REFERENCES public.compliance_records(id) ON DELETE CASCADE,
+  review_date DATE NOT NULL,
+  days_before INTEGER NOT NULL,
+  member_id UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  emailed BOOLEAN NOT NULL DEFAULT false,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (record_id, review_date, days_before)
+);
+
+-- Only the review-reminders edge function (service role) reads or writes this table
+ALTER TABLE public.review_reminders_sent ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_compliance_records_next_review
+  ON public.compliance_records (next_review_date);
+
+-- Recalculate review statuses and send reminders every morning at 7am AEST
+SELECT cron.schedule(
+  'daily-review-reminders',
+  '0 21 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://vmtfiuhvwgtpgaswowgu.supabase.co/functions/v1/review-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
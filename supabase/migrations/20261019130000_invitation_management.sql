@@ -0,0 +1,24 @@
+-- Keep only the newest outstanding invitation per email before enforcing uniqueness
+DELETE FROM public.invitations i
+USING public.invitations newer
+WHERE i.accepted_at IS NULL
+  AND newer.accepted_at IS NULL
+  AND i.organisation_id = newer.organisation_id
+  AND lower(i.email) = lower(newer.email)
+  AND (i.created_at, i.id) < (newer.created_at, newer.id);
+
+-- One outstanding invitation per email per organisation; resending reuses the row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_pending_email
+  ON public.invitations (organisation_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+-- Lets admins list their organisation's invitations on the Team Members page.
+-- Sending, resending and revoking go through the send-invitation function.
+DROP POLICY IF EXISTS "Admins can view their organisation's invitations" ON public.invitations;
+CREATE POLICY "Admins can view their organisation's invitations"
+  ON public.invitations
+  FOR SELECT
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  );
@@ -0,0 +1,88 @@
+-- One row per uploaded evidence file, replacing the comma-joined
+-- compliance_records.file_name / file_path columns
+CREATE TABLE public.evidence_files (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  record_id UUID NOT NULL REFERENCES public.compliance_records(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL UNIQUE,
+  mime_type TEXT,
+  size_bytes BIGINT,
+  checksum TEXT,
+  uploaded_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.evidence_files.checksum IS 'SHA-256 of the file contents, hex encoded';
+
+CREATE INDEX idx_evidence_files_record ON public.evidence_files (record_id, uploaded_at);
+CREATE INDEX idx_evidence_files_org ON public.evidence_files (organisation_id);
+
+ALTER TABLE public.evidence_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's evidence"
+  ON public.evidence_files
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can add evidence to their organisation's records"
+  ON public.evidence_files
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.compliance_records r
+      WHERE r.id = record_id AND r.organisation_id = evidence_files.organisation_id
+    )
+  );
+
+CREATE POLICY "Members can remove their organisation's evidence"
+  ON public.evidence_files
+  FOR DELETE
+  USING (organisation_id = public.get_user_organisation_id());
+
+-- Migrate existing files. Paths were generated as <organisation id>/<timestamp>_<random>.<ext>,
+-- but the extension is the whole original name when it had no dot, so a path can
+-- itself contain ", ". Splitting only where the next path starts keeps those intact.
+-- Names are user supplied and only paired up when the counts agree, otherwise the
+-- stored object name stands in for the original.
+WITH paths AS (
+  SELECT r.id AS record_id, r.organisation_id, r.file_name, r.created_at, p.path, p.idx
+  FROM public.compliance_records r
+  CROSS JOIN LATERAL regexp_split_to_table(
+    r.file_path,
+    ', (?=[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/[0-9]+_)'
+  ) WITH ORDINALITY AS p(path, idx)
+  WHERE r.file_path IS NOT NULL
+    AND r.organisation_id IS NOT NULL
+    AND trim(p.path) <> ''
+),
+named AS (
+  SELECT
+    paths.*,
+    CASE
+      WHEN cardinality(string_to_array(paths.file_name, ', ')) = (
+        SELECT count(*) FROM paths p2 WHERE p2.record_id = paths.record_id
+      )
+      THEN (string_to_array(paths.file_name, ', '))[paths.idx]
+    END AS original_name
+  FROM paths
+)
+INSERT INTO public.evidence_files (record_id, organisation_id, file_name, file_path, mime_type, size_bytes, uploaded_at)
+SELECT
+  n.record_id,
+  n.organisation_id,
+  COALESCE(NULLIF(trim(n.original_name), ''), regexp_replace(n.path, '^.*/', '')),
+  n.path,
+  o.metadata->>'mimetype',
+  (o.metadata->>'size')::BIGINT,
+  COALESCE(o.created_at, n.created_at)
+FROM named n
+LEFT JOIN storage.objects o
+  ON o.bucket_id = 'compliance-evidence' AND o.name = n.path
+ON CONFLICT (file_path) DO NOTHING;
+
+ALTER TABLE public.compliance_records
+  DROP COLUMN file_name,
+  DROP COLUMN file_path;
@@ -0,0 +1,56 @@
+-- Evidence is private: objects live under "<organisation_id>/..." and are only
+-- reachable by members of that organisation, through short-lived signed URLs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'compliance-evidence',
+  'compliance-evidence',
+  false,
+  52428800,
+  ARRAY[
+    'image/*',
+    'text/plain',
+    'text/csv',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Members can read their organisation's evidence objects" ON storage.objects;
+DROP POLICY IF EXISTS "Members can upload evidence objects for their organisation" ON storage.objects;
+DROP POLICY IF EXISTS "Members can delete their organisation's evidence objects" ON storage.objects;
+
+CREATE POLICY "Members can read their organisation's evidence objects"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'compliance-evidence'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+  );
+
+CREATE POLICY "Members can upload evidence objects for their organisation"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'compliance-evidence'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+  );
+
+CREATE POLICY "Members can delete their organisation's evidence objects"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'compliance-evidence'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+  );
@@ -0,0 +1,115 @@
+-- Append-only history of changes to compliance records and standards, written by
+-- triggers so every change is captured regardless of which client made it.
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  record_label TEXT,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted')),
+  actor_id UUID,
+  actor_name TEXT,
+  before_data JSONB,
+  after_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.audit_log IS 'Append-only. before_data/after_data hold only the columns that changed; a null actor is a system job.';
+
+-- No foreign keys: entries outlive the rows, members and organisations they describe
+CREATE INDEX idx_audit_log_org_created ON public.audit_log (organisation_id, created_at DESC);
+CREATE INDEX idx_audit_log_record ON public.audit_log (table_name, record_id, created_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's audit log"
+  ON public.audit_log
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_before JSONB;
+  v_after JSONB;
+  v_actor_id UUID := auth.uid();
+  v_actor_name TEXT;
+  v_key TEXT;
+  v_row JSONB;
+BEGIN
+  v_row := COALESCE(v_new, v_old);
+
+  IF TG_OP = 'UPDATE' THEN
+    v_before := '{}'::JSONB;
+    v_after := '{}'::JSONB;
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key <> 'updated_at' AND v_old -> v_key IS DISTINCT FROM v_new -> v_key THEN
+        v_before := v_before || jsonb_build_object(v_key, v_old -> v_key);
+        v_after := v_after || jsonb_build_object(v_key, v_new -> v_key);
+      END IF;
+    END LOOP;
+
+    IF v_after = '{}'::JSONB THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    v_before := v_old;
+    v_after := v_new;
+  END IF;
+
+  IF v_row ->> 'organisation_id' IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT COALESCE(full_name, email) INTO v_actor_name
+    FROM public.organisation_members
+    WHERE id = v_actor_id;
+  END IF;
+
+  INSERT INTO public.audit_log (organisation_id, table_name, record_id, record_label, action, actor_id, actor_name, before_data, after_data)
+  VALUES (
+    (v_row ->> 'organisation_id')::UUID,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::UUID,
+    -- Diffs only hold changed columns, so keep a readable name for the row alongside them
+    concat_ws(' - ', v_row ->> 'standard_clause', v_row ->> 'compliance_item'),
+    CASE TG_OP WHEN 'INSERT' THEN 'created' WHEN 'UPDATE' THEN 'updated' ELSE 'deleted' END,
+    v_actor_id,
+    v_actor_name,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_compliance_records
+  AFTER INSERT OR UPDATE OR DELETE ON public.compliance_records
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_standards
+  AFTER INSERT OR UPDATE OR DELETE ON public.standards
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
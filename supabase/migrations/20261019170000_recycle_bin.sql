@@ -0,0 +1,255 @@
+-- Deleting a compliance record or standard moves it to a recycle bin. Admins can
+-- restore it within the retention window; the purge-recycle-bin function removes
+-- it for good, along with its evidence files, once the window has passed.
+ALTER TABLE public.compliance_records
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL;
+
+ALTER TABLE public.standards
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_compliance_records_deleted ON public.compliance_records (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_standards_deleted ON public.standards (deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Binned rows disappear from every client query. Moving rows in and out of the bin
+-- goes through the functions below; only the purge job deletes rows outright.
+CREATE POLICY "Deleted compliance records are hidden"
+  ON public.compliance_records AS RESTRICTIVE
+  FOR SELECT
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted compliance records are read-only"
+  ON public.compliance_records AS RESTRICTIVE
+  FOR UPDATE
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Compliance records are deleted through the recycle bin"
+  ON public.compliance_records AS RESTRICTIVE
+  FOR DELETE
+  USING (false);
+
+CREATE POLICY "Deleted standards are hidden"
+  ON public.standards AS RESTRICTIVE
+  FOR SELECT
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Deleted standards are read-only"
+  ON public.standards AS RESTRICTIVE
+  FOR UPDATE
+  USING (deleted_at IS NULL);
+
+CREATE POLICY "Standards are deleted through the recycle bin"
+  ON public.standards AS RESTRICTIVE
+  FOR DELETE
+  USING (false);
+
+CREATE OR REPLACE FUNCTION public.recycle_bin_retention_days()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 30;
+$$;
+
+CREATE OR REPLACE FUNCTION public.move_to_recycle_bin(p_table TEXT, p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_table NOT IN ('compliance_records', 'standards') THEN
+    RAISE EXCEPTION 'Unsupported table %', p_table;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE public.%I SET deleted_at = now(), deleted_by = auth.uid()
+     WHERE id = $1 AND organisation_id = public.get_user_organisation_id() AND deleted_at IS NULL',
+    p_table
+  ) USING p_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  IF v_updated = 0 THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_from_recycle_bin(p_table TEXT, p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF p_table NOT IN ('compliance_records', 'standards') THEN
+    RAISE EXCEPTION 'Unsupported table %', p_table;
+  END IF;
+
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can restore deleted items';
+  END IF;
+
+  EXECUTE format(
+    'UPDATE public.%I SET deleted_at = NULL, deleted_by = NULL
+     WHERE id = $1 AND organisation_id = public.get_user_organisation_id()
+       AND deleted_at > now() - make_interval(days => public.recycle_bin_retention_days())',
+    p_table
+  ) USING p_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  IF v_updated = 0 THEN
+    RAISE EXCEPTION 'Item not found or its retention period has ended';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_recycle_bin()
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  label TEXT,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by_name TEXT,
+  purge_after TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can view the recycle bin';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    'compliance_records'::TEXT,
+    r.id,
+    r.standard_clause || ' - ' || r.compliance_item,
+    r.deleted_at,
+    COALESCE(m.full_name, m.email),
+    r.deleted_at + make_interval(days => public.recycle_bin_retention_days())
+  FROM public.compliance_records r
+  LEFT JOIN public.organisation_members m ON m.id = r.deleted_by
+  WHERE r.organisation_id = public.get_user_organisation_id()
+    AND r.deleted_at IS NOT NULL
+  UNION ALL
+  SELECT
+    'standards'::TEXT,
+    s.id,
+    s.standard_clause || ' - ' || s.standard_description,
+    s.deleted_at,
+    COALESCE(m.full_name, m.email),
+    s.deleted_at + make_interval(days => public.recycle_bin_retention_days())
+  FROM public.standards s
+  LEFT JOIN public.organisation_members m ON m.id = s.deleted_by
+  WHERE s.organisation_id = public.get_user_organisation_id()
+    AND s.deleted_at IS NOT NULL
+  ORDER BY 4 DESC;
+END;
+$$;
+
+-- Record binning and restoring as such in the audit log; a hard delete is now a purge
+ALTER TABLE public.audit_log DROP CONSTRAINT audit_log_action_check;
+ALTER TABLE public.audit_log ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('created', 'updated', 'deleted', 'restored', 'purged'));
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_action TEXT;
+  v_before JSONB;
+  v_after JSONB;
+  v_actor_id UUID := auth.uid();
+  v_actor_name TEXT;
+  v_key TEXT;
+BEGIN
+  IF v_row ->> 'organisation_id' IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF v_old ->> 'deleted_at' IS NULL AND v_new ->> 'deleted_at' IS NOT NULL THEN
+      v_action := 'deleted';
+    ELSIF v_old ->> 'deleted_at' IS NOT NULL AND v_new ->> 'deleted_at' IS NULL THEN
+      v_action := 'restored';
+    ELSE
+      v_action := 'updated';
+    END IF;
+
+    v_before := '{}'::JSONB;
+    v_after := '{}'::JSONB;
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key NOT IN ('updated_at', 'deleted_at', 'deleted_by') AND v_old -> v_key IS DISTINCT FROM v_new -> v_key THEN
+        v_before := v_before || jsonb_build_object(v_key, v_old -> v_key);
+        v_after := v_after || jsonb_build_object(v_key, v_new -> v_key);
+      END IF;
+    END LOOP;
+
+    IF v_action = 'updated' AND v_after = '{}'::JSONB THEN
+      RETURN NULL;
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_action := 'created';
+    v_after := v_new;
+  ELSE
+    v_action := 'purged';
+    v_before := v_old;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT COALESCE(full_name, email) INTO v_actor_name
+    FROM public.organisation_members
+    WHERE id = v_actor_id;
+  END IF;
+
+  INSERT INTO public.audit_log (organisation_id, table_name, record_id, record_label, action, actor_id, actor_name, before_data, after_data)
+  VALUES (
+    (v_row ->> 'organisation_id')::UUID,
+    TG_TABLE_NAME,
+    (v_row ->> 'id')::UUID,
+    -- Diffs only hold changed columns, so keep a readable name for the row alongside them
+    concat_ws(' - ', v_row ->> 'standard_clause', v_row ->> 'compliance_item'),
+    v_action,
+    v_actor_id,
+    v_actor_name,
+    NULLIF(v_before, '{}'::JSONB),
+    NULLIF(v_after, '{}'::JSONB)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Authenticated with the Vault cron_secret; the function turns away anyone else
+SELECT cron.schedule(
+  'daily-recycle-bin-purge',
+  '30 15 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://vmtfiuhvwgtpgaswowgu.supabase.co/functions/v1/purge-recycle-bin',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,76 @@
+-- Standards form a tree (Standard → Outcome → Clause → Sub-clause) rather than a
+-- flat list of clause numbers
+ALTER TABLE public.standards
+  ADD COLUMN parent_id UUID REFERENCES public.standards(id) ON DELETE SET NULL,
+  ADD COLUMN level TEXT NOT NULL DEFAULT 'clause'
+    CHECK (level IN ('standard', 'outcome', 'clause', 'sub_clause'));
+
+CREATE INDEX idx_standards_parent ON public.standards (parent_id);
+
+-- A parent must belong to the same organisation and can't be the standard itself
+-- or one of its descendants
+CREATE OR REPLACE FUNCTION public.validate_standard_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.standards
+    WHERE id = NEW.parent_id AND organisation_id = NEW.organisation_id
+  ) THEN
+    RAISE EXCEPTION 'Parent standard not found in this organisation';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.standards WHERE id = NEW.parent_id
+      UNION
+      SELECT s.id, s.parent_id
+      FROM public.standards s
+      JOIN ancestors a ON s.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A standard cannot be nested under itself or one of its children';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_standard_parent
+  BEFORE INSERT OR UPDATE OF parent_id, organisation_id ON public.standards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_standard_parent();
+
+-- Nest existing clauses under the clause whose number they extend, e.g. 1.2 under 1
+-- and 1.2.3 under 1.2. Clauses without a matching prefix stay at the top level.
+UPDATE public.standards child
+SET parent_id = parent.id
+FROM public.standards parent
+WHERE parent.organisation_id = child.organisation_id
+  AND parent.id <> child.id
+  AND parent.deleted_at IS NULL
+  AND child.standard_clause ~ '\.'
+  AND parent.standard_clause = regexp_replace(child.standard_clause, '\.[^.]*$', '');
+
+WITH RECURSIVE tree AS (
+  SELECT id, 0 AS depth FROM public.standards WHERE parent_id IS NULL
+  UNION ALL
+  SELECT s.id, tree.depth + 1
+  FROM public.standards s
+  JOIN tree ON s.parent_id = tree.id
+)
+UPDATE public.standards s
+SET level = CASE
+  WHEN tree.depth = 0 AND EXISTS (SELECT 1 FROM public.standards c WHERE c.parent_id = s.id) THEN 'standard'
+  WHEN tree.depth >= 2 THEN 'sub_clause'
+  ELSE 'clause'
+END
+FROM tree
+WHERE tree.id = s.id;
@@ -0,0 +1,80 @@
+-- Standards imported from the bundled framework library remember which framework
+-- and seed version they came from; hand-entered standards leave both empty
+ALTER TABLE public.standards
+  ADD COLUMN framework TEXT,
+  ADD COLUMN framework_version TEXT;
+
+CREATE UNIQUE INDEX idx_standards_framework_clause
+  ON public.standards (organisation_id, framework, standard_clause)
+  WHERE framework IS NOT NULL AND deleted_at IS NULL;
+
+-- Imports part or all of a framework in one transaction. p_standards is a JSON
+-- array of {clause, description, level, parent_clause} ordered parents first;
+-- parents are resolved against clauses of the same framework already in the
+-- organisation. Clauses that are already present are skipped, so importing again
+-- after a partial import only adds what's missing. Returns the number added.
+CREATE OR REPLACE FUNCTION public.import_framework_standards(
+  p_framework TEXT,
+  p_version TEXT,
+  p_standards JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID := public.get_user_organisation_id();
+  v_item JSONB;
+  v_parent_id UUID;
+  v_inserted INTEGER := 0;
+BEGIN
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can import frameworks';
+  END IF;
+
+  FOR v_item IN SELECT jsonb_array_elements(p_standards) LOOP
+    IF EXISTS (
+      SELECT 1 FROM public.standards
+      WHERE organisation_id = v_org_id
+        AND framework = p_framework
+        AND standard_clause = v_item ->> 'clause'
+        AND deleted_at IS NULL
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    v_parent_id := NULL;
+    IF v_item ->> 'parent_clause' IS NOT NULL THEN
+      SELECT id INTO v_parent_id
+      FROM public.standards
+      WHERE organisation_id = v_org_id
+        AND framework = p_framework
+        AND standard_clause = v_item ->> 'parent_clause'
+        AND deleted_at IS NULL;
+
+      IF v_parent_id IS NULL THEN
+        RAISE EXCEPTION 'Parent clause % of % must be imported first', v_item ->> 'parent_clause', v_item ->> 'clause';
+      END IF;
+    END IF;
+
+    INSERT INTO public.standards (
+      organisation_id, standard_clause, standard_description, level, parent_id, framework, framework_version
+    )
+    VALUES (
+      v_org_id,
+      v_item ->> 'clause',
+      v_item ->> 'description',
+      v_item ->> 'level',
+      v_parent_id,
+      p_framework,
+      p_version
+    );
+
+    v_inserted := v_inserted + 1;
+  END LOOP;
+
+  RETURN v_inserted;
+END;
+$$;
+
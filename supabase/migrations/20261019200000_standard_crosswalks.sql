@@ -0,0 +1,121 @@
+-- Maps clauses of an outgoing framework to one or more clauses of its replacement
+CREATE TABLE public.standard_crosswalks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  from_standard_id UUID NOT NULL REFERENCES public.standards(id) ON DELETE CASCADE,
+  to_standard_id UUID NOT NULL REFERENCES public.standards(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (from_standard_id, to_standard_id),
+  CHECK (from_standard_id <> to_standard_id)
+);
+
+CREATE INDEX idx_standard_crosswalks_org ON public.standard_crosswalks (organisation_id);
+
+ALTER TABLE public.standard_crosswalks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's crosswalk"
+  ON public.standard_crosswalks
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Admins can add crosswalk mappings"
+  ON public.standard_crosswalks
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+    AND created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.standards s WHERE s.id = from_standard_id AND s.organisation_id = standard_crosswalks.organisation_id)
+    AND EXISTS (SELECT 1 FROM public.standards s WHERE s.id = to_standard_id AND s.organisation_id = standard_crosswalks.organisation_id)
+  );
+
+CREATE POLICY "Admins can remove crosswalk mappings"
+  ON public.standard_crosswalks
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  );
+
+-- One row per compliance record re-pointed by the migration assistant. Old and new
+-- frameworks reuse clause numbers (1.1 exists in both), so this is what stops an
+-- already migrated record being offered for migration a second time.
+CREATE TABLE public.crosswalk_migrations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  record_id UUID NOT NULL REFERENCES public.compliance_records(id) ON DELETE CASCADE,
+  from_framework TEXT NOT NULL,
+  to_framework TEXT NOT NULL,
+  old_clause TEXT NOT NULL,
+  new_clause TEXT NOT NULL,
+  migrated_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  migrated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (record_id, from_framework, to_framework)
+);
+
+CREATE INDEX idx_crosswalk_migrations_org ON public.crosswalk_migrations (organisation_id, from_framework, to_framework);
+
+ALTER TABLE public.crosswalk_migrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's crosswalk migrations"
+  ON public.crosswalk_migrations
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+-- Applies a reviewed migration in one transaction. p_changes is a JSON array of
+-- {record_id, old_clause, new_clause}. If any record has been edited or deleted
+-- since the preview was built, nothing is changed and the admin is asked to review
+-- again.
+CREATE OR REPLACE FUNCTION public.apply_crosswalk_migration(
+  p_from_framework TEXT,
+  p_to_framework TEXT,
+  p_changes JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID := public.get_user_organisation_id();
+  v_change JSONB;
+  v_updated INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can migrate compliance records';
+  END IF;
+
+  FOR v_change IN SELECT jsonb_array_elements(p_changes) LOOP
+    UPDATE public.compliance_records
+    SET standard_clause = v_change ->> 'new_clause'
+    WHERE id = (v_change ->> 'record_id')::UUID
+      AND organisation_id = v_org_id
+      AND standard_clause = v_change ->> 'old_clause'
+      AND deleted_at IS NULL;
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    IF v_updated = 0 THEN
+      RAISE EXCEPTION 'A compliance record changed since the preview was built. Review the migration and try again.';
+    END IF;
+
+    INSERT INTO public.crosswalk_migrations (
+      organisation_id, record_id, from_framework, to_framework, old_clause, new_clause, migrated_by
+    )
+    VALUES (
+      v_org_id,
+      (v_change ->> 'record_id')::UUID,
+      p_from_framework,
+      p_to_framework,
+      v_change ->> 'old_clause',
+      v_change ->> 'new_clause',
+      auth.uid()
+    );
+
+    v_total := v_total + 1;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
@@ -0,0 +1,364 @@
+-- Compliance records link to standards by id, and a record can cover several
+-- clauses. Replaces the free-text compliance_records.standard_clause, which was
+-- orphaned whenever a clause was renumbered.
+CREATE TABLE public.compliance_record_standards (
+  record_id UUID NOT NULL REFERENCES public.compliance_records(id) ON DELETE CASCADE,
+  standard_id UUID NOT NULL REFERENCES public.standards(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (record_id, standard_id)
+);
+
+CREATE INDEX idx_compliance_record_standards_standard ON public.compliance_record_standards (standard_id);
+CREATE INDEX idx_compliance_record_standards_org ON public.compliance_record_standards (organisation_id);
+
+ALTER TABLE public.compliance_record_standards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's record standards"
+  ON public.compliance_record_standards
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can link their organisation's records to standards"
+  ON public.compliance_record_standards
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND EXISTS (
+      SELECT 1 FROM public.compliance_records r
+      WHERE r.id = record_id AND r.organisation_id = compliance_record_standards.organisation_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.standards s
+      WHERE s.id = standard_id AND s.organisation_id = compliance_record_standards.organisation_id
+    )
+  );
+
+CREATE POLICY "Members can unlink their organisation's records from standards"
+  ON public.compliance_record_standards
+  FOR DELETE
+  USING (organisation_id = public.get_user_organisation_id());
+
+-- Clause text that no longer matches any standard becomes a standard of its own,
+-- so no record loses its clause in the move
+INSERT INTO public.standards (organisation_id, standard_clause, standard_description)
+SELECT DISTINCT r.organisation_id, r.standard_clause, 'Added automatically from existing compliance records'
+FROM public.compliance_records r
+WHERE r.organisation_id IS NOT NULL
+  AND r.standard_clause IS NOT NULL
+  AND trim(r.standard_clause) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM public.standards s
+    WHERE s.organisation_id = r.organisation_id
+      AND s.standard_clause = r.standard_clause
+      AND s.deleted_at IS NULL
+  );
+
+-- Frameworks can share clause numbers (1.1 is in both the 2015 and 2025 standards).
+-- Prefer the framework a record was migrated to by the crosswalk assistant, then
+-- the oldest matching standard.
+INSERT INTO public.compliance_record_standards (record_id, standard_id, organisation_id)
+SELECT DISTINCT ON (r.id) r.id, s.id, r.organisation_id
+FROM public.compliance_records r
+JOIN public.standards s
+  ON s.organisation_id = r.organisation_id
+  AND s.standard_clause = r.standard_clause
+  AND s.deleted_at IS NULL
+WHERE r.organisation_id IS NOT NULL
+ORDER BY
+  r.id,
+  EXISTS (
+    SELECT 1 FROM public.crosswalk_migrations cm
+    WHERE cm.record_id = r.id AND cm.to_framework = s.framework
+  ) DESC,
+  s.created_at ASC;
+
+-- Replaces the standards linked to a record in one step. Runs with the caller's
+-- permissions, so the policies above still apply. Links to standards in the
+-- recycle bin aren't visible to the caller and are kept for when they're restored.
+CREATE OR REPLACE FUNCTION public.set_compliance_record_standards(
+  p_record_id UUID,
+  p_standard_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT organisation_id INTO v_org_id
+  FROM public.compliance_records
+  WHERE id = p_record_id;
+
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'Compliance record not found';
+  END IF;
+
+  IF COALESCE(cardinality(p_standard_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'A compliance record must cover at least one standard';
+  END IF;
+
+  DELETE FROM public.compliance_record_standards
+  WHERE record_id = p_record_id
+    AND standard_id <> ALL (p_standard_ids)
+    AND EXISTS (SELECT 1 FROM public.standards s WHERE s.id = standard_id);
+
+  INSERT INTO public.compliance_record_standards (record_id, standard_id, organisation_id)
+  SELECT p_record_id, standard_id, v_org_id
+  FROM unnest(p_standard_ids) AS standard_id
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+-- Saves a record and the standards it covers in one transaction, so a failure in
+-- either leaves both as they were. p_record_id is null for a new record; p_record
+-- holds {compliance_item, compliance_status, responsible_person, next_review_date,
+-- review_status, notes}. Runs with the caller's permissions.
+CREATE OR REPLACE FUNCTION public.save_compliance_record(
+  p_record_id UUID,
+  p_record JSONB,
+  p_standard_ids UUID[]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_record_id UUID := p_record_id;
+BEGIN
+  IF v_record_id IS NULL THEN
+    INSERT INTO public.compliance_records (
+      organisation_id, compliance_item, compliance_status, responsible_person,
+      next_review_date, review_status, notes
+    )
+    VALUES (
+      public.get_user_organisation_id(),
+      p_record ->> 'compliance_item',
+      p_record ->> 'compliance_status',
+      p_record ->> 'responsible_person',
+      (p_record ->> 'next_review_date')::DATE,
+      p_record ->> 'review_status',
+      NULLIF(p_record ->> 'notes', '')
+    )
+    RETURNING id INTO v_record_id;
+  ELSE
+    UPDATE public.compliance_records
+    SET
+      compliance_item = p_record ->> 'compliance_item',
+      compliance_status = p_record ->> 'compliance_status',
+      responsible_person = p_record ->> 'responsible_person',
+      next_review_date = (p_record ->> 'next_review_date')::DATE,
+      review_status = p_record ->> 'review_status',
+      notes = NULLIF(p_record ->> 'notes', '')
+    WHERE id = v_record_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Compliance record not found';
+    END IF;
+  END IF;
+
+  PERFORM public.set_compliance_record_standards(v_record_id, p_standard_ids);
+  RETURN v_record_id;
+END;
+$$;
+
+-- Linking and unlinking standards shows up in the record's history as a change
+-- to its clauses. Links removed because the record or the standard is being
+-- purged are covered by that row's own entry.
+CREATE OR REPLACE FUNCTION public.audit_record_standard_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.compliance_record_standards;
+  v_record_label TEXT;
+  v_clause TEXT;
+  v_actor_id UUID := auth.uid();
+  v_actor_name TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_link := OLD;
+  ELSE
+    v_link := NEW;
+  END IF;
+
+  SELECT compliance_item INTO v_record_label
+  FROM public.compliance_records
+  WHERE id = v_link.record_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT standard_clause INTO v_clause
+  FROM public.standards
+  WHERE id = v_link.standard_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT COALESCE(full_name, email) INTO v_actor_name
+    FROM public.organisation_members
+    WHERE id = v_actor_id;
+  END IF;
+
+  INSERT INTO public.audit_log (organisation_id, table_name, record_id, record_label, action, actor_id, actor_name, before_data, after_data)
+  VALUES (
+    v_link.organisation_id,
+    'compliance_records',
+    v_link.record_id,
+    v_record_label,
+    'updated',
+    v_actor_id,
+    v_actor_name,
+    CASE WHEN TG_OP = 'DELETE' THEN jsonb_build_object('standard_clause', v_clause) END,
+    CASE WHEN TG_OP = 'INSERT' THEN jsonb_build_object('standard_clause', v_clause) END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_compliance_record_standards
+  AFTER INSERT OR DELETE ON public.compliance_record_standards
+  FOR EACH ROW EXECUTE FUNCTION public.audit_record_standard_change();
+
+-- The crosswalk assistant now swaps a record's link to an old clause for links
+-- to the new clauses. p_changes is a JSON array of
+-- {record_id, from_standard_id, to_standard_ids}.
+DROP FUNCTION public.apply_crosswalk_migration(TEXT, TEXT, JSONB);
+
+-- A record linked to several old clauses is logged once per clause
+ALTER TABLE public.crosswalk_migrations
+  DROP CONSTRAINT crosswalk_migrations_record_id_from_framework_to_framework_key;
+
+CREATE OR REPLACE FUNCTION public.apply_crosswalk_migration(
+  p_from_framework TEXT,
+  p_to_framework TEXT,
+  p_changes JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID := public.get_user_organisation_id();
+  v_change JSONB;
+  v_record_id UUID;
+  v_from_id UUID;
+  v_to_ids UUID[];
+  v_old_clause TEXT;
+  v_new_clauses TEXT;
+  v_total INTEGER := 0;
+BEGIN
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can migrate compliance records';
+  END IF;
+
+  FOR v_change IN SELECT jsonb_array_elements(p_changes) LOOP
+    v_record_id := (v_change ->> 'record_id')::UUID;
+    v_from_id := (v_change ->> 'from_standard_id')::UUID;
+    v_to_ids := ARRAY(SELECT jsonb_array_elements_text(v_change -> 'to_standard_ids')::UUID);
+    v_old_clause := NULL;
+
+    IF cardinality(v_to_ids) = 0 OR EXISTS (
+      SELECT 1 FROM unnest(v_to_ids) AS to_id
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.standards
+        WHERE id = to_id AND organisation_id = v_org_id AND framework = p_to_framework AND deleted_at IS NULL
+      )
+    ) THEN
+      RAISE EXCEPTION 'Every record must move to at least one clause of the new framework';
+    END IF;
+
+    DELETE FROM public.compliance_record_standards l
+    USING public.compliance_records r, public.standards s
+    WHERE l.record_id = v_record_id
+      AND l.standard_id = v_from_id
+      AND r.id = l.record_id
+      AND r.organisation_id = v_org_id
+      AND r.deleted_at IS NULL
+      AND s.id = l.standard_id
+      AND s.framework = p_from_framework
+    RETURNING s.standard_clause INTO v_old_clause;
+
+    IF v_old_clause IS NULL THEN
+      RAISE EXCEPTION 'A compliance record changed since the preview was built. Review the migration and try again.';
+    END IF;
+
+    INSERT INTO public.compliance_record_standards (record_id, standard_id, organisation_id)
+    SELECT v_record_id, to_id, v_org_id
+    FROM unnest(v_to_ids) AS to_id
+    ON CONFLICT DO NOTHING;
+
+    SELECT string_agg(standard_clause, ', ' ORDER BY standard_clause) INTO v_new_clauses
+    FROM public.standards
+    WHERE id = ANY (v_to_ids);
+
+    INSERT INTO public.crosswalk_migrations (
+      organisation_id, record_id, from_framework, to_framework, old_clause, new_clause, migrated_by
+    )
+    VALUES (v_org_id, v_record_id, p_from_framework, p_to_framework, v_old_clause, v_new_clauses, auth.uid());
+
+    v_total := v_total + 1;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Recycle bin labels no longer have a clause to show for records
+CREATE OR REPLACE FUNCTION public.get_recycle_bin()
+RETURNS TABLE (
+  item_type TEXT,
+  id UUID,
+  label TEXT,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  deleted_by_name TEXT,
+  purge_after TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can view the recycle bin';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    'compliance_records'::TEXT,
+    r.id,
+    r.compliance_item,
+    r.deleted_at,
+    COALESCE(m.full_name, m.email),
+    r.deleted_at + make_interval(days => public.recycle_bin_retention_days())
+  FROM public.compliance_records r
+  LEFT JOIN public.organisation_members m ON m.id = r.deleted_by
+  WHERE r.organisation_id = public.get_user_organisation_id()
+    AND r.deleted_at IS NOT NULL
+  UNION ALL
+  SELECT
+    'standards'::TEXT,
+    s.id,
+    s.standard_clause || ' - ' || s.standard_description,
+    s.deleted_at,
+    COALESCE(m.full_name, m.email),
+    s.deleted_at + make_interval(days => public.recycle_bin_retention_days())
+  FROM public.standards s
+  LEFT JOIN public.organisation_members m ON m.id = s.deleted_by
+  WHERE s.organisation_id = public.get_user_organisation_id()
+    AND s.deleted_at IS NOT NULL
+  ORDER BY 4 DESC;
+END;
+$$;
+
+ALTER TABLE public.compliance_records DROP COLUMN standard_clause;
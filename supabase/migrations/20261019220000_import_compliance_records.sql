@@ -0,0 +1,61 @@
+-- Bulk import for onboarding. The wizard validates every row before calling this,
+-- and the whole file goes in as one transaction: if any row fails, nothing is
+-- inserted. p_records is a JSON array of
+-- {compliance_item, compliance_status, responsible_person, next_review_date,
+--  review_status, notes, standard_ids}. Runs with the caller's permissions, so the
+-- usual insert policies still apply.
+CREATE OR REPLACE FUNCTION public.import_compliance_records(p_records JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID := public.get_user_organisation_id();
+  v_item JSONB;
+  v_row_number INTEGER := 0;
+  v_record_id UUID;
+  v_standard_ids UUID[];
+BEGIN
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can import compliance records';
+  END IF;
+
+  FOR v_item IN SELECT jsonb_array_elements(p_records) LOOP
+    v_row_number := v_row_number + 1;
+    v_standard_ids := ARRAY(SELECT jsonb_array_elements_text(v_item -> 'standard_ids')::UUID);
+
+    IF COALESCE(trim(v_item ->> 'compliance_item'), '') = '' THEN
+      RAISE EXCEPTION 'Row %: compliance item is required', v_row_number;
+    END IF;
+
+    IF v_item ->> 'compliance_status' NOT IN ('Compliant', 'At Risk', 'Non-Compliant') THEN
+      RAISE EXCEPTION 'Row %: "%" is not a compliance status', v_row_number, v_item ->> 'compliance_status';
+    END IF;
+
+    IF cardinality(v_standard_ids) = 0 THEN
+      RAISE EXCEPTION 'Row %: a compliance record must cover at least one standard', v_row_number;
+    END IF;
+
+    INSERT INTO public.compliance_records (
+      organisation_id, compliance_item, compliance_status, responsible_person,
+      next_review_date, review_status, notes
+    )
+    VALUES (
+      v_org_id,
+      trim(v_item ->> 'compliance_item'),
+      v_item ->> 'compliance_status',
+      v_item ->> 'responsible_person',
+      (v_item ->> 'next_review_date')::DATE,
+      v_item ->> 'review_status',
+      NULLIF(v_item ->> 'notes', '')
+    )
+    RETURNING id INTO v_record_id;
+
+    INSERT INTO public.compliance_record_standards (record_id, standard_id, organisation_id)
+    SELECT DISTINCT v_record_id, standard_id, v_org_id
+    FROM unnest(v_standard_ids) AS standard_id;
+  END LOOP;
+
+  RETURN v_row_number;
+END;
+$$;
@@ -0,0 +1,146 @@
+-- Audit evidence packs: a zip of evidence arranged by standard clause, built in
+-- the background by the generate-evidence-pack function. Each row tracks one
+-- request from queued through to a finished zip in the evidence-packs bucket.
+-- A zip holds copies of the evidence, so it's only kept until expires_at; the
+-- expire-evidence-packs function then removes it, and evidence purged from the
+-- recycle bin doesn't live on in old packs.
+CREATE TABLE public.evidence_packs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  requested_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  standard_ids UUID[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'failed', 'expired')),
+  file_path TEXT,
+  size_bytes BIGINT,
+  record_count INTEGER,
+  file_count INTEGER,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_evidence_packs_org ON public.evidence_packs (organisation_id, created_at DESC);
+CREATE INDEX idx_evidence_packs_expiry ON public.evidence_packs (expires_at) WHERE status = 'completed';
+
+ALTER TABLE public.evidence_packs ENABLE ROW LEVEL SECURITY;
+
+-- Packs are created and updated only by the functions, which use the service
+-- role. Whoever asked for a pack, or an admin, can delete it once it's no
+-- longer being built; the page removes its zip first.
+CREATE POLICY "Members can view their organisation's evidence packs"
+  ON public.evidence_packs
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Requesters and admins can delete evidence packs"
+  ON public.evidence_packs
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND (requested_by = auth.uid() OR public.get_user_role() = 'admin')
+    AND status NOT IN ('queued', 'processing')
+  );
+
+-- Lets the page follow a pack's progress live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.evidence_packs;
+
+-- Finished zips live under "<organisation_id>/<pack id>.zip"
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'evidence-packs',
+  'evidence-packs',
+  false,
+  524288000,
+  ARRAY['application/zip']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Members can read their organisation's evidence packs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'evidence-packs'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+  );
+
+CREATE POLICY "Requesters and admins can delete evidence pack objects"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'evidence-packs'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+    AND EXISTS (
+      SELECT 1 FROM public.evidence_packs p
+      WHERE p.file_path = storage.objects.name
+        AND p.organisation_id = public.get_user_organisation_id()
+        AND (p.requested_by = auth.uid() OR public.get_user_role() = 'admin')
+    )
+  );
+
+-- A worker that runs out of memory or time is stopped without reaching its own
+-- error handling, leaving the pack queued or building for good. Packs still
+-- unfinished well past the functions' time limit are failed here instead, and
+-- the requester is told as they would be for any other failure.
+CREATE OR REPLACE FUNCTION public.fail_stale_evidence_packs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH failed AS (
+    UPDATE public.evidence_packs
+    SET status = 'failed',
+        error = 'Building the pack took too long and was stopped. Try again with fewer clauses.',
+        completed_at = now()
+    WHERE status IN ('queued', 'processing')
+      AND created_at < now() - INTERVAL '15 minutes'
+    RETURNING organisation_id, requested_by
+  ), notified AS (
+    INSERT INTO public.notifications (organisation_id, user_id, created_by, type, action, title, message)
+    SELECT organisation_id, requested_by, requested_by, 'evidence_pack', 'failed', 'Evidence pack failed',
+           'Your evidence pack could not be built: it took too long and was stopped. Try again with fewer clauses.'
+    FROM failed
+    WHERE requested_by IS NOT NULL
+  )
+  SELECT count(*) INTO v_count FROM failed;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stale_evidence_packs() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'fail-stale-evidence-packs',
+  '*/15 * * * *',
+  $$SELECT public.fail_stale_evidence_packs();$$
+);
+
+-- Every day at 2am AEST, after the recycle bin purge. Authenticated with the
+-- Vault cron_secret; the function turns away anyone else.
+SELECT cron.schedule(
+  'daily-evidence-pack-expiry',
+  '0 16 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://vmtfiuhvwgtpgaswowgu.supabase.co/functions/v1/expire-evidence-packs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
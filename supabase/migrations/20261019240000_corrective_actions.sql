@@ -0,0 +1,187 @@
+-- Corrective and preventive actions (CAPA) raised against a compliance record
+-- that is At Risk or Non-Compliant. Each action has an owner and due date, and
+-- is closed by someone signing off that its verification step has been done.
+CREATE TABLE public.corrective_actions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  record_id UUID NOT NULL REFERENCES public.compliance_records(id) ON DELETE CASCADE,
+  root_cause TEXT NOT NULL,
+  planned_action TEXT NOT NULL,
+  owner_id UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  due_date DATE NOT NULL,
+  verification TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'closed')),
+  closure_notes TEXT,
+  closed_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.corrective_actions.verification IS 'How the action will be checked as effective; required before it can be closed';
+COMMENT ON COLUMN public.corrective_actions.closure_notes IS 'The sign-off: what the verification found';
+
+CREATE INDEX idx_corrective_actions_record ON public.corrective_actions (record_id, created_at);
+CREATE INDEX idx_corrective_actions_open ON public.corrective_actions (organisation_id, due_date) WHERE status <> 'closed';
+
+ALTER TABLE public.corrective_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's corrective actions"
+  ON public.corrective_actions
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can raise corrective actions on their organisation's records"
+  ON public.corrective_actions
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.compliance_records r
+      WHERE r.id = record_id AND r.organisation_id = corrective_actions.organisation_id
+    )
+  );
+
+CREATE POLICY "Members can update their organisation's corrective actions"
+  ON public.corrective_actions
+  FOR UPDATE
+  USING (organisation_id = public.get_user_organisation_id())
+  WITH CHECK (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Admins can delete their organisation's corrective actions"
+  ON public.corrective_actions
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  );
+
+-- The sign-off is stamped here rather than trusted from the client. A closed
+-- action can't be edited, so what was signed off can't be rewritten; it has to
+-- be reopened first, which clears the sign-off. An action also stays on the
+-- record it was raised against, as the update policy only checks the
+-- organisation, and its owner has to be a member of that organisation.
+CREATE OR REPLACE FUNCTION public.stamp_corrective_action()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.organisation_id := OLD.organisation_id;
+    NEW.record_id := OLD.record_id;
+    NEW.created_by := OLD.created_by;
+
+    IF OLD.status = 'closed' AND NEW.status = 'closed' AND (
+      NEW.root_cause IS DISTINCT FROM OLD.root_cause
+      OR NEW.planned_action IS DISTINCT FROM OLD.planned_action
+      OR NEW.owner_id IS DISTINCT FROM OLD.owner_id
+      OR NEW.due_date IS DISTINCT FROM OLD.due_date
+      OR NEW.verification IS DISTINCT FROM OLD.verification
+      OR NEW.closure_notes IS DISTINCT FROM OLD.closure_notes
+    ) THEN
+      RAISE EXCEPTION 'Reopen the corrective action before editing it';
+    END IF;
+  END IF;
+
+  IF NEW.owner_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.owner_id IS DISTINCT FROM OLD.owner_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organisation_members
+      WHERE id = NEW.owner_id AND organisation_id = NEW.organisation_id
+    ) THEN
+    RAISE EXCEPTION 'The owner must be a member of your organisation';
+  END IF;
+
+  IF NEW.status = 'closed' THEN
+    IF TG_OP = 'INSERT' OR OLD.status <> 'closed' THEN
+      IF NULLIF(trim(COALESCE(NEW.verification, '')), '') IS NULL THEN
+        RAISE EXCEPTION 'Record the verification step before closing the corrective action';
+      END IF;
+      NEW.closed_by := auth.uid();
+      NEW.closed_at := now();
+    ELSE
+      NEW.closed_by := OLD.closed_by;
+      NEW.closed_at := OLD.closed_at;
+    END IF;
+  ELSE
+    NEW.closed_by := NULL;
+    NEW.closed_at := NULL;
+    NEW.closure_notes := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_corrective_action
+  BEFORE INSERT OR UPDATE ON public.corrective_actions
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_corrective_action();
+
+-- Raising, closing, reopening and removing actions show up in the record's
+-- history. Edits to an action's wording aren't logged there.
+CREATE OR REPLACE FUNCTION public.audit_corrective_action_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_action public.corrective_actions;
+  v_record_label TEXT;
+  v_actor_id UUID := auth.uid();
+  v_actor_name TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_action := OLD;
+  ELSE
+    v_action := NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT compliance_item INTO v_record_label
+  FROM public.compliance_records
+  WHERE id = v_action.record_id;
+
+  -- Gone with its record, which has its own entry
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT COALESCE(full_name, email) INTO v_actor_name
+    FROM public.organisation_members
+    WHERE id = v_actor_id;
+  END IF;
+
+  INSERT INTO public.audit_log (organisation_id, table_name, record_id, record_label, action, actor_id, actor_name, before_data, after_data)
+  VALUES (
+    v_action.organisation_id,
+    'compliance_records',
+    v_action.record_id,
+    v_record_label,
+    'updated',
+    v_actor_id,
+    v_actor_name,
+    CASE WHEN TG_OP <> 'INSERT' THEN
+      jsonb_build_object('corrective_action', format('%s (%s)', OLD.planned_action, replace(OLD.status, '_', ' ')))
+    END,
+    CASE WHEN TG_OP <> 'DELETE' THEN
+      jsonb_build_object('corrective_action', format('%s (%s)', NEW.planned_action, replace(NEW.status, '_', ' ')))
+    END
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_corrective_actions
+  AFTER INSERT OR UPDATE OR DELETE ON public.corrective_actions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_corrective_action_change();
@@ -0,0 +1,200 @@
+-- Continuous improvement register: each entry records where an improvement came
+-- from, what was done about it and how it turned out, and links to the standard
+-- clauses and compliance records it relates to.
+CREATE TABLE public.improvements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('complaint', 'feedback', 'audit_finding', 'validation_outcome', 'other')),
+  source_details TEXT,
+  identified_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  action_taken TEXT,
+  owner_id UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'identified' CHECK (status IN ('identified', 'in_progress', 'implemented', 'closed')),
+  outcome TEXT,
+  created_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.improvements.outcome IS 'The effect of the action, recorded once it has been implemented';
+
+CREATE INDEX idx_improvements_org ON public.improvements (organisation_id, identified_on DESC);
+
+CREATE TABLE public.improvement_standards (
+  improvement_id UUID NOT NULL REFERENCES public.improvements(id) ON DELETE CASCADE,
+  standard_id UUID NOT NULL REFERENCES public.standards(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  PRIMARY KEY (improvement_id, standard_id)
+);
+
+CREATE INDEX idx_improvement_standards_standard ON public.improvement_standards (standard_id);
+
+CREATE TABLE public.improvement_records (
+  improvement_id UUID NOT NULL REFERENCES public.improvements(id) ON DELETE CASCADE,
+  record_id UUID NOT NULL REFERENCES public.compliance_records(id) ON DELETE CASCADE,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  PRIMARY KEY (improvement_id, record_id)
+);
+
+CREATE INDEX idx_improvement_records_record ON public.improvement_records (record_id);
+
+ALTER TABLE public.improvements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.improvement_standards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.improvement_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's improvements"
+  ON public.improvements
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can add improvements"
+  ON public.improvements
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Members can update their organisation's improvements"
+  ON public.improvements
+  FOR UPDATE
+  USING (organisation_id = public.get_user_organisation_id())
+  WITH CHECK (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Admins can delete their organisation's improvements"
+  ON public.improvements
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  );
+
+CREATE POLICY "Members can view their organisation's improvement standards"
+  ON public.improvement_standards
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can link improvements to standards"
+  ON public.improvement_standards
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND EXISTS (
+      SELECT 1 FROM public.improvements i
+      WHERE i.id = improvement_id AND i.organisation_id = improvement_standards.organisation_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.standards s
+      WHERE s.id = standard_id AND s.organisation_id = improvement_standards.organisation_id
+    )
+  );
+
+CREATE POLICY "Members can unlink improvements from standards"
+  ON public.improvement_standards
+  FOR DELETE
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can view their organisation's improvement records"
+  ON public.improvement_records
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can link improvements to compliance records"
+  ON public.improvement_records
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND EXISTS (
+      SELECT 1 FROM public.improvements i
+      WHERE i.id = improvement_id AND i.organisation_id = improvement_records.organisation_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.compliance_records r
+      WHERE r.id = record_id AND r.organisation_id = improvement_records.organisation_id
+    )
+  );
+
+CREATE POLICY "Members can unlink improvements from compliance records"
+  ON public.improvement_records
+  FOR DELETE
+  USING (organisation_id = public.get_user_organisation_id());
+
+-- An improvement stays with the organisation and creator it was raised by, as
+-- the update policy only checks the organisation, and its owner has to be a
+-- member of that organisation; the foreign key alone would accept anyone.
+CREATE OR REPLACE FUNCTION public.stamp_improvement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.organisation_id := OLD.organisation_id;
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  IF NEW.owner_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.owner_id IS DISTINCT FROM OLD.owner_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organisation_members
+      WHERE id = NEW.owner_id AND organisation_id = NEW.organisation_id
+    ) THEN
+    RAISE EXCEPTION 'The owner must be a member of your organisation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_improvement
+  BEFORE INSERT OR UPDATE ON public.improvements
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_improvement();
+
+-- Replaces an improvement's linked clauses and records in one step. Runs with the
+-- caller's permissions like set_compliance_record_standards, and likewise keeps
+-- links to anything in the recycle bin for when it's restored.
+CREATE OR REPLACE FUNCTION public.set_improvement_links(
+  p_improvement_id UUID,
+  p_standard_ids UUID[],
+  p_record_ids UUID[]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT organisation_id INTO v_org_id
+  FROM public.improvements
+  WHERE id = p_improvement_id;
+
+  IF v_org_id IS NULL THEN
+    RAISE EXCEPTION 'Improvement not found';
+  END IF;
+
+  DELETE FROM public.improvement_standards
+  WHERE improvement_id = p_improvement_id
+    AND standard_id <> ALL (COALESCE(p_standard_ids, '{}'))
+    AND EXISTS (SELECT 1 FROM public.standards s WHERE s.id = standard_id);
+
+  INSERT INTO public.improvement_standards (improvement_id, standard_id, organisation_id)
+  SELECT p_improvement_id, standard_id, v_org_id
+  FROM unnest(COALESCE(p_standard_ids, '{}')) AS standard_id
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.improvement_records
+  WHERE improvement_id = p_improvement_id
+    AND record_id <> ALL (COALESCE(p_record_ids, '{}'))
+    AND EXISTS (SELECT 1 FROM public.compliance_records r WHERE r.id = record_id);
+
+  INSERT INTO public.improvement_records (improvement_id, record_id, organisation_id)
+  SELECT p_improvement_id, record_id, v_org_id
+  FROM unnest(COALESCE(p_record_ids, '{}')) AS record_id
+  ON CONFLICT DO NOTHING;
+END;
+$$;
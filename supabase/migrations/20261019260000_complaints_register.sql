@@ -0,0 +1,130 @@
+-- Complaints and appeals register. Each entry carries the two deadlines an RTO
+-- is held to (acknowledging it, then resolving it), which the
+-- complaint-reminders function watches.
+CREATE TABLE public.complaints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL DEFAULT 'complaint' CHECK (kind IN ('complaint', 'appeal')),
+  complainant_type TEXT NOT NULL CHECK (complainant_type IN ('learner', 'employer', 'staff', 'third_party', 'other')),
+  complainant_name TEXT,
+  summary TEXT NOT NULL,
+  received_on DATE NOT NULL,
+  acknowledge_by DATE NOT NULL,
+  acknowledged_on DATE,
+  resolve_by DATE NOT NULL,
+  resolved_on DATE,
+  handler_id UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'investigating', 'resolved', 'withdrawn')),
+  investigation_notes TEXT,
+  outcome TEXT,
+  referred_externally BOOLEAN NOT NULL DEFAULT false,
+  referral_body TEXT,
+  created_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (acknowledge_by >= received_on AND resolve_by >= received_on)
+);
+
+COMMENT ON COLUMN public.complaints.referral_body IS 'Who it was referred to when referred_externally, e.g. ASQA or the National Training Complaints Hotline';
+
+CREATE INDEX idx_complaints_org ON public.complaints (organisation_id, received_on DESC);
+CREATE INDEX idx_complaints_open ON public.complaints (resolve_by) WHERE resolved_on IS NULL;
+
+ALTER TABLE public.complaints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organisation's complaints"
+  ON public.complaints
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Members can record complaints"
+  ON public.complaints
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Members can update their organisation's complaints"
+  ON public.complaints
+  FOR UPDATE
+  USING (organisation_id = public.get_user_organisation_id())
+  WITH CHECK (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Admins can delete their organisation's complaints"
+  ON public.complaints
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  );
+
+-- A complaint stays with the organisation and creator that recorded it, as the
+-- update policy only checks the organisation. Its handler has to be a member of
+-- that organisation too, since the reminders job emails them the details.
+CREATE OR REPLACE FUNCTION public.stamp_complaint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.organisation_id := OLD.organisation_id;
+    NEW.created_by := OLD.created_by;
+    NEW.created_at := OLD.created_at;
+  END IF;
+
+  IF NEW.handler_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.handler_id IS DISTINCT FROM OLD.handler_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.organisation_members
+      WHERE id = NEW.handler_id AND organisation_id = NEW.organisation_id
+    ) THEN
+    RAISE EXCEPTION 'The handler must be a member of your organisation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_complaint
+  BEFORE INSERT OR UPDATE ON public.complaints
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_complaint();
+
+-- One row per reminder sent to each recipient, so re-running the job never
+-- double-sends. days_before is the threshold reached; emailed stays false until
+-- the email goes out, and the next run tries it again. A moved deadline gets
+-- its own reminders.
+CREATE TABLE public.complaint_reminders_sent (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+  deadline TEXT NOT NULL CHECK (deadline IN ('acknowledge', 'resolve')),
+  deadline_date DATE NOT NULL,
+  days_before INTEGER NOT NULL,
+  member_id UUID NOT NULL REFERENCES public.organisation_members(id) ON DELETE CASCADE,
+  emailed BOOLEAN NOT NULL DEFAULT false,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (complaint_id, deadline, deadline_date, days_before, member_id)
+);
+
+-- Only the complaint-reminders edge function (service role) reads or writes this table
+ALTER TABLE public.complaint_reminders_sent ENABLE ROW LEVEL SECURITY;
+
+-- Every morning at 7:05am AEST, just after the review reminders. Authenticated
+-- with the Vault cron_secret; the function turns away anyone else.
+SELECT cron.schedule(
+  'daily-complaint-reminders',
+  '5 21 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://vmtfiuhvwgtpgaswowgu.supabase.co/functions/v1/complaint-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,175 @@
+-- Trainer and assessor credentials. Each member who trains or assesses lists
+-- the units they deliver and the credentials that back them (TAE
+-- qualification, vocational competency, industry currency), so the matrix can
+-- show any unit a trainer delivers without a current credential behind it.
+CREATE TABLE public.trainer_units (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.organisation_members(id) ON DELETE CASCADE,
+  unit_code TEXT NOT NULL,
+  unit_title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (member_id, unit_code)
+);
+
+CREATE INDEX idx_trainer_units_org ON public.trainer_units (organisation_id);
+
+CREATE TABLE public.trainer_credentials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.organisation_members(id) ON DELETE CASCADE,
+  credential_type TEXT NOT NULL CHECK (credential_type IN ('tae_qualification', 'vocational_competency', 'industry_currency', 'other')),
+  title TEXT NOT NULL,
+  code TEXT,
+  issuer TEXT,
+  achieved_on DATE,
+  expires_on DATE,
+  unit_codes TEXT[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  certificate_name TEXT,
+  certificate_path TEXT UNIQUE,
+  certificate_mime_type TEXT,
+  certificate_size_bytes BIGINT,
+  created_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (expires_on IS NULL OR achieved_on IS NULL OR expires_on >= achieved_on)
+);
+
+COMMENT ON COLUMN public.trainer_credentials.unit_codes IS 'Units a vocational competency or currency activity covers; empty means every unit the trainer delivers';
+COMMENT ON COLUMN public.trainer_credentials.certificate_path IS 'Object in the compliance-evidence bucket, under <organisation_id>/trainers/<member_id>/';
+
+CREATE INDEX idx_trainer_credentials_member ON public.trainer_credentials (member_id, credential_type);
+CREATE INDEX idx_trainer_credentials_org ON public.trainer_credentials (organisation_id);
+
+ALTER TABLE public.trainer_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trainer_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Everyone in the organisation can see the matrix; trainers keep their own
+-- credentials up to date and admins can manage anyone's
+CREATE POLICY "Members can view their organisation's trainer units"
+  ON public.trainer_units
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Trainers and admins can add trainer units"
+  ON public.trainer_units
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND (member_id = auth.uid() OR public.get_user_role() = 'admin')
+    AND EXISTS (
+      SELECT 1 FROM public.organisation_members m
+      WHERE m.id = member_id AND m.organisation_id = trainer_units.organisation_id
+    )
+  );
+
+CREATE POLICY "Trainers and admins can remove trainer units"
+  ON public.trainer_units
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND (member_id = auth.uid() OR public.get_user_role() = 'admin')
+  );
+
+CREATE POLICY "Members can view their organisation's trainer credentials"
+  ON public.trainer_credentials
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Trainers and admins can add trainer credentials"
+  ON public.trainer_credentials
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND created_by = auth.uid()
+    AND (member_id = auth.uid() OR public.get_user_role() = 'admin')
+    AND EXISTS (
+      SELECT 1 FROM public.organisation_members m
+      WHERE m.id = member_id AND m.organisation_id = trainer_credentials.organisation_id
+    )
+  );
+
+CREATE POLICY "Trainers and admins can update trainer credentials"
+  ON public.trainer_credentials
+  FOR UPDATE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND (member_id = auth.uid() OR public.get_user_role() = 'admin')
+  )
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND (member_id = auth.uid() OR public.get_user_role() = 'admin')
+  );
+
+CREATE POLICY "Trainers and admins can delete trainer credentials"
+  ON public.trainer_credentials
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND (member_id = auth.uid() OR public.get_user_role() = 'admin')
+  );
+
+-- Certificates sit in the evidence bucket under "<organisation_id>/trainers/<member_id>/".
+-- The bucket's general policies let any member upload or delete anything in the
+-- organisation's folder, so they're narrowed to leave the trainers folder out,
+-- and that folder follows the same rule as the credentials: trainers manage their
+-- own, admins anyone's. Reading stays open to the organisation, like the matrix.
+DROP POLICY IF EXISTS "Members can upload evidence objects for their organisation" ON storage.objects;
+DROP POLICY IF EXISTS "Members can delete their organisation's evidence objects" ON storage.objects;
+
+CREATE POLICY "Members can upload evidence objects for their organisation"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'compliance-evidence'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+    AND (storage.foldername(name))[2] IS DISTINCT FROM 'trainers'
+  );
+
+CREATE POLICY "Members can delete their organisation's evidence objects"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'compliance-evidence'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+    AND (storage.foldername(name))[2] IS DISTINCT FROM 'trainers'
+  );
+
+CREATE POLICY "Trainers and admins can upload trainer certificates"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'compliance-evidence'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+    AND (storage.foldername(name))[2] = 'trainers'
+    AND ((storage.foldername(name))[3] = auth.uid()::text OR public.get_user_role() = 'admin')
+  );
+
+CREATE POLICY "Trainers and admins can delete trainer certificates"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'compliance-evidence'
+    AND (storage.foldername(name))[1] = public.get_user_organisation_id()::text
+    AND (storage.foldername(name))[2] = 'trainers'
+    AND ((storage.foldername(name))[3] = auth.uid()::text OR public.get_user_role() = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION public.touch_trainer_credential()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_trainer_credential
+  BEFORE UPDATE ON public.trainer_credentials
+  FOR EACH ROW EXECUTE FUNCTION public.touch_trainer_credential();
@@ -0,0 +1,173 @@
+-- Scope of registration: the qualifications, skill sets, units and accredited
+-- courses the RTO is registered to deliver. Items are keyed to the
+-- organisation's RTO ID (as on training.gov.au), which is stamped on insert so a
+-- register can never drift from the RTO it belongs to.
+CREATE TABLE public.scope_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  rto_id TEXT NOT NULL,
+  product_type TEXT NOT NULL CHECK (product_type IN ('qualification', 'skill_set', 'unit', 'accredited_course')),
+  code TEXT NOT NULL,
+  title TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'current' CHECK (status IN ('current', 'superseded', 'teach_out')),
+  superseded_by TEXT,
+  transition_ends_on DATE,
+  on_scope_from DATE,
+  extent TEXT,
+  notes TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  last_imported_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.organisation_members(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, rto_id, code),
+  -- A teach-out is only meaningful with the date delivery has to finish by
+  CHECK (status <> 'teach_out' OR transition_ends_on IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.scope_items.transition_ends_on IS 'Last day a superseded or teach-out product can be delivered or enrolled against';
+COMMENT ON COLUMN public.scope_items.extent IS 'Extent of scope as shown on training.gov.au, e.g. Deliver and assess';
+
+CREATE INDEX idx_scope_items_transition ON public.scope_items (organisation_id, transition_ends_on)
+  WHERE status = 'teach_out';
+
+ALTER TABLE public.scope_items ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can see the scope; only admins change it
+CREATE POLICY "Members can view their organisation's scope"
+  ON public.scope_items
+  FOR SELECT
+  USING (organisation_id = public.get_user_organisation_id());
+
+CREATE POLICY "Admins can add to their organisation's scope"
+  ON public.scope_items
+  FOR INSERT
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+    AND created_by = auth.uid()
+  );
+
+CREATE POLICY "Admins can update their organisation's scope"
+  ON public.scope_items
+  FOR UPDATE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  )
+  WITH CHECK (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  );
+
+CREATE POLICY "Admins can delete from their organisation's scope"
+  ON public.scope_items
+  FOR DELETE
+  USING (
+    organisation_id = public.get_user_organisation_id()
+    AND public.get_user_role() = 'admin'
+  );
+
+CREATE OR REPLACE FUNCTION public.stamp_scope_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT rto_id INTO NEW.rto_id FROM public.organisations WHERE id = NEW.organisation_id;
+    IF COALESCE(trim(NEW.rto_id), '') = '' THEN
+      RAISE EXCEPTION 'Your organisation has no RTO ID recorded, so items cannot be added to its scope';
+    END IF;
+  ELSE
+    NEW.rto_id := OLD.rto_id;
+    NEW.updated_at := now();
+  END IF;
+  NEW.code := upper(trim(NEW.code));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_scope_item
+  BEFORE INSERT OR UPDATE ON public.scope_items
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_scope_item();
+
+-- Loads a training.gov.au scope export, checked and previewed by the import
+-- dialog first. Products already on scope are updated in place, keeping their
+-- notes and any dates or details the file leaves blank, except that a product
+-- back to current loses its teach-out end date. Nothing is removed, since an
+-- export only reflects the day it was taken. The whole file goes in as one
+-- transaction. p_items is a JSON array of {product_type, code, title, status,
+-- superseded_by, transition_ends_on, on_scope_from, extent}. Returns the number
+-- of items added and updated.
+CREATE OR REPLACE FUNCTION public.import_scope_items(p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_org_id UUID := public.get_user_organisation_id();
+  v_rto_id TEXT;
+  v_item JSONB;
+  v_row_number INTEGER := 0;
+  v_inserted BOOLEAN;
+  v_added INTEGER := 0;
+  v_updated INTEGER := 0;
+BEGIN
+  IF public.get_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only organisation admins can import the scope of registration';
+  END IF;
+
+  SELECT rto_id INTO v_rto_id FROM public.organisations WHERE id = v_org_id;
+
+  FOR v_item IN SELECT jsonb_array_elements(p_items) LOOP
+    v_row_number := v_row_number + 1;
+
+    IF COALESCE(trim(v_item ->> 'code'), '') = '' OR COALESCE(trim(v_item ->> 'title'), '') = '' THEN
+      RAISE EXCEPTION 'Row %: code and title are required', v_row_number;
+    END IF;
+
+    INSERT INTO public.scope_items (
+      organisation_id, rto_id, product_type, code, title, status, superseded_by,
+      transition_ends_on, on_scope_from, extent, source, last_imported_at, created_by
+    )
+    VALUES (
+      v_org_id,
+      v_rto_id,
+      v_item ->> 'product_type',
+      upper(trim(v_item ->> 'code')),
+      trim(v_item ->> 'title'),
+      v_item ->> 'status',
+      NULLIF(v_item ->> 'superseded_by', ''),
+      (v_item ->> 'transition_ends_on')::DATE,
+      (v_item ->> 'on_scope_from')::DATE,
+      NULLIF(v_item ->> 'extent', ''),
+      'import',
+      now(),
+      auth.uid()
+    )
+    ON CONFLICT (organisation_id, rto_id, code) DO UPDATE
+    SET product_type = EXCLUDED.product_type,
+        title = EXCLUDED.title,
+        status = EXCLUDED.status,
+        superseded_by = COALESCE(EXCLUDED.superseded_by, scope_items.superseded_by),
+        transition_ends_on = CASE
+          WHEN EXCLUDED.status = 'current' THEN NULL
+          ELSE COALESCE(EXCLUDED.transition_ends_on, scope_items.transition_ends_on)
+        END,
+        on_scope_from = COALESCE(EXCLUDED.on_scope_from, scope_items.on_scope_from),
+        extent = COALESCE(EXCLUDED.extent, scope_items.extent),
+        source = 'import',
+        last_imported_at = now()
+    RETURNING (xmax = 0) INTO v_inserted;
+
+    IF v_inserted THEN
+      v_added := v_added + 1;
+    ELSE
+      v_updated := v_updated + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('added', v_added, 'updated', v_updated);
+END;
+$$;